@@ -1,43 +1,91 @@
 
-import React, { useState, useRef, useEffect } from 'react';
-import { Theme, AppStatus, PresentationData, EvaluationResult, CEFRLevel } from './types';
-import { PREDEFINED_THEMES, CEFR_LEVELS } from './constants';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { Theme, AppStatus, PresentationData, EvaluationResult, CEFRLevel, TaskType, YleLevel } from './types';
+import { PREDEFINED_THEMES, CEFR_LEVELS, YLE_LEVELS } from './constants';
 import {
   generateIllustration,
   generatePresentationScript,
   generateTeacherVoice,
   evaluatePresentation,
+  evaluatePictureDescription,
   encode,
   getApiKey,
   saveApiConfig,
   initializeGeminiChat,
   getWordMeaning,
+  prefetchWordMeanings,
+  prewarmTeacherVoice,
   speakWord
 } from './services/geminiService';
-import { saveLessonRecord } from './services/historyService';
+import { AIProviderId, getAIProvider, getAIProviderId, setAIProviderId } from './services/aiProvider';
+import { TranscriptionHandle, startTranscription, transcribeRecording } from './services/transcriptionService';
+import { saveLessonRecord, getLessonPayload, LessonRecord } from './services/historyService';
+import { getRecorderOptions, buildStoredRecording, RECORDING_TIMESLICE_MS } from './services/recordingService';
+import { alignReading, getReadingProgress, getSectionWordOffsets, createReadingTracker } from './services/alignmentService';
+import { WordTiming, getBufferWordTimings, findWordAt, getWordCharOffsets, wordIndexAtChar } from './services/speechTiming';
+import { AudioCapture, startAudioCapture } from './services/audioCapture';
+import { createAudioAnalyzer } from './services/audioAnalysis';
+import { Playback, createUtterance, getAudioContext, playBuffer } from './services/audioPlayback';
+import { setVoiceSettings } from './services/voiceService';
+import { useCancellableAttempt } from './hooks/useCancellableAttempt';
+import { PRONUNCIATION_CATEGORIES } from './services/pronunciationService';
+import { addWordsToNotebook } from './services/vocabularyService';
+import { CurriculumUnit, UnitProgress, getUnits, getLessonFocus, getUnitProgress, recordUnitScore } from './services/curriculumService';
+import {
+  LearnerProfile,
+  LearnerPreferences,
+  getActiveProfile,
+  getProfiles,
+  createProfile,
+  updateProfile,
+  setActiveProfileId,
+  getAvatarUrl
+} from './services/profileService';
 import ThemeCard from './components/ThemeCard';
 import ApiKeyModal from './components/ApiKeyModal';
+import ModelUsageBadge from './components/ModelUsageBadge';
+import ProfileSwitcher from './components/ProfileSwitcher';
 import HistoryPanel from './components/HistoryPanel';
 import Certificate from './components/Certificate';
 import ComprehensionQuiz from './components/ComprehensionQuiz';
 import { InteractiveText } from './components/VocabularyWord';
+import ReadingDiff from './components/ReadingDiff';
+import ScoreExplanation from './components/ScoreExplanation';
+import RubricEditor from './components/RubricEditor';
+import ShadowingPractice from './components/ShadowingPractice';
+import InterviewPractice from './components/InterviewPractice';
+import YleMockExam from './components/YleMockExam';
+import PronunciationDrill from './components/PronunciationDrill';
+import WordNotebook from './components/WordNotebook';
+import VoiceSettingsPanel from './components/VoiceSettingsPanel';
+import CurriculumPath from './components/CurriculumPath';
+import CurriculumEditor from './components/CurriculumEditor';
+import PictureTaskPrompt from './components/PictureTaskPrompt';
+import MicLevelMeter, { MicWarning } from './components/MicLevelMeter';
+import FollowAlongStatus, { getFollowAlongClassName } from './components/FollowAlongStatus';
 import {
   Mic, Play, Pause, RotateCcw, Sparkles, Wand2,
   Trophy, ArrowRight, MessageCircle, History, Award,
-  ShieldCheck, StopCircle, Trash2, CheckCircle2, Clock, AlertTriangle, RefreshCw, Key
+  ShieldCheck, StopCircle, Trash2, CheckCircle2, Clock, AlertTriangle, RefreshCw, Key, Download, SlidersHorizontal, Repeat, BookOpen, ImageIcon, MessagesSquare, GraduationCap, Volume2, NotebookPen, Route
 } from 'lucide-react';
-import { GoogleGenAI, Modality, LiveServerMessage } from '@google/genai';
+
+// Share of the script that must be read before a long silence auto-stops the recording
+const AUTO_STOP_MIN_PROGRESS = 0.9;
 
 const App: React.FC = () => {
   const [selectedTheme, setSelectedTheme] = useState<Theme | null>(null);
   const [customTheme, setCustomTheme] = useState('');
+  const [taskType, setTaskType] = useState<TaskType>('reading');
   const [status, setStatus] = useState<AppStatus>(AppStatus.IDLE);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const [lastAction, setLastAction] = useState<(() => Promise<void>) | null>(null);
   const [presentation, setPresentation] = useState<PresentationData | null>(null);
-  const [childName, setChildName] = useState('Leo');
-  const [level, setLevel] = useState<CEFRLevel>('Starters');
+  const [activeProfile, setActiveProfile] = useState<LearnerProfile>(() => getActiveProfile());
+  const [profiles, setProfiles] = useState<LearnerProfile[]>(() => getProfiles());
+  const childName = activeProfile.name;
+  const level = activeProfile.level;
   const [transcript, setTranscript] = useState('');
+  const [transcriptEngine, setTranscriptEngine] = useState<string | null>(null);
   const [result, setResult] = useState<EvaluationResult | null>(null);
   const [isAudioLoading, setIsAudioLoading] = useState(false);
   const [audioState, setAudioState] = useState<'idle' | 'playing' | 'paused'>('idle');
@@ -46,6 +94,8 @@ const App: React.FC = () => {
   const [showApiModal, setShowApiModal] = useState(false);
   const [apiKey, setApiKey] = useState('');
   const [selectedModel, setSelectedModel] = useState('gemini-2.5-flash');
+  const [providerId, setProviderId] = useState<AIProviderId>(getAIProviderId());
+  const needsApiKey = getAIProvider().requiresApiKey && !apiKey;
 
   // Check for API key on mount
   useEffect(() => {
@@ -54,15 +104,17 @@ const App: React.FC = () => {
     if (storedKey) {
       setApiKey(storedKey);
       setSelectedModel(storedModel);
-    } else {
+    } else if (getAIProvider().requiresApiKey) {
       setShowApiModal(true);
     }
   }, []);
 
-  const handleSaveApiKey = (key: string, model: string) => {
+  const handleSaveApiKey = (key: string, model: string, provider: AIProviderId) => {
     saveApiConfig(key, model);
+    setAIProviderId(provider);
     setApiKey(key);
     setSelectedModel(model);
+    setProviderId(provider);
     setShowApiModal(false);
 
     // Per SKILL.md: If there was an error, clear it and reinitialize
@@ -75,11 +127,53 @@ const App: React.FC = () => {
   // History panel state
   const [showHistory, setShowHistory] = useState(false);
 
+  // Rubric editor state
+  const [showRubricEditor, setShowRubricEditor] = useState(false);
+  const [showShadowing, setShowShadowing] = useState(false);
+  const [showInterview, setShowInterview] = useState(false);
+  const [showYleExam, setShowYleExam] = useState(false);
+  const [showDrill, setShowDrill] = useState(false);
+  const [showNotebook, setShowNotebook] = useState(false);
+  const [showCurriculumEditor, setShowCurriculumEditor] = useState(false);
+
+  // Curriculum units and how the last unit lesson went
+  const [units, setUnits] = useState<CurriculumUnit[]>(() => getUnits());
+  const [unitOutcome, setUnitOutcome] = useState<{ unit: CurriculumUnit; passed: boolean; progress: UnitProgress } | null>(null);
+
   // Certificate state
   const [showCertificate, setShowCertificate] = useState(false);
 
-  // Reading speed control (0.5 = slow, 1.0 = normal, 1.5 = fast)
-  const [speechRate, setSpeechRate] = useState(0.8);
+  // Teacher voice, accent and reading speed (0.5 = slow, 1.0 = normal, 1.5 = fast), saved per learner
+  const { speechRate, voice, accent } = activeProfile.preferences;
+
+  const applyProfileChanges = (changes: { level?: CEFRLevel; name?: string; preferences?: Partial<LearnerPreferences> }) => {
+    const updated = updateProfile(activeProfile.id, changes);
+    if (updated) {
+      setActiveProfile(updated);
+      setProfiles(getProfiles());
+    }
+  };
+
+  const setLevel = (newLevel: CEFRLevel) => applyProfileChanges({ level: newLevel });
+  const setAutoStopSilence = (seconds: number) => applyProfileChanges({ preferences: { autoStopSilenceSeconds: seconds } });
+
+  const handleSelectProfile = (id: string) => {
+    setActiveProfileId(id);
+    setActiveProfile(getActiveProfile());
+  };
+
+  const handleCreateProfile = (name: string) => {
+    const profile = createProfile(name, level);
+    setActiveProfileId(profile.id);
+    setActiveProfile(profile);
+    setProfiles(getProfiles());
+  };
+
+  const handleRenameProfile = (id: string, name: string) => {
+    const updated = updateProfile(id, { name });
+    if (updated && id === activeProfile.id) setActiveProfile(updated);
+    setProfiles(getProfiles());
+  };
 
   // Recording states
   const [recordedBlob, setRecordedBlob] = useState<Blob | null>(null);
@@ -90,13 +184,44 @@ const App: React.FC = () => {
   const audioChunksRef = useRef<Blob[]>([]);
   const timerIntervalRef = useRef<number | null>(null);
 
-  const audioContextRef = useRef<AudioContext | null>(null);
-  const sourceNodeRef = useRef<AudioBufferSourceNode | null>(null);
-  const liveSessionRef = useRef<any>(null);
+  const playbackRef = useRef<Playback | null>(null);
+  const liveSessionRef = useRef<TranscriptionHandle | null>(null);
+  const captureRef = useRef<AudioCapture | null>(null);
+  const recordingAttempt = useCancellableAttempt();
+
+  // Microphone feedback while recording
+  const [micLevel, setMicLevel] = useState(0);
+  const [micWarning, setMicWarning] = useState<MicWarning>(null);
+  const clipWarningTimerRef = useRef<number | null>(null);
+  // Latest transcript for the auto-stop check, which runs outside React renders
+  const transcriptRef = useRef('');
+  useEffect(() => { transcriptRef.current = transcript; }, [transcript]);
   const audioStartTimeRef = useRef<number>(0);
   const audioPausedAtRef = useRef<number>(0);
   const audioBufferRef = useRef<AudioBuffer | null>(null);
 
+  // Karaoke highlight: index of the script word the teacher voice is reading
+  const [activeWordIndex, setActiveWordIndex] = useState<number | null>(null);
+  const wordTimingsRef = useRef<WordTiming[]>([]);
+  const utteranceRef = useRef<SpeechSynthesisUtterance | null>(null);
+
+  // Word-by-word reading diff shown with the result. The stats are the ones
+  // saved with the evaluation, so WCPM matches the recording that was scored.
+  const readingAlignment = useMemo(() => {
+    if (!result || !presentation || result.taskType === 'picture') return null;
+    const alignment = alignReading(presentation.script, result.transcript, recordingTime);
+    return result.reading ? { ...alignment, stats: result.reading } : alignment;
+  }, [result, presentation, recordingTime]);
+  // Describe-the-picture: the child speaks freely, so the script stays hidden until the result
+  const isPictureTask = presentation?.taskType === 'picture';
+
+  // Follow-along highlight of what the child has read so far, from the live transcript
+  const readingTracker = useMemo(() => (presentation && !isPictureTask ? createReadingTracker(presentation.script) : null), [presentation]);
+  const followAlong = useMemo(
+    () => (status === AppStatus.RECORDING && transcriptEngine && readingTracker ? readingTracker.update(transcript) : null),
+    [status, transcriptEngine, readingTracker, transcript]
+  );
+
   const cleanPunctuation = (text: string) => {
     return text.replace(/\.+/g, '.').replace(/\s+/g, ' ').trim();
   };
@@ -119,53 +244,75 @@ const App: React.FC = () => {
   const handleGenerate = async () => {
     const themeText = customTheme || selectedTheme?.label;
     if (!themeText) return;
+    await generateLesson(themeText, level);
+  };
+
+  // A unit lesson is written at the unit's level and practises its words and grammar
+  const generateLesson = async (themeText: string, lessonLevel: CEFRLevel, unitLesson?: { unit: CurriculumUnit; theme: Theme }) => {
     try {
       setStatus(AppStatus.GENERATING);
       setErrorMessage(null);
+      const focus = unitLesson ? getLessonFocus(unitLesson.unit) : undefined;
       const img = await generateIllustration(themeText);
-      const scriptData = await generatePresentationScript(img, themeText, level);
+      const scriptData = await generatePresentationScript(img, themeText, lessonLevel, focus);
       const intro = cleanPunctuation(scriptData.intro.replace('[Name]', childName));
       const points = scriptData.points.map((p: string) => cleanPunctuation(p));
       const conclusion = cleanPunctuation(scriptData.conclusion);
       const fullScript = `${intro} ${points.join(' ')} ${conclusion}`;
-      setPresentation({ imageUri: img, intro, points, conclusion, script: fullScript, level });
+      setPresentation({
+        imageUri: img, intro, points, conclusion, script: fullScript, level: lessonLevel, theme: themeText, taskType, focus,
+        unitLesson: unitLesson && { unitId: unitLesson.unit.id, themeId: unitLesson.theme.id }
+      });
       setStatus(AppStatus.READY);
+      prewarmTeacherVoice(fullScript);
+      prefetchWordMeanings(fullScript)
+        .catch(err => console.warn('[Dictionary] Prefetch failed:', err));
     } catch (err) {
-      handleError(err, handleGenerate);
+      handleError(err, () => generateLesson(themeText, lessonLevel, unitLesson));
     }
   };
 
+  const startUnitLesson = (unit: CurriculumUnit, theme: Theme) => {
+    reset();
+    setSelectedTheme(theme);
+    generateLesson(theme.label, unit.level, { unit, theme });
+  };
+
   const playTeacherVoice = async () => {
     if (!presentation || isAudioLoading) return;
-    if (audioState === 'paused' && audioContextRef.current) {
+    if (audioState === 'paused' && utteranceRef.current) {
+      window.speechSynthesis.resume();
+      setAudioState('playing');
+      return;
+    }
+    if (audioState === 'paused' && audioBufferRef.current) {
       startAudioAt(audioPausedAtRef.current);
       setAudioState('playing');
       return;
     }
     if (audioState === 'playing') {
-      if (sourceNodeRef.current) {
-        sourceNodeRef.current.stop();
-        audioPausedAtRef.current = audioContextRef.current!.currentTime - audioStartTimeRef.current;
+      if (utteranceRef.current) {
+        window.speechSynthesis.pause();
+        setAudioState('paused');
+      } else if (playbackRef.current) {
+        playbackRef.current.stop();
+        audioPausedAtRef.current = getAudioContext().currentTime - audioStartTimeRef.current;
         setAudioState('paused');
       }
       return;
     }
     try {
       setIsAudioLoading(true);
-      if (!audioContextRef.current) audioContextRef.current = new AudioContext({ sampleRate: 24000 });
       const buffer = await generateTeacherVoice(presentation.script);
       audioBufferRef.current = buffer;
+      wordTimingsRef.current = getBufferWordTimings(presentation.script, buffer);
       startAudioAt(0);
       setAudioState('playing');
     } catch (err: any) {
       // If TTS fails, use Web Speech API fallback
       if (err?.message === 'TTS_FALLBACK_TO_WEB_SPEECH') {
-        const utterance = new SpeechSynthesisUtterance(presentation.script);
-        utterance.lang = 'en-US';
-        utterance.rate = speechRate;
-        utterance.onend = () => setAudioState('idle');
-        window.speechSynthesis.speak(utterance);
-        setAudioState('playing');
+        audioBufferRef.current = null;
+        speakScriptFrom(0);
       } else {
         handleError(err, playTeacherVoice);
       }
@@ -174,99 +321,199 @@ const App: React.FC = () => {
     }
   };
 
+  // Web Speech fallback: read the script from a word on, following its word boundary events
+  const speakScriptFrom = (wordIndex: number) => {
+    if (!presentation) return;
+    const offsets = getWordCharOffsets(presentation.script);
+    const startChar = offsets[wordIndex] ?? 0;
+
+    utteranceRef.current = null;
+    window.speechSynthesis.cancel();
+    const utterance = createUtterance(presentation.script.slice(startChar), speechRate, accent);
+    utterance.onboundary = (e) => {
+      if (e.name === 'word') setActiveWordIndex(wordIndexAtChar(offsets, startChar + e.charIndex));
+    };
+    utterance.onend = () => {
+      if (utteranceRef.current !== utterance) return;
+      utteranceRef.current = null;
+      setAudioState('idle');
+      setActiveWordIndex(null);
+    };
+    utteranceRef.current = utterance;
+    window.speechSynthesis.speak(utterance);
+    setAudioState('playing');
+    setActiveWordIndex(wordIndex);
+  };
+
+  // Click-a-word-to-seek while the teacher voice is playing or paused
+  const seekToWord = (wordIndex: number) => {
+    if (utteranceRef.current) {
+      speakScriptFrom(wordIndex);
+      return;
+    }
+    const timing = wordTimingsRef.current[wordIndex];
+    if (!timing || !audioBufferRef.current) return;
+    if (audioState === 'playing') {
+      startAudioAt(timing.start);
+    } else {
+      audioPausedAtRef.current = timing.start;
+    }
+    setActiveWordIndex(wordIndex);
+  };
+
+  // Apply the learner's voice to all speech; audio made with the old voice no longer fits
+  useEffect(() => {
+    setVoiceSettings({ voice, accent, rate: speechRate });
+    stopAudio();
+    audioBufferRef.current = null;
+  }, [voice, accent, speechRate]);
+
+  // Follow the buffer playback position to move the highlight
+  useEffect(() => {
+    if (audioState !== 'playing' || utteranceRef.current || !audioBufferRef.current) return;
+    let frame = 0;
+    const tick = () => {
+      const position = getAudioContext().currentTime - audioStartTimeRef.current;
+      setActiveWordIndex(findWordAt(wordTimingsRef.current, position));
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [audioState]);
+
+  const getKaraokeClassName = (index: number) =>
+    index === activeWordIndex ? 'bg-yellow-200 text-slate-900' : '';
+  const karaokeSeek = audioState !== 'idle' ? seekToWord : undefined;
+  const getScriptWordClassName = followAlong
+    ? (index: number) => getFollowAlongClassName(followAlong, index)
+    : getKaraokeClassName;
+  const sectionOffsets = presentation ? getSectionWordOffsets(presentation.intro, presentation.points) : null;
+
   const startAudioAt = (offset: number) => {
-    if (!audioContextRef.current || !audioBufferRef.current) return;
-    if (sourceNodeRef.current) sourceNodeRef.current.stop();
-    const source = audioContextRef.current.createBufferSource();
-    source.buffer = audioBufferRef.current;
-    source.connect(audioContextRef.current.destination);
-    source.onended = () => {
+    if (!audioBufferRef.current) return;
+    playbackRef.current?.stop();
+    const playback = playBuffer(audioBufferRef.current, offset);
+    playback.ended.then(() => {
       const duration = audioBufferRef.current?.duration || 0;
-      const currentPos = audioContextRef.current!.currentTime - audioStartTimeRef.current;
+      const currentPos = getAudioContext().currentTime - audioStartTimeRef.current;
       if (currentPos >= duration - 0.1) {
         setAudioState('idle');
+        setActiveWordIndex(null);
         audioPausedAtRef.current = 0;
       }
-    };
-    source.start(0, offset);
-    audioStartTimeRef.current = audioContextRef.current.currentTime - offset;
-    sourceNodeRef.current = source;
+    });
+    audioStartTimeRef.current = playback.startedAt;
+    playbackRef.current = playback;
   };
 
   const stopAudio = () => {
-    if (sourceNodeRef.current) {
-      sourceNodeRef.current.stop();
-      sourceNodeRef.current = null;
+    if (playbackRef.current) {
+      playbackRef.current.stop();
+      playbackRef.current = null;
+    }
+    if (utteranceRef.current) {
+      utteranceRef.current = null;
+      window.speechSynthesis.cancel();
     }
+    setActiveWordIndex(null);
     setAudioState('idle');
     audioPausedAtRef.current = 0;
   };
 
   const startRecording = async () => {
     setTranscript('');
+    setTranscriptEngine(null);
     setRecordedBlob(null);
     setRecordingTime(0);
     audioChunksRef.current = [];
     stopAudio();
 
+    // Stop or reset may land while the microphone, capture or live session is still starting
+    const isCancelled = recordingAttempt.begin();
+    let stream: MediaStream | null = null;
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      if (isCancelled()) {
+        stream.getTracks().forEach(track => track.stop());
+        return;
+      }
       setStatus(AppStatus.RECORDING);
 
-      const mimeType = MediaRecorder.isTypeSupported('audio/webm') ? 'audio/webm' : 'audio/mp4';
-      const mediaRecorder = new MediaRecorder(stream, { mimeType });
+      const mediaRecorder = new MediaRecorder(stream, getRecorderOptions());
       mediaRecorder.ondataavailable = (e) => {
         if (e.data.size > 0) audioChunksRef.current.push(e.data);
       };
       mediaRecorder.onstop = () => {
-        const blob = new Blob(audioChunksRef.current, { type: mimeType });
+        const blob = new Blob(audioChunksRef.current, { type: mediaRecorder.mimeType });
         setRecordedBlob(blob);
       };
       mediaRecorderRef.current = mediaRecorder;
-      mediaRecorder.start();
+      // Timeslices let the saved copy be capped at a chunk boundary
+      mediaRecorder.start(RECORDING_TIMESLICE_MS);
 
       timerIntervalRef.current = window.setInterval(() => {
         setRecordingTime(prev => prev + 1);
       }, 1000);
 
-      const ai = new GoogleGenAI({ apiKey });
-      const sessionPromise = ai.live.connect({
-        model: 'gemini-2.5-flash-native-audio-preview-12-2025',
-        callbacks: {
-          onopen: () => {
-            const ctx = new AudioContext({ sampleRate: 16000 });
-            const source = ctx.createMediaStreamSource(stream);
-            const processor = ctx.createScriptProcessor(4096, 1, 1);
-            processor.onaudioprocess = (e) => {
-              const input = e.inputBuffer.getChannelData(0);
-              const int16 = new Int16Array(input.length);
-              for (let i = 0; i < input.length; i++) int16[i] = input[i] * 32768;
-              sessionPromise.then((session) => {
-                session.sendRealtimeInput({ media: { data: encode(new Uint8Array(int16.buffer)), mimeType: 'audio/pcm;rate=16000' } });
-              });
-            };
-            source.connect(processor);
-            processor.connect(ctx.destination);
-          },
-          onmessage: (msg: LiveServerMessage) => {
-            if (msg.serverContent?.inputTranscription) {
-              setTranscript(prev => prev + msg.serverContent.inputTranscription.text + ' ');
-            }
-          }
+      // Without capture the recorder still runs; the transcript then comes
+      // from the recording once the child stops
+      let capture: AudioCapture;
+      try {
+        capture = await startAudioCapture(stream);
+      } catch (err) {
+        console.warn('[Recording] Audio capture failed, recording without level meter or live transcript:', err);
+        return;
+      }
+      if (isCancelled()) {
+        capture.stop();
+        return;
+      }
+      captureRef.current = capture;
+
+      const liveSession = await startTranscription({
+        expectedText: presentation?.script,
+        onText: (text) => setTranscript(prev => prev + text),
+        onEngineChange: (engine) => setTranscriptEngine(engine?.label || null)
+      });
+      if (isCancelled()) {
+        liveSession.close();
+        return;
+      }
+      liveSessionRef.current = liveSession;
+      captureRef.current?.subscribe(pcm => liveSessionRef.current?.sendAudio(pcm));
+
+      const autoStopSeconds = activeProfile.preferences.autoStopSilenceSeconds;
+      const script = presentation?.script || '';
+      const freeSpeech = presentation?.taskType === 'picture';
+      const analyzer = createAudioAnalyzer({
+        silenceMs: autoStopSeconds > 0 ? autoStopSeconds * 1000 : undefined,
+        onLevel: (l) => setMicLevel(l.level),
+        onMicSilent: () => setMicWarning('silent'),
+        onVoice: () => setMicWarning(prev => prev === 'silent' ? null : prev),
+        onClipping: () => {
+          setMicWarning('clipping');
+          if (clipWarningTimerRef.current) clearTimeout(clipWarningTimerRef.current);
+          clipWarningTimerRef.current = window.setTimeout(() => setMicWarning(prev => prev === 'clipping' ? null : prev), 2000);
         },
-        config: {
-          responseModalities: [Modality.AUDIO],
-          inputAudioTranscription: {},
-          systemInstruction: 'You are an English speech-to-text engine. Transcribe exactly what you hear. Do not respond.'
+        // Auto-stop only once the child has read (nearly) to the end of the script
+        onSilence: () => {
+          if (autoStopSeconds > 0 && (freeSpeech || getReadingProgress(script, transcriptRef.current) >= AUTO_STOP_MIN_PROGRESS)) {
+            stopRecording();
+          }
         }
       });
-      liveSessionRef.current = await sessionPromise;
+      captureRef.current?.subscribe(analyzer.process);
     } catch (err) {
+      stream?.getTracks().forEach(track => track.stop());
+      if (isCancelled()) return;
+      stopCapture();
       handleError(err, startRecording);
     }
   };
 
-  const stopRecording = () => {
+  // Stop the recorder, live transcription and microphone capture
+  const stopCapture = () => {
+    recordingAttempt.cancel();
     if (timerIntervalRef.current) {
       clearInterval(timerIntervalRef.current);
       timerIntervalRef.current = null;
@@ -278,9 +525,26 @@ const App: React.FC = () => {
       liveSessionRef.current.close();
       liveSessionRef.current = null;
     }
+    if (captureRef.current) {
+      captureRef.current.stop();
+      captureRef.current = null;
+    }
+    if (clipWarningTimerRef.current) {
+      clearTimeout(clipWarningTimerRef.current);
+      clipWarningTimerRef.current = null;
+    }
+    setMicLevel(0);
+    setMicWarning(null);
+  };
+
+  const stopRecording = () => {
+    stopCapture();
     setStatus(AppStatus.REVIEWING);
   };
 
+  // Release the microphone if the app unmounts mid-recording
+  useEffect(() => stopCapture, []);
+
   const playRecordedAudio = () => {
     if (!recordedBlob) return;
     if (isReplayingRecorded) {
@@ -300,18 +564,54 @@ const App: React.FC = () => {
   };
 
   const handleSubmitEvaluation = async () => {
-    if (!transcript.trim()) {
-      setStatus(AppStatus.READY);
+    let finalTranscript = transcript;
+    let engineLabel = transcriptEngine;
+    setStatus(AppStatus.EVALUATING);
+
+    // Live transcription failed or heard nothing: transcribe the saved recording instead
+    if (!finalTranscript.trim() && recordedBlob) {
+      const fallback = await transcribeRecording(recordedBlob, presentation?.script);
+      if (fallback) {
+        finalTranscript = fallback.text;
+        engineLabel = fallback.engine.label;
+        setTranscript(finalTranscript);
+        setTranscriptEngine(engineLabel);
+      }
+    }
+    if (!finalTranscript.trim()) {
+      // "Thử lại" goes back to the lesson so the child can record again
+      handleError(
+        new Error('Cô chưa nghe thấy con đọc gì cả.\nCon kiểm tra micro rồi đọc lại nhé!'),
+        async () => setStatus(AppStatus.READY)
+      );
       return;
     }
-    setStatus(AppStatus.EVALUATING);
+
     try {
-      const evaluation = await evaluatePresentation(presentation!.script, transcript, level);
+      const evaluated = presentation!.taskType === 'picture'
+        ? await evaluatePictureDescription(presentation!.imageUri, presentation!.script, finalTranscript, presentation!.level)
+        : await evaluatePresentation(presentation!.script, finalTranscript, presentation!.level, recordingTime);
+      const evaluation = { ...evaluated, transcriptEngine: engineLabel || undefined };
       setResult(evaluation);
 
-      // Save lesson to history
-      const themeText = presentation?.theme || customTheme || selectedTheme?.label || 'Unknown';
-      saveLessonRecord(themeText, level, childName, evaluation, recordingTime);
+      // Save lesson (and a size-capped copy of the recording) to history
+      const recording = recordedBlob
+        ? buildStoredRecording(audioChunksRef.current, recordedBlob.type)
+        : undefined;
+      saveLessonRecord(presentation!, activeProfile, evaluation, recordingTime, recording)
+        .catch(err => console.error('[History] Failed to save lesson:', err));
+      const mistakeWords = [...evaluation.mistakes, ...(evaluation.pronunciationErrors || [])].map(m => ({ word: m.word }));
+      addWordsToNotebook(activeProfile.id, mistakeWords, 'mistake')
+        .catch(err => console.error('[Notebook] Failed to save mistake words:', err));
+
+      const unitLesson = presentation!.unitLesson;
+      const unit = unitLesson && units.find(u => u.id === unitLesson.unitId);
+      if (unitLesson && unit) {
+        recordUnitScore(activeProfile.id, unit.id, unitLesson.themeId, evaluation.score);
+        setUnitOutcome({ unit, passed: evaluation.score >= unit.passScore, progress: getUnitProgress(unit, activeProfile.id) });
+      } else {
+        setUnitOutcome(null);
+      }
 
       setStatus(AppStatus.RESULT);
     } catch (err) {
@@ -319,6 +619,14 @@ const App: React.FC = () => {
     }
   };
 
+  // Words the child taps are saved to their notebook for later review
+  const lookUpWord = async (word: string) => {
+    const meaning = await getWordMeaning(word);
+    addWordsToNotebook(activeProfile.id, [{ word, meaning }], 'lookup')
+      .catch(err => console.error('[Notebook] Failed to save word:', err));
+    return meaning;
+  };
+
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
     const secs = seconds % 60;
@@ -331,13 +639,33 @@ const App: React.FC = () => {
     setPresentation(null);
     setResult(null);
     setTranscript('');
+    setTranscriptEngine(null);
     setRecordedBlob(null);
     setRecordingTime(0);
     setErrorMessage(null);
     setLastAction(null);
     setStatus(AppStatus.IDLE);
     stopAudio();
-    if (timerIntervalRef.current) clearInterval(timerIntervalRef.current);
+    // Drop an in-progress recording instead of keeping it
+    if (mediaRecorderRef.current) mediaRecorderRef.current.onstop = null;
+    stopCapture();
+  };
+
+  // Re-open a lesson from history to practise the same script again
+  const handlePractiseAgain = async (lesson: LessonRecord) => {
+    if (!lesson.presentation) return;
+    const payload = await getLessonPayload(lesson.id).catch(() => undefined);
+    stopAudio();
+    audioBufferRef.current = null;
+    setResult(null);
+    setTranscript('');
+    setTranscriptEngine(null);
+    setRecordedBlob(null);
+    setRecordingTime(0);
+    setErrorMessage(null);
+    setPresentation({ ...lesson.presentation, imageUri: payload?.imageUri || '' });
+    setShowHistory(false);
+    setStatus(AppStatus.READY);
   };
 
   const handleRetry = async () => {
@@ -364,12 +692,19 @@ const App: React.FC = () => {
           </div>
           <div className="flex items-center gap-6">
             <div className="hidden md:flex items-center gap-3 bg-slate-50 px-4 py-2 rounded-full border border-slate-100">
-              <input type="text" value={childName} onChange={e => setChildName(e.target.value)} className="bg-transparent border-none outline-none font-bold text-slate-700 w-24 text-center" placeholder="Name" />
+              <ProfileSwitcher
+                profiles={profiles}
+                activeProfile={activeProfile}
+                onSelect={handleSelectProfile}
+                onCreate={handleCreateProfile}
+                onRename={handleRenameProfile}
+              />
               <div className="w-px h-4 bg-slate-200" />
               <select value={level} onChange={e => setLevel(e.target.value as CEFRLevel)} className="bg-transparent font-bold text-blue-600 outline-none cursor-pointer text-sm">
                 {CEFR_LEVELS.map(l => <option key={l} value={l}>{l}</option>)}
               </select>
             </div>
+            <ModelUsageBadge />
             {/* History Button */}
             <button
               onClick={() => setShowHistory(true)}
@@ -378,15 +713,40 @@ const App: React.FC = () => {
             >
               <History size={18} />
             </button>
+            {/* Word Notebook Button */}
+            <button
+              onClick={() => setShowNotebook(true)}
+              className="flex items-center gap-2 px-3 py-2 rounded-xl text-slate-400 hover:text-amber-600 hover:bg-amber-50 transition-all"
+              title="Sổ từ của con"
+            >
+              <NotebookPen size={18} />
+            </button>
+            {/* Curriculum Button */}
+            <button
+              onClick={() => setShowCurriculumEditor(true)}
+              className="flex items-center gap-2 px-3 py-2 rounded-xl text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 transition-all"
+              title="Lộ trình học"
+            >
+              <Route size={18} />
+            </button>
+            {/* Rubric Button */}
+            <button
+              onClick={() => setShowRubricEditor(true)}
+              className="flex items-center gap-2 px-3 py-2 rounded-xl text-slate-400 hover:text-teal-600 hover:bg-teal-50 transition-all"
+              title="Thang điểm"
+            >
+              <SlidersHorizontal size={18} />
+            </button>
             {/* Settings Button - Always visible */}
             <button
               onClick={() => setShowApiModal(true)}
-              className={`flex items-center gap-2 px-3 py-2 rounded-xl transition-all ${apiKey ? 'text-slate-400 hover:text-blue-600 hover:bg-blue-50' : 'bg-red-50 text-red-500 animate-pulse'
+              className={`flex items-center gap-2 px-3 py-2 rounded-xl transition-all ${!needsApiKey ? 'text-slate-400 hover:text-blue-600 hover:bg-blue-50' : 'bg-red-50 text-red-500 animate-pulse'
                 }`}
               title="Cài đặt API Key"
             >
               <Key size={18} />
-              {!apiKey && <span className="text-xs font-bold hidden sm:inline">Lấy API key để sử dụng app</span>}
+              {needsApiKey && <span className="text-xs font-bold hidden sm:inline">Lấy API key để sử dụng app</span>}
+              {providerId === 'mock' && <span className="text-xs font-bold hidden sm:inline text-amber-500">Demo</span>}
             </button>
             {presentation && (
               <button onClick={reset} className="p-2 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded-xl transition-all">
@@ -403,11 +763,31 @@ const App: React.FC = () => {
             <div className="text-center max-w-4xl mx-auto space-y-6">
               <h2 className="text-5xl font-black text-slate-900 leading-tight">Luyện nói tiếng Anh chuẩn cùng Ms Ly AI</h2>
               <p className="text-slate-500 text-lg font-medium">Chọn một chủ đề để bắt đầu thuyết trình!</p>
+              <div className="inline-flex bg-white p-1.5 rounded-2xl border-2 border-slate-100 shadow-sm">
+                {([
+                  { id: 'reading', label: 'Đọc bài thuyết trình', icon: <BookOpen size={18} /> },
+                  { id: 'picture', label: 'Tả tranh (nói tự do)', icon: <ImageIcon size={18} /> }
+                ] as { id: TaskType; label: string; icon: React.ReactNode }[]).map(option => (
+                  <button
+                    key={option.id}
+                    onClick={() => setTaskType(option.id)}
+                    className={`flex items-center gap-2 px-5 py-2.5 rounded-xl font-bold text-sm transition-all ${taskType === option.id ? 'bg-blue-600 text-white shadow-md' : 'text-slate-500 hover:bg-slate-50'}`}
+                  >
+                    {option.icon} {option.label}
+                  </button>
+                ))}
+              </div>
               <div className="relative group max-w-2xl mx-auto pt-4">
                 <input type="text" placeholder="Hoặc nhập chủ đề bé muốn (vd: My Superpowers)..." className="w-full px-8 py-5 rounded-2xl border-2 border-slate-100 focus:border-blue-400 outline-none shadow-xl shadow-slate-200/50 text-xl transition-all pr-16 bg-white font-bold" value={customTheme} onChange={(e) => { setCustomTheme(e.target.value); setSelectedTheme(null); }} />
                 <div className="absolute right-4 top-[calc(50%+8px)] -translate-y-1/2 text-slate-300"><Wand2 size={24} /></div>
               </div>
             </div>
+            <CurriculumPath
+              units={units}
+              profileId={activeProfile.id}
+              onStartLesson={startUnitLesson}
+              onEdit={() => setShowCurriculumEditor(true)}
+            />
             <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-6">
               {PREDEFINED_THEMES.map((t) => <ThemeCard key={t.id} theme={t} isSelected={selectedTheme?.id === t.id} onClick={(theme) => { setSelectedTheme(theme); setCustomTheme(''); }} />)}
             </div>
@@ -415,6 +795,11 @@ const App: React.FC = () => {
               <button disabled={!selectedTheme && !customTheme} onClick={handleGenerate} className="group flex items-center gap-4 px-12 py-5 rounded-2xl font-black text-xl shadow-xl shadow-blue-200 transition-all hover:scale-105 active:scale-95 bg-blue-600 text-white disabled:opacity-20">
                 Tạo bài học mới <ArrowRight size={24} className="group-hover:translate-x-2 transition-transform" />
               </button>
+              {(YLE_LEVELS as CEFRLevel[]).includes(level) && (
+                <button disabled={!selectedTheme && !customTheme} onClick={() => setShowYleExam(true)} className="mt-4 flex items-center gap-2 px-8 py-3 rounded-2xl font-bold text-emerald-700 bg-emerald-50 border-2 border-emerald-100 hover:bg-emerald-100 transition-all disabled:opacity-30">
+                  <GraduationCap size={20} /> Thi thử Nói {level}
+                </button>
+              )}
             </div>
           </div>
         )}
@@ -459,63 +844,72 @@ const App: React.FC = () => {
         {(status === AppStatus.READY || status === AppStatus.RECORDING || status === AppStatus.REVIEWING) && presentation && (
           <div className="animate-in fade-in slide-in-from-bottom-5 duration-500 pb-20">
             <div className="max-w-6xl mx-auto bg-white rounded-[2.5rem] shadow-2xl border-2 border-slate-100 overflow-hidden flex flex-col lg:flex-row relative">
-              <div className={`lg:w-1/2 p-6 flex flex-col gap-6 transition-all duration-500 ${status === AppStatus.RECORDING ? 'opacity-30 scale-95 grayscale' : ''}`}>
-                <div className="bg-slate-50 rounded-[2rem] p-2 border-2 border-slate-100 overflow-hidden shadow-inner">
-                  <img src={presentation.imageUri} className="w-full h-auto rounded-[1.5rem]" alt="Illustration" />
-                </div>
-                <div className="bg-blue-50/50 border-2 border-blue-100 rounded-3xl p-5 flex items-center justify-between">
-                  <div className="flex items-center gap-4">
-                    <button onClick={playTeacherVoice} disabled={isAudioLoading} className="w-12 h-12 bg-blue-600 text-white rounded-2xl flex items-center justify-center shadow-lg hover:scale-105 active:scale-95 transition-all">
-                      {isAudioLoading ? <div className="w-5 h-5 border-3 border-white border-t-transparent animate-spin rounded-full"></div> : audioState === 'playing' ? <Pause size={24} /> : <Play size={24} className="ml-1" />}
-                    </button>
-                    <div>
-                      <p className="text-xs font-black text-blue-600 uppercase">Mẫu từ Ms Ly</p>
-                      <p className="text-sm font-bold text-slate-500">{audioState === 'playing' ? 'Đang đọc...' : 'Nghe để luyện'}</p>
-                    </div>
+              <div className={`lg:w-1/2 p-6 flex flex-col gap-6 transition-all duration-500 ${status === AppStatus.RECORDING && !isPictureTask ? 'opacity-30 scale-95 grayscale' : ''}`}>
+                {presentation.imageUri && (
+                  <div className="bg-slate-50 rounded-[2rem] p-2 border-2 border-slate-100 overflow-hidden shadow-inner">
+                    <img src={presentation.imageUri} className="w-full h-auto rounded-[1.5rem]" alt="Illustration" />
                   </div>
-                  {audioState !== 'idle' && <button onClick={stopAudio} className="p-2 text-slate-400 hover:text-red-500 transition-colors"><StopCircle size={24} /></button>}
-                </div>
-
-                {/* Speed Control and Download */}
-                <div className="flex flex-col sm:flex-row gap-4">
-                  {/* Speed Slider */}
-                  <div className="flex-1 bg-purple-50/50 border-2 border-purple-100 rounded-2xl p-4">
-                    <div className="flex items-center justify-between mb-2">
-                      <span className="text-xs font-bold text-purple-600 uppercase">Tốc độ đọc</span>
-                      <span className="text-sm font-black text-purple-700">{speechRate.toFixed(1)}x</span>
+                )}
+                {!isPictureTask && (
+                  <>
+                    <div className="bg-blue-50/50 border-2 border-blue-100 rounded-3xl p-5 flex items-center justify-between">
+                      <div className="flex items-center gap-4">
+                        <button onClick={playTeacherVoice} disabled={isAudioLoading} className="w-12 h-12 bg-blue-600 text-white rounded-2xl flex items-center justify-center shadow-lg hover:scale-105 active:scale-95 transition-all">
+                          {isAudioLoading ? <div className="w-5 h-5 border-3 border-white border-t-transparent animate-spin rounded-full"></div> : audioState === 'playing' ? <Pause size={24} /> : <Play size={24} className="ml-1" />}
+                        </button>
+                        <div>
+                          <p className="text-xs font-black text-blue-600 uppercase">Mẫu từ Ms Ly</p>
+                          <p className="text-sm font-bold text-slate-500">{audioState === 'playing' ? 'Đang đọc...' : 'Nghe để luyện'}</p>
+                        </div>
+                      </div>
+                      {audioState !== 'idle' && <button onClick={stopAudio} className="p-2 text-slate-400 hover:text-red-500 transition-colors"><StopCircle size={24} /></button>}
                     </div>
-                    <div className="flex items-center gap-3">
-                      <span className="text-xs text-purple-400">🐢 Chậm</span>
-                      <input
-                        type="range"
-                        min="0.5"
-                        max="1.5"
-                        step="0.1"
-                        value={speechRate}
-                        onChange={(e) => setSpeechRate(parseFloat(e.target.value))}
-                        className="speed-slider flex-1"
+
+                    {/* Speed Control and Download */}
+                    <div className="flex flex-col sm:flex-row gap-4">
+                      {/* Voice, accent and speed */}
+                      <VoiceSettingsPanel
+                        preferences={activeProfile.preferences}
+                        onChange={(preferences) => applyProfileChanges({ preferences })}
                       />
-                      <span className="text-xs text-purple-400">Nhanh 🐇</span>
+
+                      {/* Download Button */}
+                      <button
+                        onClick={() => {
+                          const content = `📖 ${customTheme || selectedTheme?.label || 'Presentation'}\n\n🎯 Level: ${level}\n\n📝 Script:\n${presentation?.script || ''}\n\n👶 Student: ${childName}`;
+                          const blob = new Blob([content], { type: 'text/plain' });
+                          const url = URL.createObjectURL(blob);
+                          const a = document.createElement('a');
+                          a.href = url;
+                          a.download = `speakpro_${Date.now()}.txt`;
+                          a.click();
+                          URL.revokeObjectURL(url);
+                        }}
+                        className="flex items-center justify-center gap-2 px-6 py-3 bg-gradient-to-r from-emerald-500 to-teal-500 text-white font-bold rounded-2xl shadow-lg hover:scale-105 active:scale-95 transition-all"
+                      >
+                        <Download size={18} /> Tải bài
+                      </button>
                     </div>
-                  </div>
 
-                  {/* Download Button */}
+                    {status === AppStatus.READY && (
+                      <button
+                        onClick={() => { stopAudio(); setShowShadowing(true); }}
+                        className="flex items-center justify-center gap-2 px-6 py-4 bg-orange-50 border-2 border-orange-100 text-orange-600 font-black rounded-2xl hover:bg-orange-100 transition-all"
+                      >
+                        <Repeat size={20} /> Luyện nhắc lại từng câu
+                      </button>
+                    )}
+                  </>
+                )}
+
+                {status === AppStatus.READY && (
                   <button
-                    onClick={() => {
-                      const content = `📖 ${customTheme || selectedTheme?.label || 'Presentation'}\n\n🎯 Level: ${level}\n\n📝 Script:\n${presentation?.script || ''}\n\n👶 Student: ${childName}`;
-                      const blob = new Blob([content], { type: 'text/plain' });
-                      const url = URL.createObjectURL(blob);
-                      const a = document.createElement('a');
-                      a.href = url;
-                      a.download = `speakpro_${Date.now()}.txt`;
-                      a.click();
-                      URL.revokeObjectURL(url);
-                    }}
-                    className="flex items-center justify-center gap-2 px-6 py-3 bg-gradient-to-r from-emerald-500 to-teal-500 text-white font-bold rounded-2xl shadow-lg hover:scale-105 active:scale-95 transition-all"
+                    onClick={() => { stopAudio(); setShowInterview(true); }}
+                    className="flex items-center justify-center gap-2 px-6 py-4 bg-sky-50 border-2 border-sky-100 text-sky-600 font-black rounded-2xl hover:bg-sky-100 transition-all"
                   >
-                    <Download size={18} /> Tải bài
+                    <MessagesSquare size={20} /> Trò chuyện với cô Ly
                   </button>
-                </div>
+                )}
               </div>
 
               <div className={`lg:w-1/2 p-10 lg:p-14 bg-[#fffdfa] relative flex flex-col transition-all duration-300 ${status === AppStatus.RECORDING ? 'bg-red-50/10' : ''}`}>
@@ -523,69 +917,83 @@ const App: React.FC = () => {
                 <div className="relative z-10 flex flex-col h-full">
                   <div className="flex items-center justify-between mb-8 border-b-2 border-dashed border-slate-200 pb-6">
                     <div className="flex items-center gap-4">
-                      <div className="w-14 h-14 bg-white rounded-full p-0.5 shadow-md border-2 border-blue-400 overflow-hidden"><img src={`https://api.dicebear.com/7.x/adventurer/svg?seed=${childName}`} alt="avatar" /></div>
+                      <div className="w-14 h-14 bg-white rounded-full p-0.5 shadow-md border-2 border-blue-400 overflow-hidden"><img src={getAvatarUrl(activeProfile)} alt="avatar" /></div>
                       <div>
                         <h3 className="text-2xl font-black text-slate-800">Hello, I'm {childName}!</h3>
                         <p className="text-xs font-bold text-blue-500 uppercase tracking-widest">{presentation.level} Level</p>
                       </div>
                     </div>
                   </div>
-                  <div className="flex-1 space-y-8">
-                    <div>
-                      <h4 className="text-blue-600 font-black text-lg mb-2 flex items-center gap-2">
-                        <span className="w-2 h-2 rounded-full bg-blue-500"></span> Introduction
-                      </h4>
-                      <p className="text-2xl font-bold text-slate-800 leading-snug pl-4 italic">
-                        "<InteractiveText
-                          text={presentation.intro}
-                          onGetMeaning={getWordMeaning}
-                          onSpeak={speakWord}
-                        />"
-                      </p>
-                    </div>
-                    <div>
-                      <h4 className="text-green-600 font-black text-lg mb-4 flex items-center gap-2">
-                        <span className="w-2 h-2 rounded-full bg-green-500"></span> Description
-                      </h4>
-                      <ul className="space-y-4 pl-4">
-                        {presentation.points.map((p, i) => (
-                          <li key={i} className="flex items-start gap-4 group">
-                            <span className="w-3 h-3 rounded-full mt-2.5 shrink-0 bg-blue-400"></span>
-                            <span className="text-2xl font-bold text-slate-700 leading-snug">
-                              <InteractiveText
-                                text={p}
-                                onGetMeaning={getWordMeaning}
-                                onSpeak={speakWord}
-                              />
-                            </span>
-                          </li>
-                        ))}
-                      </ul>
-                    </div>
-                    <div>
-                      <h4 className="text-pink-600 font-black text-lg mb-2 flex items-center gap-2">
-                        <span className="w-2 h-2 rounded-full bg-pink-500"></span> Conclusion
-                      </h4>
-                      <p className="text-2xl font-bold text-slate-800 leading-snug pl-4 italic">
-                        "<InteractiveText
-                          text={presentation.conclusion}
-                          onGetMeaning={getWordMeaning}
-                          onSpeak={speakWord}
-                        />"
-                      </p>
+                  {isPictureTask ? (
+                    <PictureTaskPrompt level={presentation.level} />
+                  ) : (
+                    <div className="flex-1 space-y-8">
+                      <div>
+                        <h4 className="text-blue-600 font-black text-lg mb-2 flex items-center gap-2">
+                          <span className="w-2 h-2 rounded-full bg-blue-500"></span> Introduction
+                        </h4>
+                        <p className="text-2xl font-bold text-slate-800 leading-snug pl-4 italic">
+                          "<InteractiveText
+                            text={presentation.intro}
+                            onGetMeaning={lookUpWord}
+                            onSpeak={speakWord}
+                            getWordClassName={getScriptWordClassName}
+                            onWordSelect={karaokeSeek}
+                          />"
+                        </p>
+                      </div>
+                      <div>
+                        <h4 className="text-green-600 font-black text-lg mb-4 flex items-center gap-2">
+                          <span className="w-2 h-2 rounded-full bg-green-500"></span> Description
+                        </h4>
+                        <ul className="space-y-4 pl-4">
+                          {presentation.points.map((p, i) => (
+                            <li key={i} className="flex items-start gap-4 group">
+                              <span className="w-3 h-3 rounded-full mt-2.5 shrink-0 bg-blue-400"></span>
+                              <span className="text-2xl font-bold text-slate-700 leading-snug">
+                                <InteractiveText
+                                  text={p}
+                                  onGetMeaning={lookUpWord}
+                                  onSpeak={speakWord}
+                                  wordOffset={sectionOffsets?.points[i]}
+                                  getWordClassName={getScriptWordClassName}
+                                  onWordSelect={karaokeSeek}
+                                />
+                              </span>
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                      <div>
+                        <h4 className="text-pink-600 font-black text-lg mb-2 flex items-center gap-2">
+                          <span className="w-2 h-2 rounded-full bg-pink-500"></span> Conclusion
+                        </h4>
+                        <p className="text-2xl font-bold text-slate-800 leading-snug pl-4 italic">
+                          "<InteractiveText
+                            text={presentation.conclusion}
+                            onGetMeaning={lookUpWord}
+                            onSpeak={speakWord}
+                            wordOffset={sectionOffsets?.conclusion}
+                            getWordClassName={getScriptWordClassName}
+                            onWordSelect={karaokeSeek}
+                          />"
+                        </p>
+                      </div>
                     </div>
-                  </div>
+                  )}
                 </div>
               </div>
             </div>
 
             {/* Comprehension Quiz */}
-            <ComprehensionQuiz
-              imageUri={presentation.imageUri}
-              script={presentation.script}
-              level={level}
-              theme={presentation?.theme || customTheme || selectedTheme?.label || ''}
-            />
+            {!isPictureTask && (
+              <ComprehensionQuiz
+                imageUri={presentation.imageUri}
+                script={presentation.script}
+                level={level}
+                theme={presentation?.theme || customTheme || selectedTheme?.label || ''}
+              />
+            )}
 
             <div className="fixed bottom-10 left-1/2 -translate-x-1/2 z-[100] w-full max-w-2xl px-6">
               {status === AppStatus.READY && (
@@ -594,13 +1002,31 @@ const App: React.FC = () => {
                   Bắt đầu nói
                 </button>
               )}
+              {status === AppStatus.READY && (
+                <div className="mt-3 flex items-center justify-center gap-2 text-xs font-bold text-slate-400">
+                  <span>Tự dừng khi con đọc xong và im lặng</span>
+                  <select
+                    value={activeProfile.preferences.autoStopSilenceSeconds}
+                    onChange={e => setAutoStopSilence(parseInt(e.target.value, 10))}
+                    className="bg-white/90 border border-slate-200 rounded-lg px-2 py-1 text-slate-600 outline-none"
+                  >
+                    <option value={0}>Tắt</option>
+                    {[2, 3, 5, 8].map(s => <option key={s} value={s}>{s} giây</option>)}
+                  </select>
+                </div>
+              )}
               {status === AppStatus.RECORDING && (
                 <div className="flex flex-col gap-4">
                   <div className="bg-white/95 backdrop-blur-md border-2 border-red-100 p-5 rounded-3xl shadow-2xl flex items-center justify-between animate-in slide-in-from-bottom-5">
                     <div className="flex items-center gap-4">
                       <div className="w-4 h-4 bg-red-500 rounded-full animate-pulse shadow-[0_0_10px_rgba(239,68,68,0.5)]"></div>
-                      <p className="text-lg font-black text-slate-800 uppercase tracking-tight">Đang thu âm...</p>
+                      <div>
+                        <p className="text-lg font-black text-slate-800 uppercase tracking-tight">Đang thu âm...</p>
+                        <p className="text-[10px] font-bold text-slate-400">{transcriptEngine ? `Nhận dạng: ${transcriptEngine}` : 'Sẽ nhận dạng từ bản thu'}</p>
+                        {followAlong && <FollowAlongStatus state={followAlong} />}
+                      </div>
                     </div>
+                    <MicLevelMeter level={micLevel} warning={micWarning} />
                     <div className="flex items-center gap-2 bg-slate-50 px-4 py-2 rounded-2xl border border-slate-100 font-black text-blue-600">
                       <Clock size={18} />
                       {formatTime(recordingTime)}
@@ -616,6 +1042,7 @@ const App: React.FC = () => {
                   <div className="bg-white/95 backdrop-blur-md border-2 border-blue-50 p-5 rounded-3xl shadow-2xl">
                     <div className="text-center mb-4">
                       <p className="text-xs font-black text-slate-400 uppercase tracking-widest">Bản thu âm của con</p>
+                      <p className="text-[10px] font-bold text-slate-300 mt-1">{transcriptEngine ? `Nhận dạng: ${transcriptEngine}` : 'Sẽ nhận dạng từ bản thu khi chấm điểm'}</p>
                     </div>
                     <div className="grid grid-cols-3 gap-4">
                       <button onClick={playRecordedAudio} className={`flex flex-col items-center gap-2 p-5 rounded-2xl transition-all ${isReplayingRecorded ? 'bg-blue-100 text-blue-700' : 'bg-slate-50 hover:bg-slate-100'}`}>
@@ -655,7 +1082,12 @@ const App: React.FC = () => {
           <div className="max-w-5xl mx-auto animate-in zoom-in-95 duration-700 pb-20">
             <div className="bg-white rounded-[3rem] shadow-2xl overflow-hidden border border-slate-100">
               <div className="bg-gradient-to-br from-blue-600 to-indigo-700 p-12 lg:p-16 text-center text-white relative">
-                <div className="absolute top-8 right-8 bg-white/10 px-6 py-2 rounded-full font-black text-xs backdrop-blur-md border border-white/10 uppercase tracking-widest">Level: {result.perceivedLevel}</div>
+                <div className="absolute top-8 right-8 bg-white/10 px-6 py-2 rounded-full font-black text-xs backdrop-blur-md border border-white/10 uppercase tracking-widest">
+                  Level: {result.perceivedLevel}
+                  {result.levelEstimate && result.levelEstimate.low !== result.levelEstimate.high && (
+                    <span className="opacity-70 normal-case"> ({result.levelEstimate.low}–{result.levelEstimate.high})</span>
+                  )}
+                </div>
                 <div className="relative inline-block mb-8">
                   <Trophy size={100} className="mx-auto text-yellow-300 drop-shadow-2xl animate-bounce" />
                   <div className="absolute -bottom-2 -right-2 bg-white text-blue-700 w-16 h-16 rounded-2xl flex flex-col items-center justify-center font-black shadow-xl rotate-6">
@@ -697,7 +1129,24 @@ const App: React.FC = () => {
                       <p className="text-xl font-black text-teal-600">{result.taskFulfillment}</p>
                       <p className="text-[8px] font-bold text-slate-400 uppercase tracking-widest">Task</p>
                     </div>
+                    {result.taskType === 'picture' && (
+                      <>
+                        <div className="p-4 bg-indigo-50 rounded-2xl border border-indigo-100 flex flex-col justify-center">
+                          <p className="text-xl font-black text-indigo-600">{result.relevance ?? 0}</p>
+                          <p className="text-[8px] font-bold text-slate-400 uppercase tracking-widest">Relevance</p>
+                        </div>
+                        <div className="p-4 bg-indigo-50 rounded-2xl border border-indigo-100 flex flex-col justify-center">
+                          <p className="text-xl font-black text-indigo-600">{result.range ?? 0}</p>
+                          <p className="text-[8px] font-bold text-slate-400 uppercase tracking-widest">Range</p>
+                        </div>
+                        <div className="p-4 bg-indigo-50 rounded-2xl border border-indigo-100 flex flex-col justify-center">
+                          <p className="text-xl font-black text-indigo-600">{result.coherence ?? 0}</p>
+                          <p className="text-[8px] font-bold text-slate-400 uppercase tracking-widest">Coherence</p>
+                        </div>
+                      </>
+                    )}
                   </div>
+                  {result.coverage && <ScoreExplanation coverage={result.coverage} notes={result.scoreNotes} />}
                 </div>
                 <div className="space-y-8">
                   <h4 className="text-2xl font-black text-slate-800 flex items-center gap-3"><Sparkles className="text-yellow-500" size={28} /> Gợi ý cải thiện</h4>
@@ -717,9 +1166,81 @@ const App: React.FC = () => {
                         </div>
                       </div>
                     ))}
+                    {result.pronunciationErrors?.map((e, i) => (
+                      <div key={`p-${i}`} className="bg-pink-50/50 border border-pink-100 p-5 rounded-2xl shadow-sm flex items-start gap-4">
+                        <button onClick={() => speakWord(e.word)} className="bg-pink-100 p-2 rounded-xl text-pink-600 shrink-0 hover:bg-pink-200 transition-all" title="Nghe cô đọc">
+                          <Volume2 size={16} />
+                        </button>
+                        <div>
+                          <p className="text-lg font-black text-slate-800">
+                            {e.word}
+                            <span className="ml-2 text-sm font-bold text-pink-500">
+                              /{e.target}/ → {e.produced ? `/${e.produced}/` : 'mất âm'}
+                            </span>
+                          </p>
+                          <p className="text-xs font-black text-pink-400 uppercase tracking-wider">{PRONUNCIATION_CATEGORIES[e.category].label}</p>
+                          <p className="text-sm font-bold text-slate-400">{e.tip}</p>
+                        </div>
+                      </div>
+                    ))}
                   </div>
                 </div>
               </div>
+              {readingAlignment && presentation && (
+                <div className="px-8 lg:px-16 pb-12">
+                  <ReadingDiff
+                    presentation={presentation}
+                    alignment={readingAlignment}
+                    onGetMeaning={lookUpWord}
+                    onSpeak={speakWord}
+                  />
+                  {result.transcriptEngine && (
+                    <p className="text-xs font-bold text-slate-400 mt-4">Nhận dạng giọng nói: {result.transcriptEngine}</p>
+                  )}
+                </div>
+              )}
+              {result.taskType === 'picture' && presentation && (
+                <div className="px-8 lg:px-16 pb-12 grid md:grid-cols-2 gap-6">
+                  <div className="bg-slate-50 p-8 rounded-[2rem] border border-slate-100">
+                    <h4 className="text-lg font-black text-slate-800 mb-3">Con đã nói</h4>
+                    <p className="text-lg font-bold text-slate-600 italic leading-relaxed">"{result.transcript.trim()}"</p>
+                    {result.transcriptEngine && (
+                      <p className="text-xs font-bold text-slate-400 mt-4">Nhận dạng giọng nói: {result.transcriptEngine}</p>
+                    )}
+                  </div>
+                  <div className="bg-indigo-50/50 p-8 rounded-[2rem] border border-indigo-100">
+                    <h4 className="text-lg font-black text-indigo-700 mb-3">Bài mẫu tả tranh của cô Ly</h4>
+                    <p className="text-lg font-bold text-slate-700 leading-relaxed">
+                      <InteractiveText text={presentation.script} onGetMeaning={lookUpWord} onSpeak={speakWord} />
+                    </p>
+                  </div>
+                </div>
+              )}
+              {presentation?.unitLesson && unitOutcome && (
+                <div className="px-8 lg:px-16 pb-12">
+                  <div className={`p-6 rounded-[2rem] border-2 flex flex-col sm:flex-row items-center gap-4 ${unitOutcome.passed ? 'bg-green-50 border-green-100' : 'bg-orange-50 border-orange-100'}`}>
+                    <Route size={28} className={unitOutcome.passed ? 'text-green-500' : 'text-orange-500'} />
+                    <div className="flex-1 text-center sm:text-left">
+                      <p className="text-lg font-black text-slate-800">
+                        {unitOutcome.passed
+                          ? unitOutcome.progress.next ? 'Qua bài rồi! Bài tiếp theo đã mở khóa' : `Hoàn thành học phần "${unitOutcome.unit.name}"!`
+                          : `Cần ${unitOutcome.unit.passScore} điểm để qua bài, con luyện lại nhé`}
+                      </p>
+                      <p className="text-sm font-bold text-slate-400">
+                        {unitOutcome.unit.name} · {unitOutcome.progress.passedCount}/{unitOutcome.progress.lessons.length} bài
+                      </p>
+                    </div>
+                    {unitOutcome.passed && unitOutcome.progress.next && (
+                      <button
+                        onClick={() => startUnitLesson(unitOutcome.unit, unitOutcome.progress.next!)}
+                        className="px-6 py-3 rounded-2xl font-black bg-green-600 text-white hover:bg-green-700 transition-all flex items-center gap-2"
+                      >
+                        {unitOutcome.progress.next.icon} {unitOutcome.progress.next.label} <ArrowRight size={18} />
+                      </button>
+                    )}
+                  </div>
+                </div>
+              )}
               <div className="p-16 pt-0 flex flex-col sm:flex-row justify-center gap-6 flex-wrap">
                 <button onClick={() => setStatus(AppStatus.READY)} className="px-10 py-5 rounded-2xl font-black text-lg text-slate-400 bg-slate-50 hover:bg-slate-100 transition-all flex items-center justify-center gap-3">
                   <RotateCcw size={20} /> Luyện lại
@@ -730,6 +1251,12 @@ const App: React.FC = () => {
                 >
                   <Award size={20} /> Nhận Chứng Nhận
                 </button>
+                <button
+                  onClick={() => setShowInterview(true)}
+                  className="px-10 py-5 rounded-2xl font-black text-lg bg-sky-50 text-sky-600 hover:bg-sky-100 transition-all flex items-center justify-center gap-3"
+                >
+                  <MessagesSquare size={20} /> Trò chuyện với cô Ly
+                </button>
                 <button onClick={reset} className="px-12 py-5 rounded-2xl font-black text-lg bg-blue-600 text-white hover:bg-blue-700 shadow-xl shadow-blue-100 transition-all flex items-center justify-center gap-3">
                   Bài học mới <ArrowRight size={20} />
                 </button>
@@ -749,12 +1276,79 @@ const App: React.FC = () => {
         onSave={handleSaveApiKey}
         initialApiKey={apiKey}
         initialModel={selectedModel}
+        initialProvider={providerId}
       />
 
       {/* History Panel */}
       <HistoryPanel
         isOpen={showHistory}
         onClose={() => setShowHistory(false)}
+        profile={activeProfile}
+        onPractiseAgain={handlePractiseAgain}
+        onStartDrill={() => setShowDrill(true)}
+      />
+
+      {/* Curriculum Editor */}
+      <CurriculumEditor
+        isOpen={showCurriculumEditor}
+        onClose={() => setShowCurriculumEditor(false)}
+        onSaved={() => setUnits(getUnits())}
+        initialLevel={level}
+      />
+
+      {/* Rubric Editor */}
+      <RubricEditor
+        isOpen={showRubricEditor}
+        onClose={() => setShowRubricEditor(false)}
+        initialLevel={level}
+      />
+
+      {/* Shadowing Practice */}
+      {presentation && (
+        <ShadowingPractice
+          isOpen={showShadowing}
+          onClose={() => setShowShadowing(false)}
+          presentation={presentation}
+          profile={activeProfile}
+          speechRate={speechRate}
+        />
+      )}
+
+      {/* Q&A Interview */}
+      {presentation && (
+        <InterviewPractice
+          isOpen={showInterview}
+          onClose={() => setShowInterview(false)}
+          presentation={presentation}
+          profile={activeProfile}
+          speechRate={speechRate}
+        />
+      )}
+
+      {/* YLE Mock Exam */}
+      {(YLE_LEVELS as CEFRLevel[]).includes(level) && (
+        <YleMockExam
+          isOpen={showYleExam}
+          onClose={() => setShowYleExam(false)}
+          theme={customTheme || selectedTheme?.label || ''}
+          level={level as YleLevel}
+          profile={activeProfile}
+          speechRate={speechRate}
+        />
+      )}
+
+      {/* Minimal-pair Drill */}
+      <PronunciationDrill
+        isOpen={showDrill}
+        onClose={() => setShowDrill(false)}
+        profile={activeProfile}
+      />
+
+      {/* Word Notebook */}
+      <WordNotebook
+        isOpen={showNotebook}
+        onClose={() => setShowNotebook(false)}
+        profile={activeProfile}
       />
 
       {/* Certificate */}
@@ -764,7 +1358,7 @@ const App: React.FC = () => {
           onClose={() => setShowCertificate(false)}
           childName={childName}
           theme={presentation?.theme || customTheme || selectedTheme?.label || ''}
-          level={level}
+          level={presentation?.level || level}
           evaluation={result}
         />
       )}
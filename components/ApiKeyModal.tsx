@@ -1,36 +1,17 @@
-import React, { useState, useEffect } from 'react';
-import { Key, ExternalLink, Check, X, Zap, Star, Sparkles } from 'lucide-react';
-
-const AVAILABLE_MODELS = [
-  {
-    id: 'gemini-2.5-flash',
-    name: 'Gemini 2.5 Flash',
-    description: 'Ổn định, quota cao, khuyên dùng',
-    badge: 'Mặc định',
-    color: 'blue'
-  },
-  {
-    id: 'gemini-2.0-flash',
-    name: 'Gemini 2.0 Flash',
-    description: 'Ổn định, dự phòng',
-    badge: 'Dự phòng',
-    color: 'green'
-  },
-  {
-    id: 'gemini-2.5-flash-lite',
-    name: 'Gemini 2.5 Flash Lite',
-    description: 'Nhẹ, tiết kiệm quota',
-    badge: 'Tiết kiệm',
-    color: 'purple'
-  }
-];
+import React, { useState, useEffect, useRef } from 'react';
+import { Key, ExternalLink, Check, X, Zap, Star, Sparkles, Cloud, WifiOff, BookOpen, Download, Upload } from 'lucide-react';
+import { AIProviderId } from '../services/aiProvider';
+import { TEXT_MODELS } from '../services/modelRouter';
+import { getTranscriptionServerUrl, setTranscriptionServerUrl } from '../services/transcriptionService';
+import { countDictionaryEntries, exportDictionary, importDictionary, loadStarterDictionary } from '../services/dictionaryService';
 
 interface ApiKeyModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onSave: (apiKey: string, model: string) => void;
+  onSave: (apiKey: string, model: string, provider: AIProviderId) => void;
   initialApiKey?: string;
   initialModel?: string;
+  initialProvider?: AIProviderId;
 }
 
 const ApiKeyModal: React.FC<ApiKeyModalProps> = ({
@@ -38,26 +19,87 @@ const ApiKeyModal: React.FC<ApiKeyModalProps> = ({
   onClose,
   onSave,
   initialApiKey = '',
-  initialModel = 'gemini-2.5-flash'
+  initialModel = 'gemini-2.5-flash',
+  initialProvider = 'gemini'
 }) => {
   const [apiKey, setApiKey] = useState(initialApiKey);
   const [selectedModel, setSelectedModel] = useState(initialModel);
+  const [provider, setProvider] = useState<AIProviderId>(initialProvider);
   const [showKey, setShowKey] = useState(false);
+  const [serverUrl, setServerUrl] = useState(getTranscriptionServerUrl());
+  const [dictionaryCount, setDictionaryCount] = useState<number | null>(null);
+  const [dictionaryMessage, setDictionaryMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const dictionaryFileRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
     setApiKey(initialApiKey);
     setSelectedModel(initialModel);
-  }, [initialApiKey, initialModel, isOpen]);
+    setProvider(initialProvider);
+    setServerUrl(getTranscriptionServerUrl());
+  }, [initialApiKey, initialModel, initialProvider, isOpen]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setDictionaryMessage(null);
+    refreshDictionaryCount();
+  }, [isOpen]);
+
+  const refreshDictionaryCount = () => {
+    countDictionaryEntries()
+      .then(setDictionaryCount)
+      .catch(() => setDictionaryCount(null));
+  };
 
   if (!isOpen) return null;
 
+  // The offline demo backend works without a key
+  const canSave = provider === 'mock' || !!apiKey.trim();
+
   const handleSave = () => {
-    if (!apiKey.trim()) return;
-    onSave(apiKey.trim(), selectedModel);
+    if (!canSave) return;
+    setTranscriptionServerUrl(serverUrl);
+    onSave(apiKey.trim(), selectedModel, provider);
+  };
+
+  const handleLoadStarter = async () => {
+    try {
+      const added = await loadStarterDictionary();
+      setDictionaryMessage({ text: `Đã thêm ${added} từ có sẵn`, isError: false });
+      refreshDictionaryCount();
+    } catch (err: any) {
+      setDictionaryMessage({ text: err.message, isError: true });
+    }
+  };
+
+  const handleExportDictionary = async () => {
+    try {
+      const blob = new Blob([await exportDictionary()], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.download = `speakpro_dictionary_${new Date().toISOString().split('T')[0]}.json`;
+      link.href = url;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err: any) {
+      setDictionaryMessage({ text: err.message, isError: true });
+    }
+  };
+
+  const handleImportDictionary = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = await importDictionary(await file.text());
+      setDictionaryMessage({ text: `Đã nhập ${imported} từ`, isError: false });
+      refreshDictionaryCount();
+    } catch (err: any) {
+      setDictionaryMessage({ text: err.message, isError: true });
+    }
   };
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
-    if (e.key === 'Enter' && apiKey.trim()) {
+    if (e.key === 'Enter' && canSave) {
       handleSave();
     }
     if (e.key === 'Escape') {
@@ -96,79 +138,160 @@ const ApiKeyModal: React.FC<ApiKeyModalProps> = ({
 
         {/* Content */}
         <div className="px-8 py-6 space-y-6">
-          {/* API Key Input */}
-          <div className="space-y-3">
+          {/* Provider Selection */}
+          <div className="grid grid-cols-2 gap-3">
+            <button
+              onClick={() => setProvider('gemini')}
+              className={`flex items-center gap-3 p-4 rounded-2xl border-2 text-left transition-all ${provider === 'gemini'
+                ? 'border-blue-400 bg-blue-50'
+                : 'border-slate-100 hover:border-slate-200 bg-white'
+                }`}
+            >
+              <Cloud className="text-blue-600" size={20} />
+              <div>
+                <p className="font-bold text-slate-800">Gemini AI</p>
+                <p className="text-xs text-slate-400">Cần API Key</p>
+              </div>
+            </button>
+            <button
+              onClick={() => setProvider('mock')}
+              className={`flex items-center gap-3 p-4 rounded-2xl border-2 text-left transition-all ${provider === 'mock'
+                ? 'border-amber-400 bg-amber-50'
+                : 'border-slate-100 hover:border-slate-200 bg-white'
+                }`}
+            >
+              <WifiOff className="text-amber-600" size={20} />
+              <div>
+                <p className="font-bold text-slate-800">Demo offline</p>
+                <p className="text-xs text-slate-400">Không cần mạng, dữ liệu mẫu</p>
+              </div>
+            </button>
+          </div>
+
+          {provider === 'gemini' && (
+            <div className="space-y-6">
+              {/* API Key Input */}
+              <div className="space-y-3">
+                <label className="text-sm font-bold text-slate-700 flex items-center gap-2">
+                  🔑 API Key của bạn
+                </label>
+                <div className="relative">
+                  <input
+                    type={showKey ? 'text' : 'password'}
+                    value={apiKey}
+                    onChange={(e) => setApiKey(e.target.value)}
+                    onKeyDown={handleKeyDown}
+                    placeholder="AIzaSy..."
+                    className="w-full px-5 py-4 pr-24 rounded-2xl border-2 border-slate-100 focus:border-blue-400 outline-none text-lg font-medium transition-all bg-slate-50 focus:bg-white"
+                    autoFocus
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setShowKey(!showKey)}
+                    className="absolute right-4 top-1/2 -translate-y-1/2 text-sm font-bold text-slate-400 hover:text-blue-600 transition-colors"
+                  >
+                    {showKey ? 'Ẩn' : 'Hiện'}
+                  </button>
+                </div>
+                <a
+                  href="https://aistudio.google.com/api-keys"
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="inline-flex items-center gap-2 text-sm font-bold text-blue-600 hover:text-blue-700 transition-colors"
+                >
+                  <ExternalLink size={14} />
+                  Lấy API Key miễn phí tại Google AI Studio
+                </a>
+              </div>
+
+              {/* Model Selection */}
+              <div className="space-y-3">
+                <label className="text-sm font-bold text-slate-700 flex items-center gap-2">
+                  🤖 Chọn Model AI
+                </label>
+                <div className="grid gap-3">
+                  {TEXT_MODELS.map((model) => (
+                    <button
+                      key={model.id}
+                      onClick={() => setSelectedModel(model.id)}
+                      className={`flex items-center gap-4 p-4 rounded-2xl border-2 text-left transition-all ${selectedModel === model.id
+                        ? 'border-blue-400 bg-blue-50'
+                        : 'border-slate-100 hover:border-slate-200 bg-white'
+                        }`}
+                    >
+                      <div className={`p-2 rounded-xl ${model.color === 'blue' ? 'bg-blue-100' :
+                        model.color === 'purple' ? 'bg-purple-100' : 'bg-green-100'
+                        }`}>
+                        {model.color === 'blue' ? <Zap className="text-blue-600" size={20} /> :
+                          model.color === 'purple' ? <Star className="text-purple-600" size={20} /> :
+                            <Sparkles className="text-green-600" size={20} />}
+                      </div>
+                      <div className="flex-1">
+                        <div className="flex items-center gap-2">
+                          <span className="font-bold text-slate-800">{model.name}</span>
+                          <span className={`text-[10px] font-black uppercase px-2 py-0.5 rounded-full ${model.color === 'blue' ? 'bg-blue-100 text-blue-600' :
+                            model.color === 'purple' ? 'bg-purple-100 text-purple-600' : 'bg-green-100 text-green-600'
+                            }`}>
+                            {model.badge}
+                          </span>
+                        </div>
+                        <p className="text-sm text-slate-400">{model.description}</p>
+                      </div>
+                      {selectedModel === model.id && (
+                        <Check className="text-blue-600" size={20} />
+                      )}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* Optional local speech recognition server, used when live transcription fails */}
+          <div className="space-y-2">
             <label className="text-sm font-bold text-slate-700 flex items-center gap-2">
-              🔑 API Key của bạn
+              🎙️ Máy chủ nhận dạng giọng nói <span className="text-xs font-medium text-slate-400">(tuỳ chọn)</span>
             </label>
-            <div className="relative">
-              <input
-                type={showKey ? 'text' : 'password'}
-                value={apiKey}
-                onChange={(e) => setApiKey(e.target.value)}
-                onKeyDown={handleKeyDown}
-                placeholder="AIzaSy..."
-                className="w-full px-5 py-4 pr-24 rounded-2xl border-2 border-slate-100 focus:border-blue-400 outline-none text-lg font-medium transition-all bg-slate-50 focus:bg-white"
-                autoFocus
-              />
-              <button
-                type="button"
-                onClick={() => setShowKey(!showKey)}
-                className="absolute right-4 top-1/2 -translate-y-1/2 text-sm font-bold text-slate-400 hover:text-blue-600 transition-colors"
-              >
-                {showKey ? 'Ẩn' : 'Hiện'}
-              </button>
-            </div>
-            <a
-              href="https://aistudio.google.com/api-keys"
-              target="_blank"
-              rel="noopener noreferrer"
-              className="inline-flex items-center gap-2 text-sm font-bold text-blue-600 hover:text-blue-700 transition-colors"
-            >
-              <ExternalLink size={14} />
-              Lấy API Key miễn phí tại Google AI Studio
-            </a>
+            <input
+              type="url"
+              value={serverUrl}
+              onChange={(e) => setServerUrl(e.target.value)}
+              onKeyDown={handleKeyDown}
+              placeholder="http://localhost:8080/inference"
+              className="w-full px-4 py-3 rounded-2xl border-2 border-slate-100 focus:border-blue-400 outline-none text-sm transition-all"
+            />
           </div>
 
-          {/* Model Selection */}
-          <div className="space-y-3">
+          {/* Saved word meanings, shareable between devices */}
+          <div className="space-y-2">
             <label className="text-sm font-bold text-slate-700 flex items-center gap-2">
-              🤖 Chọn Model AI
+              <BookOpen size={16} /> Từ điển đã lưu
+              {dictionaryCount !== null && <span className="text-xs font-medium text-slate-400">({dictionaryCount} từ)</span>}
             </label>
-            <div className="grid gap-3">
-              {AVAILABLE_MODELS.map((model) => (
-                <button
-                  key={model.id}
-                  onClick={() => setSelectedModel(model.id)}
-                  className={`flex items-center gap-4 p-4 rounded-2xl border-2 text-left transition-all ${selectedModel === model.id
-                    ? 'border-blue-400 bg-blue-50'
-                    : 'border-slate-100 hover:border-slate-200 bg-white'
-                    }`}
-                >
-                  <div className={`p-2 rounded-xl ${model.color === 'blue' ? 'bg-blue-100' :
-                    model.color === 'purple' ? 'bg-purple-100' : 'bg-green-100'
-                    }`}>
-                    {model.color === 'blue' ? <Zap className="text-blue-600" size={20} /> :
-                      model.color === 'purple' ? <Star className="text-purple-600" size={20} /> :
-                        <Sparkles className="text-green-600" size={20} />}
-                  </div>
-                  <div className="flex-1">
-                    <div className="flex items-center gap-2">
-                      <span className="font-bold text-slate-800">{model.name}</span>
-                      <span className={`text-[10px] font-black uppercase px-2 py-0.5 rounded-full ${model.color === 'blue' ? 'bg-blue-100 text-blue-600' :
-                        model.color === 'purple' ? 'bg-purple-100 text-purple-600' : 'bg-green-100 text-green-600'
-                        }`}>
-                        {model.badge}
-                      </span>
-                    </div>
-                    <p className="text-sm text-slate-400">{model.description}</p>
-                  </div>
-                  {selectedModel === model.id && (
-                    <Check className="text-blue-600" size={20} />
-                  )}
-                </button>
-              ))}
+            <div className="flex flex-wrap gap-2">
+              <button
+                onClick={handleLoadStarter}
+                className="px-4 py-2 rounded-xl text-sm font-bold bg-slate-50 text-slate-600 hover:bg-slate-100 transition-all"
+              >
+                Thêm từ điển có sẵn
+              </button>
+              <button
+                onClick={handleExportDictionary}
+                className="px-4 py-2 rounded-xl text-sm font-bold bg-slate-50 text-slate-600 hover:bg-slate-100 transition-all flex items-center gap-2"
+              >
+                <Download size={14} /> Xuất
+              </button>
+              <button
+                onClick={() => dictionaryFileRef.current?.click()}
+                className="px-4 py-2 rounded-xl text-sm font-bold bg-slate-50 text-slate-600 hover:bg-slate-100 transition-all flex items-center gap-2"
+              >
+                <Upload size={14} /> Nhập
+              </button>
+              <input ref={dictionaryFileRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImportDictionary} />
             </div>
+            {dictionaryMessage && (
+              <p className={`text-xs font-bold ${dictionaryMessage.isError ? 'text-red-500' : 'text-green-600'}`}>{dictionaryMessage.text}</p>
+            )}
           </div>
         </div>
 
@@ -182,7 +305,7 @@ const ApiKeyModal: React.FC<ApiKeyModalProps> = ({
           </button>
           <button
             onClick={handleSave}
-            disabled={!apiKey.trim()}
+            disabled={!canSave}
             className="px-8 py-3 rounded-xl font-bold text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-40 disabled:cursor-not-allowed transition-all shadow-lg shadow-blue-100"
           >
             Lưu & Bắt đầu
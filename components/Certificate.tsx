@@ -1,27 +1,19 @@
 import React, { useRef } from 'react';
 import { Award, Download, Printer, Star, CheckCircle2 } from 'lucide-react';
-import { EvaluationResult } from '../types';
+import { CEFRLevel, EvaluationResult } from '../types';
+import { getRubric, getGradeInfo } from '../services/rubricService';
 
 interface CertificateProps {
     isOpen: boolean;
     onClose: () => void;
     childName: string;
     theme: string;
-    level: string;
+    level: CEFRLevel;
     evaluation: EvaluationResult;
     teacherName?: string;
     centerName?: string;
 }
 
-// Get grade classification based on score (scale 0-10)
-const getGradeInfo = (score: number): { grade: string; color: string; stars: number } => {
-    if (score >= 9) return { grade: 'Xuất sắc', color: 'text-amber-500', stars: 5 };
-    if (score >= 8) return { grade: 'Giỏi', color: 'text-emerald-500', stars: 4 };
-    if (score >= 7) return { grade: 'Khá', color: 'text-blue-500', stars: 3 };
-    if (score >= 5) return { grade: 'Trung bình', color: 'text-orange-500', stars: 2 };
-    return { grade: 'Cần cố gắng', color: 'text-slate-500', stars: 1 };
-};
-
 // Format date in Vietnamese
 const formatDateVN = (date: Date): string => {
     const day = date.getDate();
@@ -41,7 +33,9 @@ const Certificate: React.FC<CertificateProps> = ({
     centerName = "SpeakPro English Academy"
 }) => {
     const certificateRef = useRef<HTMLDivElement>(null);
-    const gradeInfo = getGradeInfo(evaluation.score);
+    // Grade bands and criteria labels come from the level's (or the picture task's) rubric
+    const rubric = getRubric(level, evaluation.taskType);
+    const gradeInfo = getGradeInfo(evaluation.score, rubric);
 
     const handlePrint = () => {
         const printContent = certificateRef.current;
@@ -218,14 +212,7 @@ const Certificate: React.FC<CertificateProps> = ({
 
                             {/* Skills Summary */}
                             <div className="grid grid-cols-3 gap-3 max-w-md mx-auto text-sm">
-                                {[
-                                    { label: 'Phát âm', value: evaluation.pronunciation },
-                                    { label: 'Lưu loát', value: evaluation.fluency },
-                                    { label: 'Ngữ điệu', value: evaluation.intonation },
-                                    { label: 'Từ vựng', value: evaluation.vocabulary },
-                                    { label: 'Ngữ pháp', value: evaluation.grammar },
-                                    { label: 'Hoàn thành', value: evaluation.taskFulfillment },
-                                ].map(skill => (
+                                {rubric.criteria.map(criterion => ({ label: criterion.label, value: evaluation[criterion.key] ?? 0 })).map(skill => (
                                     <div key={skill.label} className="bg-white/80 rounded-lg px-3 py-2 border border-amber-100">
                                         <span className="text-slate-500 font-medium">{skill.label}: </span>
                                         <span className="font-black text-slate-700">{skill.value}/10</span>
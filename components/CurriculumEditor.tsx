@@ -0,0 +1,308 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Route, X, Download, Upload, RotateCcw, Check, Plus, Trash2, ChevronUp, ChevronDown } from 'lucide-react';
+import { CEFRLevel } from '../types';
+import { CEFR_LEVELS, PREDEFINED_THEMES } from '../constants';
+import {
+    CurriculumUnit, createUnitId, getUnits, saveUnits, resetUnits, exportCurriculum, importCurriculum
+} from '../services/curriculumService';
+
+interface CurriculumEditorProps {
+    isOpen: boolean;
+    onClose: () => void;
+    onSaved: () => void;
+    initialLevel?: CEFRLevel;
+}
+
+// Lets teachers build units from the predefined themes, with JSON import/export
+const CurriculumEditor: React.FC<CurriculumEditorProps> = ({ isOpen, onClose, onSaved, initialLevel }) => {
+    const [draft, setDraft] = useState<CurriculumUnit[]>([]);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [vocabularyText, setVocabularyText] = useState('');
+    const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const loadDraft = () => {
+        // Deep copy so edits stay local until saved
+        const units: CurriculumUnit[] = JSON.parse(JSON.stringify(getUnits()));
+        setDraft(units);
+        setSelectedId(units[0]?.id || null);
+        setVocabularyText(units[0]?.targetVocabulary.join(', ') || '');
+    };
+
+    useEffect(() => {
+        if (!isOpen) return;
+        loadDraft();
+        setMessage(null);
+    }, [isOpen]);
+
+    const unit = draft.find(u => u.id === selectedId);
+
+    // Vocabulary is typed as one comma-separated line
+    useEffect(() => {
+        setVocabularyText(unit ? unit.targetVocabulary.join(', ') : '');
+    }, [selectedId]);
+
+    if (!isOpen) return null;
+
+    const updateUnit = (changes: Partial<CurriculumUnit>) => {
+        setDraft(draft.map(u => u.id === selectedId ? { ...u, ...changes } : u));
+    };
+
+    const moveTheme = (index: number, step: number) => {
+        if (!unit) return;
+        const themeIds = [...unit.themeIds];
+        const [id] = themeIds.splice(index, 1);
+        themeIds.splice(index + step, 0, id);
+        updateUnit({ themeIds });
+    };
+
+    const moveUnit = (step: number) => {
+        const index = draft.findIndex(u => u.id === selectedId);
+        const target = index + step;
+        if (index < 0 || target < 0 || target >= draft.length) return;
+        const units = [...draft];
+        const [moved] = units.splice(index, 1);
+        units.splice(target, 0, moved);
+        setDraft(units);
+    };
+
+    const handleAddUnit = () => {
+        const created: CurriculumUnit = {
+            id: createUnitId(),
+            name: `Học phần ${draft.length + 1}`,
+            level: initialLevel || 'Starters',
+            themeIds: [],
+            targetVocabulary: [],
+            grammarFocus: '',
+            passScore: 6
+        };
+        setDraft([...draft, created]);
+        setSelectedId(created.id);
+    };
+
+    const handleDeleteUnit = () => {
+        const units = draft.filter(u => u.id !== selectedId);
+        setDraft(units);
+        setSelectedId(units[0]?.id || null);
+    };
+
+    const handleSave = () => {
+        try {
+            saveUnits(draft);
+            setMessage({ text: 'Đã lưu lộ trình', isError: false });
+            onSaved();
+        } catch (err: any) {
+            setMessage({ text: err.message, isError: true });
+        }
+    };
+
+    const handleReset = () => {
+        resetUnits();
+        loadDraft();
+        onSaved();
+        setMessage({ text: 'Đã khôi phục lộ trình gốc', isError: false });
+    };
+
+    const handleExport = () => {
+        const blob = new Blob([exportCurriculum()], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.download = `speakpro_curriculum_${new Date().toISOString().split('T')[0]}.json`;
+        link.href = url;
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            importCurriculum(await file.text());
+            loadDraft();
+            onSaved();
+            setMessage({ text: 'Đã nhập lộ trình', isError: false });
+        } catch (err: any) {
+            setMessage({ text: err.message, isError: true });
+        }
+    };
+
+    const unusedThemes = PREDEFINED_THEMES.filter(t => !unit?.themeIds.includes(t.id));
+
+    return (
+        <div className="fixed inset-0 z-[200] flex items-center justify-center p-4">
+            <div className="absolute inset-0 bg-black/60 backdrop-blur-sm animate-in fade-in duration-300" onClick={onClose} />
+
+            <div className="relative bg-white rounded-3xl shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col animate-in zoom-in-95 slide-in-from-bottom-4 duration-300">
+                {/* Header */}
+                <div className="flex items-center justify-between px-8 py-6 border-b border-slate-100">
+                    <div className="flex items-center gap-4">
+                        <div className="bg-indigo-100 p-3 rounded-2xl">
+                            <Route className="text-indigo-600" size={24} />
+                        </div>
+                        <div>
+                            <h2 className="text-xl font-black text-slate-800">Lộ trình học</h2>
+                            <p className="text-sm text-slate-400">Học phần, chủ đề theo thứ tự và điểm qua bài</p>
+                        </div>
+                    </div>
+                    <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-xl transition-colors">
+                        <X size={20} className="text-slate-400" />
+                    </button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto px-8 py-6 flex flex-col md:flex-row gap-6">
+                    {/* Units */}
+                    <div className="md:w-56 shrink-0 space-y-2">
+                        <h3 className="text-xs font-black text-slate-400 uppercase tracking-widest">Học phần</h3>
+                        {draft.map((u, index) => (
+                            <button
+                                key={u.id}
+                                onClick={() => setSelectedId(u.id)}
+                                className={`w-full text-left px-4 py-3 rounded-2xl border-2 transition-all ${u.id === selectedId ? 'border-indigo-400 bg-indigo-50' : 'border-slate-100 hover:border-indigo-200'}`}
+                            >
+                                <p className="text-sm font-black text-slate-700 truncate">{index + 1}. {u.name}</p>
+                                <p className="text-xs font-bold text-slate-400">{u.level} · {u.themeIds.length} bài</p>
+                            </button>
+                        ))}
+                        <button onClick={handleAddUnit} className="w-full flex items-center justify-center gap-2 px-4 py-3 rounded-2xl border-2 border-dashed border-slate-200 text-slate-400 hover:text-indigo-600 hover:border-indigo-300 font-bold text-sm transition-all">
+                            <Plus size={16} /> Thêm học phần
+                        </button>
+                    </div>
+
+                    {/* Selected unit */}
+                    {unit ? (
+                        <div className="flex-1 space-y-5">
+                            <div className="flex items-center gap-2">
+                                <input
+                                    value={unit.name}
+                                    onChange={e => updateUnit({ name: e.target.value })}
+                                    className="flex-1 px-3 py-2 rounded-xl bg-slate-50 border border-slate-100 font-bold text-slate-700 outline-none focus:border-indigo-300"
+                                />
+                                <button onClick={() => moveUnit(-1)} className="p-2 text-slate-400 hover:bg-slate-50 rounded-lg" title="Lên trước">
+                                    <ChevronUp size={16} />
+                                </button>
+                                <button onClick={() => moveUnit(1)} className="p-2 text-slate-400 hover:bg-slate-50 rounded-lg" title="Xuống sau">
+                                    <ChevronDown size={16} />
+                                </button>
+                                <button onClick={handleDeleteUnit} className="p-2 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded-lg" title="Xóa học phần">
+                                    <Trash2 size={16} />
+                                </button>
+                            </div>
+
+                            <div className="grid grid-cols-2 gap-4">
+                                <label className="space-y-1">
+                                    <span className="text-xs font-black text-slate-400 uppercase tracking-widest">Cấp độ</span>
+                                    <select
+                                        value={unit.level}
+                                        onChange={e => updateUnit({ level: e.target.value as CEFRLevel })}
+                                        className="w-full px-3 py-2 rounded-xl bg-slate-50 border border-slate-100 font-bold text-slate-700 outline-none"
+                                    >
+                                        {CEFR_LEVELS.map(l => <option key={l} value={l}>{l}</option>)}
+                                    </select>
+                                </label>
+                                <label className="space-y-1">
+                                    <span className="text-xs font-black text-slate-400 uppercase tracking-widest">Điểm qua bài</span>
+                                    <input
+                                        type="number"
+                                        min={0}
+                                        max={10}
+                                        step={0.5}
+                                        value={unit.passScore}
+                                        onChange={e => updateUnit({ passScore: Math.min(10, Math.max(0, parseFloat(e.target.value) || 0)) })}
+                                        className="w-full px-3 py-2 rounded-xl bg-slate-50 border border-slate-100 font-bold text-slate-700 outline-none"
+                                    />
+                                </label>
+                            </div>
+
+                            <label className="block space-y-1">
+                                <span className="text-xs font-black text-slate-400 uppercase tracking-widest">Từ vựng mục tiêu (cách nhau bởi dấu phẩy)</span>
+                                <input
+                                    value={vocabularyText}
+                                    onChange={e => {
+                                        setVocabularyText(e.target.value);
+                                        updateUnit({ targetVocabulary: e.target.value.split(',').map(w => w.trim()).filter(Boolean) });
+                                    }}
+                                    placeholder="dog, cat, happy"
+                                    className="w-full px-3 py-2 rounded-xl bg-slate-50 border border-slate-100 text-sm font-bold text-slate-700 outline-none focus:border-indigo-300"
+                                />
+                            </label>
+
+                            <label className="block space-y-1">
+                                <span className="text-xs font-black text-slate-400 uppercase tracking-widest">Ngữ pháp trọng tâm</span>
+                                <input
+                                    value={unit.grammarFocus}
+                                    onChange={e => updateUnit({ grammarFocus: e.target.value })}
+                                    placeholder="Present continuous: He is running..."
+                                    className="w-full px-3 py-2 rounded-xl bg-slate-50 border border-slate-100 text-sm font-bold text-slate-700 outline-none focus:border-indigo-300"
+                                />
+                            </label>
+
+                            {/* Lessons */}
+                            <div className="space-y-2">
+                                <h3 className="text-xs font-black text-slate-400 uppercase tracking-widest">Bài học theo thứ tự</h3>
+                                {unit.themeIds.map((id, index) => {
+                                    const theme = PREDEFINED_THEMES.find(t => t.id === id);
+                                    if (!theme) return null;
+                                    return (
+                                        <div key={id} className="flex items-center gap-3 px-3 py-2 border border-slate-100 rounded-2xl">
+                                            <span className="w-6 text-xs font-black text-slate-400">{index + 1}</span>
+                                            <span className="text-xl">{theme.icon}</span>
+                                            <span className="flex-1 text-sm font-bold text-slate-700">{theme.label}</span>
+                                            <button onClick={() => moveTheme(index, -1)} disabled={index === 0} className="p-1.5 text-slate-400 hover:bg-slate-50 rounded-lg disabled:opacity-30">
+                                                <ChevronUp size={14} />
+                                            </button>
+                                            <button onClick={() => moveTheme(index, 1)} disabled={index === unit.themeIds.length - 1} className="p-1.5 text-slate-400 hover:bg-slate-50 rounded-lg disabled:opacity-30">
+                                                <ChevronDown size={14} />
+                                            </button>
+                                            <button onClick={() => updateUnit({ themeIds: unit.themeIds.filter(t => t !== id) })} className="p-1.5 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded-lg">
+                                                <X size={14} />
+                                            </button>
+                                        </div>
+                                    );
+                                })}
+                                {unusedThemes.length > 0 && (
+                                    <select
+                                        value=""
+                                        onChange={e => updateUnit({ themeIds: [...unit.themeIds, e.target.value] })}
+                                        className="w-full px-3 py-2 rounded-xl bg-slate-50 border border-dashed border-slate-200 text-sm font-bold text-slate-500 outline-none"
+                                    >
+                                        <option value="">+ Thêm chủ đề...</option>
+                                        {unusedThemes.map(t => <option key={t.id} value={t.id}>{t.icon} {t.label}</option>)}
+                                    </select>
+                                )}
+                            </div>
+                        </div>
+                    ) : (
+                        <p className="flex-1 text-center text-slate-400 font-bold py-12">Chưa có học phần nào</p>
+                    )}
+                </div>
+
+                {/* Footer */}
+                <div className="px-8 py-5 border-t border-slate-100 flex items-center gap-3 flex-wrap">
+                    <button onClick={handleExport} className="flex items-center gap-2 px-4 py-2 rounded-xl text-slate-500 hover:bg-slate-50 font-bold text-sm">
+                        <Download size={16} /> Xuất JSON
+                    </button>
+                    <button onClick={() => fileInputRef.current?.click()} className="flex items-center gap-2 px-4 py-2 rounded-xl text-slate-500 hover:bg-slate-50 font-bold text-sm">
+                        <Upload size={16} /> Nhập JSON
+                    </button>
+                    <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+                    <button onClick={handleReset} className="flex items-center gap-2 px-4 py-2 rounded-xl text-slate-500 hover:bg-slate-50 font-bold text-sm">
+                        <RotateCcw size={16} /> Khôi phục
+                    </button>
+                    <div className="flex-1" />
+                    {message && (
+                        <span className={`text-xs font-bold ${message.isError ? 'text-red-500' : 'text-green-600'}`}>{message.text}</span>
+                    )}
+                    <button
+                        onClick={handleSave}
+                        className="flex items-center gap-2 px-6 py-3 rounded-xl bg-indigo-600 text-white font-bold hover:bg-indigo-700 transition-all"
+                    >
+                        <Check size={16} /> Lưu
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default CurriculumEditor;
@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { Route, Lock, CheckCircle2, Settings2, ChevronDown, ChevronUp } from 'lucide-react';
+import { Theme } from '../types';
+import { CurriculumUnit, getUnitProgress } from '../services/curriculumService';
+
+interface CurriculumPathProps {
+    units: CurriculumUnit[];
+    profileId: string;
+    onStartLesson: (unit: CurriculumUnit, theme: Theme) => void;
+    onEdit: () => void;
+}
+
+// The learner's way through each unit: passed lessons are ticked, the next
+// one is open and later ones stay locked until it is passed
+const CurriculumPath: React.FC<CurriculumPathProps> = ({ units, profileId, onStartLesson, onEdit }) => {
+    const [openUnitId, setOpenUnitId] = useState<string | null>(null);
+
+    if (units.length === 0) return null;
+
+    const progressByUnit = units.map(unit => ({ unit, progress: getUnitProgress(unit, profileId) }));
+    // Open the first unfinished unit unless the learner picked another
+    const shownId = openUnitId ?? progressByUnit.find(p => !p.progress.isComplete)?.unit.id ?? units[0].id;
+
+    return (
+        <div className="bg-white rounded-[2rem] border-2 border-indigo-100 shadow-xl shadow-slate-200/50 p-6 space-y-4">
+            <div className="flex items-center justify-between">
+                <h3 className="text-xl font-black text-slate-800 flex items-center gap-3">
+                    <Route className="text-indigo-500" size={24} /> Lộ trình học
+                </h3>
+                <button onClick={onEdit} className="flex items-center gap-2 px-3 py-2 rounded-xl text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 font-bold text-sm transition-all">
+                    <Settings2 size={16} /> Soạn lộ trình
+                </button>
+            </div>
+
+            {progressByUnit.map(({ unit, progress }) => {
+                const isOpen = unit.id === shownId;
+                const percent = progress.lessons.length ? Math.round(progress.passedCount / progress.lessons.length * 100) : 0;
+                return (
+                    <div key={unit.id} className="border border-slate-100 rounded-2xl">
+                        <button onClick={() => setOpenUnitId(isOpen ? '' : unit.id)} className="w-full flex items-center gap-4 p-4 text-left">
+                            <div className="flex-1 min-w-0">
+                                <p className="font-black text-slate-700 truncate">
+                                    {unit.name}
+                                    <span className="ml-2 text-xs font-bold text-indigo-500">{unit.level}</span>
+                                    {progress.isComplete && <CheckCircle2 size={16} className="inline ml-2 text-green-500" />}
+                                </p>
+                                <div className="mt-2 h-2 bg-slate-100 rounded-full overflow-hidden">
+                                    <div className="h-full bg-indigo-500 rounded-full transition-all" style={{ width: `${percent}%` }} />
+                                </div>
+                            </div>
+                            <span className="text-sm font-black text-slate-400">{progress.passedCount}/{progress.lessons.length}</span>
+                            {isOpen ? <ChevronUp size={16} className="text-slate-400" /> : <ChevronDown size={16} className="text-slate-400" />}
+                        </button>
+                        {isOpen && (
+                            <div className="px-4 pb-4 space-y-3">
+                                {(unit.grammarFocus || unit.targetVocabulary.length > 0) && (
+                                    <div className="text-xs font-bold text-slate-500 space-y-1">
+                                        {unit.grammarFocus && <p>Ngữ pháp: <span className="text-slate-700">{unit.grammarFocus}</span></p>}
+                                        {unit.targetVocabulary.length > 0 && <p>Từ vựng: <span className="text-slate-700">{unit.targetVocabulary.join(', ')}</span></p>}
+                                    </div>
+                                )}
+                                <div className="flex flex-wrap gap-3">
+                                    {progress.lessons.map((lesson, index) => (
+                                        <button
+                                            key={lesson.theme.id}
+                                            disabled={!lesson.unlocked}
+                                            onClick={() => onStartLesson(unit, lesson.theme)}
+                                            className={`relative flex items-center gap-2 px-4 py-3 rounded-2xl border-2 font-bold text-sm transition-all ${lesson.passed
+                                                ? 'border-green-200 bg-green-50 text-green-700 hover:border-green-400'
+                                                : lesson.unlocked
+                                                    ? 'border-indigo-300 bg-indigo-50 text-indigo-700 hover:scale-105 shadow-md'
+                                                    : 'border-slate-100 bg-slate-50 text-slate-300 cursor-not-allowed'
+                                                }`}
+                                            title={lesson.unlocked ? `Cần ${unit.passScore} điểm để qua bài` : 'Qua bài trước để mở khóa'}
+                                        >
+                                            <span className="text-xs font-black opacity-60">{index + 1}</span>
+                                            <span className="text-xl">{lesson.unlocked ? lesson.theme.icon : <Lock size={16} />}</span>
+                                            {lesson.theme.label}
+                                            {lesson.bestScore !== null && (
+                                                <span className={`text-xs font-black ${lesson.passed ? 'text-green-500' : 'text-orange-500'}`}>{lesson.bestScore}</span>
+                                            )}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
+
+export default CurriculumPath;
@@ -0,0 +1,48 @@
+import React from 'react';
+import { Footprints, AlertTriangle } from 'lucide-react';
+import { FollowAlongState } from '../services/alignmentService';
+
+interface FollowAlongStatusProps {
+    state: FollowAlongState;
+}
+
+const READ_CLASS = "text-green-700 after:content-['✓'] after:text-green-500 after:text-xs after:align-super after:ml-0.5";
+const SUBSTITUTED_CLASS = 'text-amber-600';
+const SKIPPED_CLASS = 'bg-red-50 text-red-400 line-through decoration-red-300';
+const CURRENT_WORD_CLASS = 'bg-yellow-200 text-slate-900 ring-2 ring-yellow-300';
+const CURRENT_SENTENCE_CLASS = 'bg-blue-50';
+
+/**
+ * Class for a script word while following the child's reading
+ */
+export function getFollowAlongClassName(state: FollowAlongState, index: number): string {
+    if (index === state.currentWord) return CURRENT_WORD_CLASS;
+    switch (state.words[index]) {
+        case 'read': return READ_CLASS;
+        case 'substituted': return SUBSTITUTED_CLASS;
+        case 'skipped': return SKIPPED_CLASS;
+    }
+    const sentence = state.sentences[state.currentSentence];
+    return sentence && index >= sentence.start && index < sentence.end ? CURRENT_SENTENCE_CLASS : '';
+}
+
+// Where the child is in the script while recording, and a nudge when a sentence was skipped
+const FollowAlongStatus: React.FC<FollowAlongStatusProps> = ({ state }) => {
+    const total = state.sentences.length;
+    const skipped = state.skippedSentences.length;
+
+    return (
+        <div className="flex items-center gap-3 text-xs font-bold">
+            <span className="flex items-center gap-1 text-blue-600">
+                <Footprints size={14} /> Câu {Math.min(state.currentSentence + 1, total)}/{total}
+            </span>
+            {skipped > 0 && (
+                <span className="flex items-center gap-1 text-red-500">
+                    <AlertTriangle size={14} /> Con bỏ sót {skipped} câu
+                </span>
+            )}
+        </div>
+    );
+};
+
+export default FollowAlongStatus;
@@ -1,7 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import {
     History, X, Trophy, Clock, Flame, TrendingUp,
-    Calendar, Trash2, ChevronDown, ChevronUp, BookOpen, BarChart3
+    Calendar, Trash2, ChevronDown, ChevronUp, BookOpen, BarChart3, Mic, Repeat, ImageIcon, MessagesSquare, GraduationCap, Ear
 } from 'lucide-react';
 import {
     getLessonsGroupedByDay,
@@ -11,12 +11,21 @@ import {
     deleteLessonRecord,
     formatDuration,
     getVietnameseDayName,
+    getRetentionDays,
+    setRetentionDays,
+    RETENTION_OPTIONS,
     LessonRecord
 } from '../services/historyService';
+import { LearnerProfile } from '../services/profileService';
+import LessonDetail from './LessonDetail';
+import { PRONUNCIATION_CATEGORIES, countErrorCategories } from '../services/pronunciationService';
 
 interface HistoryPanelProps {
     isOpen: boolean;
     onClose: () => void;
+    profile: LearnerProfile;
+    onPractiseAgain?: (lesson: LessonRecord) => void;
+    onStartDrill?: () => void;
 }
 
 const SKILL_LABELS: Record<string, { label: string; color: string; emoji: string }> = {
@@ -28,35 +37,50 @@ const SKILL_LABELS: Record<string, { label: string; color: string; emoji: string
     taskFulfillment: { label: 'Hoàn thành', color: 'bg-cyan-500', emoji: '✅' }
 };
 
-const HistoryPanel: React.FC<HistoryPanelProps> = ({ isOpen, onClose }) => {
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ isOpen, onClose, profile, onPractiseAgain, onStartDrill }) => {
     const [activeTab, setActiveTab] = useState<'overview' | 'history'>('overview');
-    const [weeklyData, setWeeklyData] = useState<ReturnType<typeof getLessonsGroupedByDay>>([]);
-    const [skillAverages, setSkillAverages] = useState<ReturnType<typeof getWeeklySkillAverages> | null>(null);
+    const [weeklyData, setWeeklyData] = useState<Awaited<ReturnType<typeof getLessonsGroupedByDay>>>([]);
+    const [skillAverages, setSkillAverages] = useState<Awaited<ReturnType<typeof getWeeklySkillAverages>> | null>(null);
     const [recentLessons, setRecentLessons] = useState<LessonRecord[]>([]);
     const [streak, setStreak] = useState(0);
     const [expandedLesson, setExpandedLesson] = useState<string | null>(null);
+    const [retentionDays, setRetention] = useState<number | null>(getRetentionDays());
 
     useEffect(() => {
         if (isOpen) {
             loadData();
         }
-    }, [isOpen]);
+    }, [isOpen, profile.id]);
 
-    const loadData = () => {
-        setWeeklyData(getLessonsGroupedByDay());
-        setSkillAverages(getWeeklySkillAverages());
-        setRecentLessons(getRecentLessons(10));
-        setStreak(getDailyStreak());
+    const loadData = async () => {
+        const [grouped, averages, recent, currentStreak] = await Promise.all([
+            getLessonsGroupedByDay(profile.id),
+            getWeeklySkillAverages(profile.id),
+            getRecentLessons(30, profile.id),
+            getDailyStreak(profile.id)
+        ]);
+        setWeeklyData(grouped);
+        setSkillAverages(averages);
+        setRecentLessons(recent);
+        setStreak(currentStreak);
     };
 
-    const handleDelete = (id: string) => {
-        deleteLessonRecord(id);
+    const handleDelete = async (id: string) => {
+        await deleteLessonRecord(id);
+        loadData();
+    };
+
+    const handleRetentionChange = (value: string) => {
+        const days = value === 'forever' ? null : parseInt(value, 10);
+        setRetentionDays(days);
+        setRetention(days);
         loadData();
     };
 
     if (!isOpen) return null;
 
     const maxDailyScore = Math.max(...weeklyData.map(d => d.avgScore), 5);
+    const frequentErrors = countErrorCategories(recentLessons.map(l => l.evaluation)).slice(0, 4);
 
     return (
         <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-[200] flex items-center justify-center p-4 animate-in fade-in duration-200">
@@ -69,15 +93,31 @@ const HistoryPanel: React.FC<HistoryPanelProps> = ({ isOpen, onClose }) => {
                         </div>
                         <div>
                             <h2 className="text-2xl font-black text-white">Lịch Sử Học Tập</h2>
-                            <p className="text-white/70 text-sm font-medium">7 ngày gần nhất</p>
+                            <p className="text-white/70 text-sm font-medium">{profile.name} • 7 ngày gần nhất</p>
                         </div>
                     </div>
-                    <button
-                        onClick={onClose}
-                        className="p-2 bg-white/20 hover:bg-white/30 rounded-xl transition-all"
-                    >
-                        <X className="text-white" size={20} />
-                    </button>
+                    <div className="flex items-center gap-3">
+                        <label className="hidden sm:flex items-center gap-2 text-white/80 text-xs font-bold" title="Thời gian lưu lịch sử">
+                            Lưu
+                            <select
+                                value={retentionDays === null ? 'forever' : String(retentionDays)}
+                                onChange={(e) => handleRetentionChange(e.target.value)}
+                                className="bg-white/20 text-white rounded-lg px-2 py-1 outline-none cursor-pointer"
+                            >
+                                {RETENTION_OPTIONS.map(option => (
+                                    <option key={option.label} value={option.days === null ? 'forever' : String(option.days)} className="text-slate-700">
+                                        {option.label}
+                                    </option>
+                                ))}
+                            </select>
+                        </label>
+                        <button
+                            onClick={onClose}
+                            className="p-2 bg-white/20 hover:bg-white/30 rounded-xl transition-all"
+                        >
+                            <X className="text-white" size={20} />
+                        </button>
+                    </div>
                 </div>
 
                 {/* Tabs */}
@@ -206,6 +246,39 @@ const HistoryPanel: React.FC<HistoryPanelProps> = ({ isOpen, onClose }) => {
                                     })}
                                 </div>
                             </div>
+
+                            {/* Frequent Pronunciation Errors */}
+                            <div className="bg-slate-50 rounded-2xl p-5 border border-slate-100">
+                                <div className="flex items-center justify-between gap-2 mb-4">
+                                    <div className="flex items-center gap-2">
+                                        <Ear className="text-pink-500" size={18} />
+                                        <h3 className="font-bold text-slate-700">Lỗi phát âm hay gặp</h3>
+                                    </div>
+                                    {onStartDrill && (
+                                        <button
+                                            onClick={() => { onClose(); onStartDrill(); }}
+                                            className="px-3 py-1.5 bg-pink-500 hover:bg-pink-600 text-white rounded-lg text-xs font-bold transition-all"
+                                        >
+                                            Luyện cặp từ
+                                        </button>
+                                    )}
+                                </div>
+                                {frequentErrors.length === 0 ? (
+                                    <p className="text-sm text-slate-400">Chưa thấy lỗi phát âm nào trong các bài gần đây.</p>
+                                ) : (
+                                    <div className="space-y-2">
+                                        {frequentErrors.map(({ category, count, words }) => (
+                                            <div key={category} className="bg-white rounded-xl p-3 border border-slate-100 flex items-center gap-3">
+                                                <span className="bg-pink-100 text-pink-600 font-black text-xs rounded-lg px-2 py-1">{count}×</span>
+                                                <div className="min-w-0">
+                                                    <p className="text-sm font-bold text-slate-700">{PRONUNCIATION_CATEGORIES[category].label}</p>
+                                                    <p className="text-xs text-slate-400 truncate">{words.slice(0, 6).join(', ')}</p>
+                                                </div>
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
                         </div>
                     )}
 
@@ -245,6 +318,11 @@ const HistoryPanel: React.FC<HistoryPanelProps> = ({ isOpen, onClose }) => {
                                                             <span>{lesson.level}</span>
                                                             <span>•</span>
                                                             <span>{formatDuration(lesson.duration)}</span>
+                                                            {lesson.hasRecording && <Mic size={12} className="text-purple-400" />}
+                                                            {lesson.mode === 'shadowing' && <Repeat size={12} className="text-orange-400" />}
+                                                            {lesson.mode === 'interview' && <MessagesSquare size={12} className="text-sky-400" />}
+                                                            {lesson.mode === 'exam' && <span className="flex items-center gap-1 text-emerald-500"><GraduationCap size={12} /> Thi thử</span>}
+                                                            {lesson.mode === 'picture' && <span className="flex items-center gap-1 text-indigo-400"><ImageIcon size={12} /> Tả tranh</span>}
                                                         </div>
                                                     </div>
                                                 </div>
@@ -260,17 +338,11 @@ const HistoryPanel: React.FC<HistoryPanelProps> = ({ isOpen, onClose }) => {
                                             </div>
 
                                             {isExpanded && (
-                                                <div className="px-4 pb-4 pt-2 border-t border-slate-50 bg-slate-50/50 animate-in slide-in-from-top-2 duration-200">
-                                                    <div className="grid grid-cols-3 gap-3">
-                                                        {Object.entries(SKILL_LABELS).map(([key, { label, emoji }]) => (
-                                                            <div key={key} className="text-center p-2 bg-white rounded-lg">
-                                                                <p className="text-lg">{emoji}</p>
-                                                                <p className="text-xs font-bold text-slate-500">{label}</p>
-                                                                <p className="font-black text-slate-700">{lesson[key as keyof LessonRecord] as number}</p>
-                                                            </div>
-                                                        ))}
-                                                    </div>
-                                                </div>
+                                                <LessonDetail
+                                                    lesson={lesson}
+                                                    skillLabels={SKILL_LABELS}
+                                                    onPractiseAgain={onPractiseAgain}
+                                                />
                                             )}
                                         </div>
                                     );
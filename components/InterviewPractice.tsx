@@ -0,0 +1,288 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { MessagesSquare, X, Mic, Volume2, StopCircle, Trophy, Lightbulb, Loader2 } from 'lucide-react';
+import { InterviewResult, InterviewScores, InterviewTurn, PresentationData } from '../types';
+import { LearnerProfile } from '../services/profileService';
+import { evaluateInterview } from '../services/geminiService';
+import { saveInterviewRecord } from '../services/historyService';
+import {
+    INTERVIEW_QUESTION_OPTIONS, InterviewSession,
+    getInterviewQuestionCount, setInterviewQuestionCount, countQuestions, startInterview
+} from '../services/interviewService';
+import MicLevelMeter from './MicLevelMeter';
+
+interface InterviewPracticeProps {
+    isOpen: boolean;
+    onClose: () => void;
+    presentation: PresentationData;
+    profile: LearnerProfile;
+    speechRate: number;
+}
+
+type Phase = 'setup' | 'connecting' | 'talking' | 'evaluating' | 'finished';
+
+export const INTERVIEW_LABELS: Record<keyof InterviewScores, { label: string; emoji: string }> = {
+    comprehension: { label: 'Hiểu câu hỏi', emoji: '👂' },
+    interaction: { label: 'Giao tiếp', emoji: '💬' },
+    elaboration: { label: 'Mở rộng ý', emoji: '🌱' },
+    vocabulary: { label: 'Từ vựng', emoji: '📚' },
+    grammar: { label: 'Ngữ pháp', emoji: '✏️' }
+};
+
+// Spoken Q&A with cô Ly about the presentation topic, scored on interaction and saved to history
+const InterviewPractice: React.FC<InterviewPracticeProps> = ({ isOpen, onClose, presentation, profile, speechRate }) => {
+    const [phase, setPhase] = useState<Phase>('setup');
+    const [questionCount, setQuestionCount] = useState(getInterviewQuestionCount);
+    const [turns, setTurns] = useState<InterviewTurn[]>([]);
+    const [examinerSpeaking, setExaminerSpeaking] = useState(false);
+    const [micLevel, setMicLevel] = useState(0);
+    const [result, setResult] = useState<InterviewResult | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const sessionRef = useRef<InterviewSession | null>(null);
+    const startedAtRef = useRef(0);
+    const transcriptEndRef = useRef<HTMLDivElement>(null);
+    // Bumped on every cleanup so a pending start or evaluation knows it was cancelled
+    const attemptRef = useRef(0);
+
+    const cleanup = () => {
+        attemptRef.current++;
+        sessionRef.current?.stop();
+        sessionRef.current = null;
+        setExaminerSpeaking(false);
+        setMicLevel(0);
+    };
+
+    useEffect(() => {
+        if (!isOpen) return;
+        setPhase('setup');
+        setTurns([]);
+        setResult(null);
+        setError(null);
+        return cleanup;
+    }, [isOpen, presentation]);
+
+    useEffect(() => {
+        transcriptEndRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+    }, [turns]);
+
+    const finishInterview = async () => {
+        const session = sessionRef.current;
+        if (!session) return;
+        sessionRef.current = null;
+        const finalTurns = session.stop();
+        setExaminerSpeaking(false);
+        setMicLevel(0);
+        setTurns(finalTurns);
+
+        if (!finalTurns.some(t => t.speaker === 'child' && t.text.trim())) {
+            setError('Cô chưa nghe thấy con trả lời, con thử lại nhé.');
+            setPhase('setup');
+            return;
+        }
+
+        const attempt = attemptRef.current;
+        setPhase('evaluating');
+        try {
+            const evaluation = await evaluateInterview(finalTurns, presentation.theme || '', presentation.level);
+            if (attemptRef.current !== attempt) return;
+            setResult(evaluation);
+            setPhase('finished');
+            const duration = Math.round((Date.now() - startedAtRef.current) / 1000);
+            await saveInterviewRecord(presentation, profile, evaluation, duration)
+                .catch(err => console.error('[Interview] Failed to save interview:', err));
+        } catch (err) {
+            console.error('[Interview] Evaluation failed:', err);
+            if (attemptRef.current !== attempt) return;
+            setError('Cô chưa chấm được bài, con thử lại nhé.');
+            setPhase('setup');
+        }
+    };
+
+    const begin = async () => {
+        cleanup();
+        const attempt = attemptRef.current;
+        setError(null);
+        setTurns([]);
+        setResult(null);
+        setInterviewQuestionCount(questionCount);
+        setPhase('connecting');
+        try {
+            const session = await startInterview(presentation, {
+                maxQuestions: questionCount,
+                speechRate,
+                onTurns: setTurns,
+                onSpeakingChange: setExaminerSpeaking,
+                onLevel: setMicLevel,
+                onFinished: finishInterview,
+                onError: (err) => {
+                    console.error('[Interview] Live session failed:', err);
+                    setError('Mất kết nối với cô Ly. Con bấm "Kết thúc" để chấm phần đã nói nhé.');
+                }
+            });
+            if (attemptRef.current !== attempt) {
+                session.stop();
+                return;
+            }
+            sessionRef.current = session;
+            startedAtRef.current = Date.now();
+            setPhase('talking');
+        } catch (err: any) {
+            console.error('[Interview] Could not start:', err);
+            cleanup();
+            setError(err?.name === 'NotAllowedError' ? 'Con cần cho phép dùng micro nhé.' : 'Không kết nối được với cô Ly, con thử lại nhé.');
+            setPhase('setup');
+        }
+    };
+
+    const handleClose = () => {
+        cleanup();
+        onClose();
+    };
+
+    if (!isOpen) return null;
+
+    const asked = Math.min(countQuestions(turns), questionCount);
+
+    const transcript = (
+        <div className="space-y-3">
+            {turns.filter(t => t.text.trim()).map((turn, i) => (
+                <div key={i} className={`flex ${turn.speaker === 'child' ? 'justify-end' : 'justify-start'}`}>
+                    <p className={`max-w-[80%] px-4 py-3 rounded-2xl text-sm font-medium ${turn.speaker === 'child'
+                        ? 'bg-blue-600 text-white rounded-br-md'
+                        : 'bg-slate-100 text-slate-700 rounded-bl-md'}`}>
+                        {turn.text.trim()}
+                    </p>
+                </div>
+            ))}
+            <div ref={transcriptEndRef} />
+        </div>
+    );
+
+    return (
+        <div className="fixed inset-0 z-[200] flex items-center justify-center p-4">
+            <div className="absolute inset-0 bg-black/60 backdrop-blur-sm animate-in fade-in duration-300" onClick={handleClose} />
+
+            <div className="relative bg-white rounded-3xl shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col animate-in zoom-in-95 slide-in-from-bottom-4 duration-300">
+                {/* Header */}
+                <div className="flex items-center justify-between px-8 py-6 border-b border-slate-100">
+                    <div className="flex items-center gap-4">
+                        <div className="bg-sky-100 p-3 rounded-2xl">
+                            <MessagesSquare className="text-sky-600" size={24} />
+                        </div>
+                        <div>
+                            <h2 className="text-xl font-black text-slate-800">Trò chuyện với cô Ly</h2>
+                            <p className="text-sm text-slate-400">
+                                {phase === 'finished' ? 'Kết quả phỏng vấn'
+                                    : phase === 'talking' ? `Câu hỏi ${Math.max(asked, 1)}/${questionCount}`
+                                        : `Chủ đề: ${presentation.theme}`}
+                            </p>
+                        </div>
+                    </div>
+                    <button onClick={handleClose} className="p-2 hover:bg-slate-100 rounded-xl transition-colors">
+                        <X size={20} className="text-slate-400" />
+                    </button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto px-8 py-6 space-y-6">
+                    {(phase === 'setup' || phase === 'connecting') && (
+                        <>
+                            <p className="text-lg font-bold text-slate-700 leading-snug">
+                                Cô Ly sẽ hỏi con vài câu về chủ đề con vừa thuyết trình. Con nghe cô hỏi xong rồi trả lời bằng tiếng Anh nhé!
+                            </p>
+                            <div>
+                                <p className="text-xs font-bold text-slate-400 uppercase mb-2">Số câu hỏi</p>
+                                <div className="flex gap-2">
+                                    {INTERVIEW_QUESTION_OPTIONS.map(count => (
+                                        <button
+                                            key={count}
+                                            onClick={() => setQuestionCount(count)}
+                                            disabled={phase === 'connecting'}
+                                            className={`flex-1 py-3 rounded-xl font-black transition-all ${questionCount === count ? 'bg-sky-600 text-white shadow-md' : 'bg-slate-50 text-slate-500 hover:bg-slate-100'}`}
+                                        >
+                                            {count} câu
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                            {error && <p className="text-center text-sm font-bold text-red-500">{error}</p>}
+                            <button
+                                onClick={begin}
+                                disabled={phase === 'connecting'}
+                                className="w-full py-4 bg-sky-600 text-white font-black rounded-2xl flex items-center justify-center gap-2 hover:bg-sky-700 transition-all disabled:opacity-60"
+                            >
+                                {phase === 'connecting'
+                                    ? <><Loader2 size={20} className="animate-spin" /> Đang gọi cô Ly...</>
+                                    : <><Mic size={20} /> Bắt đầu trò chuyện</>}
+                            </button>
+                        </>
+                    )}
+
+                    {(phase === 'talking' || phase === 'evaluating') && (
+                        <>
+                            {transcript}
+                            {phase === 'talking' && (
+                                <div className="flex flex-col items-center gap-4 pt-2">
+                                    {examinerSpeaking ? (
+                                        <p className="flex items-center gap-2 text-sm font-bold text-blue-600 animate-pulse">
+                                            <Volume2 size={18} /> Cô Ly đang nói...
+                                        </p>
+                                    ) : (
+                                        <>
+                                            <p className="flex items-center gap-2 text-sm font-bold text-red-500">
+                                                <Mic size={18} className="animate-pulse" /> Con trả lời nào!
+                                            </p>
+                                            <MicLevelMeter level={micLevel} warning={null} />
+                                        </>
+                                    )}
+                                    {error && <p className="text-center text-sm font-bold text-red-500">{error}</p>}
+                                    <button onClick={finishInterview} className="px-6 py-3 bg-red-600 text-white font-bold rounded-2xl flex items-center gap-2 hover:bg-red-700 transition-all">
+                                        <StopCircle size={18} /> Kết thúc
+                                    </button>
+                                </div>
+                            )}
+                            {phase === 'evaluating' && (
+                                <p className="text-center text-sm font-bold text-slate-400 animate-pulse">Cô Ly đang chấm bài...</p>
+                            )}
+                        </>
+                    )}
+
+                    {phase === 'finished' && result && (
+                        <>
+                            <div className="text-center">
+                                <Trophy className="text-amber-500 mx-auto mb-2" size={36} />
+                                <p className="text-4xl font-black text-slate-800">{result.score}/10</p>
+                                <p className="text-sm font-bold text-slate-600 italic mt-2">"{result.teacherPraise}"</p>
+                                <p className="text-sm text-slate-500 mt-1">{result.feedback}</p>
+                            </div>
+                            <div className="grid grid-cols-5 gap-2">
+                                {(Object.keys(INTERVIEW_LABELS) as (keyof InterviewScores)[]).map(key => (
+                                    <div key={key} className="text-center p-2 bg-sky-50 rounded-xl border border-sky-100">
+                                        <p className="text-lg">{INTERVIEW_LABELS[key].emoji}</p>
+                                        <p className="text-xl font-black text-sky-700">{result[key]}</p>
+                                        <p className="text-[10px] font-bold text-slate-400">{INTERVIEW_LABELS[key].label}</p>
+                                    </div>
+                                ))}
+                            </div>
+                            {result.suggestions.length > 0 && (
+                                <div className="bg-amber-50 rounded-2xl p-4 border border-amber-100 space-y-1">
+                                    <p className="text-xs font-bold text-amber-600 uppercase flex items-center gap-2">
+                                        <Lightbulb size={14} /> Gợi ý cải thiện
+                                    </p>
+                                    {result.suggestions.map((suggestion, i) => (
+                                        <p key={i} className="text-sm text-slate-600">• {suggestion}</p>
+                                    ))}
+                                </div>
+                            )}
+                            {transcript}
+                            <button onClick={handleClose} className="w-full py-4 bg-sky-600 text-white font-black rounded-2xl hover:bg-sky-700 transition-all">
+                                Xong
+                            </button>
+                        </>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default InterviewPractice;
@@ -0,0 +1,232 @@
+import React, { useState, useEffect } from 'react';
+import { RotateCcw, MessageCircle, Mic, AlertCircle, Lightbulb, FileText, Headphones, TrendingUp, Repeat, MessagesSquare, GraduationCap, Ear } from 'lucide-react';
+import { FreeSpeechScores, InterviewScores } from '../types';
+import { LessonRecord, getRecordedAttempts } from '../services/historyService';
+import { SHADOWING_PASS_ACCURACY } from '../services/shadowingService';
+import RecordingPlayer from './RecordingPlayer';
+import RecordingComparison from './RecordingComparison';
+import { INTERVIEW_LABELS } from './InterviewPractice';
+import { YLE_PARTS } from '../services/yleExamService';
+import { PRONUNCIATION_CATEGORIES } from '../services/pronunciationService';
+
+interface LessonDetailProps {
+    lesson: LessonRecord;
+    skillLabels: Record<string, { label: string; emoji: string }>;
+    onPractiseAgain?: (lesson: LessonRecord) => void;
+}
+
+const FREE_SPEECH_LABELS: Record<keyof FreeSpeechScores, { label: string; emoji: string }> = {
+    relevance: { label: 'Đúng tranh', emoji: '🖼️' },
+    range: { label: 'Vốn từ', emoji: '🌈' },
+    coherence: { label: 'Mạch lạc', emoji: '🔗' }
+};
+
+// Expanded view of one past lesson in the history panel
+const LessonDetail: React.FC<LessonDetailProps> = ({ lesson, skillLabels, onPractiseAgain }) => {
+    const { evaluation, presentation } = lesson;
+    const [attempts, setAttempts] = useState<LessonRecord[]>([]);
+
+    useEffect(() => {
+        if (!lesson.hasRecording) return;
+        getRecordedAttempts(lesson.theme, lesson.profileId, lesson.mode).then(setAttempts);
+    }, [lesson.id]);
+
+    const hasEarlierAttempt = attempts.some(a => a.date < lesson.date);
+
+    return (
+        <div className="px-4 pb-4 pt-2 border-t border-slate-50 bg-slate-50/50 animate-in slide-in-from-top-2 duration-200 space-y-4">
+            {lesson.shadowing ? (
+                <div className="bg-white rounded-xl p-4 border border-slate-100">
+                    <p className="text-xs font-bold text-orange-600 uppercase flex items-center gap-2 mb-2">
+                        <Repeat size={14} /> Nghe và nhắc lại từng câu
+                    </p>
+                    <div className="space-y-2">
+                        {lesson.shadowing.map((s, i) => (
+                            <div key={i} className="text-sm flex gap-3">
+                                <span className={`w-10 text-right font-black ${s.accuracy >= SHADOWING_PASS_ACCURACY ? 'text-green-600' : 'text-amber-500'}`}>{s.accuracy}%</span>
+                                <div className="flex-1">
+                                    <p className="text-slate-700">{s.sentence}</p>
+                                    {s.tips.map((t, j) => (
+                                        <p key={j} className="text-xs text-slate-400"><span className="font-bold text-slate-600">{t.word}</span> — {t.tip}</p>
+                                    ))}
+                                </div>
+                                <span className="text-xs text-slate-400">{s.attempts} lần</span>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            ) : lesson.exam ? (
+                <div className="bg-white rounded-xl p-4 border border-slate-100 space-y-2">
+                    <p className="text-xs font-bold text-emerald-600 uppercase flex items-center gap-2">
+                        <GraduationCap size={14} /> Thi thử {lesson.exam.level} · {lesson.exam.shields}/5 khiên
+                    </p>
+                    {lesson.exam.parts.map((part, i) => (
+                        <div key={part.part} className="text-sm flex gap-3">
+                            <span className="w-10 text-right font-black text-amber-500">{part.shields}/5</span>
+                            <div className="flex-1">
+                                <p className="font-bold text-slate-700">Phần {i + 1}: {YLE_PARTS[part.part].title}</p>
+                                <p className="text-xs text-slate-500">{part.comment}</p>
+                                <p className="text-xs italic text-slate-400">{part.transcript.trim() ? `"${part.transcript.trim()}"` : 'Không nói'}</p>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            ) : lesson.interview ? (
+                <div className="bg-white rounded-xl p-4 border border-slate-100 space-y-3">
+                    <p className="text-xs font-bold text-sky-600 uppercase flex items-center gap-2">
+                        <MessagesSquare size={14} /> Trò chuyện với cô Ly
+                    </p>
+                    <div className="grid grid-cols-5 gap-2">
+                        {(Object.keys(INTERVIEW_LABELS) as (keyof InterviewScores)[]).map(key => (
+                            <div key={key} className="text-center p-2 bg-sky-50 rounded-lg">
+                                <p className="text-lg">{INTERVIEW_LABELS[key].emoji}</p>
+                                <p className="text-xs font-bold text-slate-500">{INTERVIEW_LABELS[key].label}</p>
+                                <p className="font-black text-slate-700">{lesson.interview![key]}</p>
+                            </div>
+                        ))}
+                    </div>
+                    <p className="text-sm text-slate-600">{lesson.interview.feedback}</p>
+                    <div className="space-y-1 text-sm">
+                        {lesson.interview.turns.filter(t => t.text.trim()).map((turn, i) => (
+                            <p key={i} className={turn.speaker === 'child' ? 'text-blue-700' : 'text-slate-500'}>
+                                <span className="font-bold">{turn.speaker === 'child' ? lesson.childName : 'Cô Ly'}:</span> {turn.text.trim()}
+                            </p>
+                        ))}
+                    </div>
+                </div>
+            ) : (
+                <div className="grid grid-cols-3 gap-3">
+                    {Object.entries(skillLabels).map(([key, { label, emoji }]) => (
+                        <div key={key} className="text-center p-2 bg-white rounded-lg">
+                            <p className="text-lg">{emoji}</p>
+                            <p className="text-xs font-bold text-slate-500">{label}</p>
+                            <p className="font-black text-slate-700">{lesson[key as keyof LessonRecord] as number}</p>
+                        </div>
+                    ))}
+                    {lesson.mode === 'picture' && evaluation && (Object.keys(FREE_SPEECH_LABELS) as (keyof FreeSpeechScores)[]).map(key => (
+                        <div key={key} className="text-center p-2 bg-white rounded-lg border border-indigo-100">
+                            <p className="text-lg">{FREE_SPEECH_LABELS[key].emoji}</p>
+                            <p className="text-xs font-bold text-indigo-500">{FREE_SPEECH_LABELS[key].label}</p>
+                            <p className="font-black text-slate-700">{evaluation[key] ?? 0}</p>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {lesson.hasRecording && (
+                <div className="bg-white rounded-xl p-4 border border-slate-100">
+                    <p className="text-xs font-bold text-purple-600 uppercase flex items-center gap-2 mb-2">
+                        {hasEarlierAttempt ? <><TrendingUp size={14} /> Trước đây và bây giờ</> : <><Headphones size={14} /> Bản thu của con</>}
+                    </p>
+                    {hasEarlierAttempt
+                        ? <RecordingComparison current={lesson} attempts={attempts} />
+                        : <RecordingPlayer lessonId={lesson.id} />}
+                </div>
+            )}
+
+            {evaluation && (
+                <>
+                    <div className="bg-white rounded-xl p-4 border border-slate-100">
+                        <p className="text-xs font-bold text-blue-600 uppercase flex items-center gap-2 mb-2">
+                            <MessageCircle size={14} /> Cô Ly nhận xét
+                        </p>
+                        {evaluation.teacherPraise && (
+                            <p className="text-sm font-bold text-slate-700 italic mb-1">"{evaluation.teacherPraise}"</p>
+                        )}
+                        <p className="text-sm text-slate-600">{evaluation.feedback}</p>
+                        {evaluation.scoreNotes?.map((note, i) => (
+                            <p key={i} className="text-xs font-bold text-amber-600 mt-2">{note}</p>
+                        ))}
+                    </div>
+
+                    <div className="bg-white rounded-xl p-4 border border-slate-100">
+                        <p className="text-xs font-bold text-purple-600 uppercase flex items-center gap-2 mb-2">
+                            <Mic size={14} /> Con đã nói
+                            {evaluation.transcriptEngine && (
+                                <span className="normal-case font-medium text-slate-400">· {evaluation.transcriptEngine}</span>
+                            )}
+                        </p>
+                        <p className="text-sm text-slate-600 italic">
+                            {evaluation.transcript?.trim() ? `"${evaluation.transcript.trim()}"` : 'Không có bản ghi lời nói'}
+                        </p>
+                        {evaluation.reading && (
+                            <p className="text-xs font-bold text-green-600 mt-2">
+                                Đọc đúng {evaluation.reading.accuracy}% · {evaluation.reading.wcpm} từ đúng/phút
+                            </p>
+                        )}
+                    </div>
+
+                    {evaluation.mistakes?.length > 0 && (
+                        <div className="bg-red-50/50 rounded-xl p-4 border border-red-100">
+                            <p className="text-xs font-bold text-red-600 uppercase flex items-center gap-2 mb-2">
+                                <AlertCircle size={14} /> Lỗi cần sửa
+                            </p>
+                            <div className="space-y-2">
+                                {evaluation.mistakes.map((m, i) => (
+                                    <div key={i} className="text-sm">
+                                        <span className="font-black text-slate-800">{m.word}</span>
+                                        <span className="text-slate-500"> — {m.tip}</span>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+
+                    {evaluation.pronunciationErrors && evaluation.pronunciationErrors.length > 0 && (
+                        <div className="bg-pink-50/50 rounded-xl p-4 border border-pink-100">
+                            <p className="text-xs font-bold text-pink-600 uppercase flex items-center gap-2 mb-2">
+                                <Ear size={14} /> Lỗi phát âm
+                            </p>
+                            <div className="space-y-2">
+                                {evaluation.pronunciationErrors.map((e, i) => (
+                                    <div key={i} className="text-sm">
+                                        <span className="font-black text-slate-800">{e.word}</span>
+                                        <span className="text-pink-500 font-bold"> /{e.target}/ → {e.produced ? `/${e.produced}/` : 'mất âm'}</span>
+                                        <span className="text-slate-500"> — {PRONUNCIATION_CATEGORIES[e.category].label}: {e.tip}</span>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+
+                    {evaluation.suggestions?.length > 0 && (
+                        <div className="bg-white rounded-xl p-4 border border-slate-100">
+                            <p className="text-xs font-bold text-amber-600 uppercase flex items-center gap-2 mb-2">
+                                <Lightbulb size={14} /> Gợi ý cải thiện
+                            </p>
+                            <ul className="space-y-1 text-sm text-slate-600 list-disc pl-5">
+                                {evaluation.suggestions.map((suggestion, i) => <li key={i}>{suggestion}</li>)}
+                            </ul>
+                        </div>
+                    )}
+                </>
+            )}
+
+            {presentation && (
+                <div className="bg-white rounded-xl p-4 border border-slate-100">
+                    <p className="text-xs font-bold text-green-600 uppercase flex items-center gap-2 mb-2">
+                        <FileText size={14} /> {lesson.mode === 'picture' ? 'Bài mẫu tả tranh' : 'Bài đọc'}
+                    </p>
+                    <div className="text-sm text-slate-700 space-y-2">
+                        <p className="italic">{presentation.intro}</p>
+                        <ul className="list-disc pl-5 space-y-1">
+                            {presentation.points.map((point, i) => <li key={i}>{point}</li>)}
+                        </ul>
+                        <p className="italic">{presentation.conclusion}</p>
+                    </div>
+                </div>
+            )}
+
+            {presentation && onPractiseAgain && (
+                <button
+                    onClick={() => onPractiseAgain(lesson)}
+                    className="w-full py-3 bg-indigo-600 text-white font-bold rounded-xl hover:bg-indigo-700 transition-all flex items-center justify-center gap-2"
+                >
+                    <RotateCcw size={16} /> Luyện lại bài này
+                </button>
+            )}
+        </div>
+    );
+};
+
+export default LessonDetail;
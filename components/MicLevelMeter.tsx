@@ -0,0 +1,45 @@
+import React from 'react';
+import { MicOff, AlertTriangle } from 'lucide-react';
+
+export type MicWarning = 'silent' | 'clipping' | null;
+
+interface MicLevelMeterProps {
+    level: number; // 0-1
+    warning: MicWarning;
+}
+
+const BAR_COUNT = 12;
+
+// Live microphone volume bars with a hint when the mic is silent or too loud
+const MicLevelMeter: React.FC<MicLevelMeterProps> = ({ level, warning }) => {
+    const lit = Math.round(level * BAR_COUNT);
+
+    return (
+        <div className="flex items-center gap-3">
+            <div className="flex items-end gap-0.5 h-6">
+                {Array.from({ length: BAR_COUNT }).map((_, i) => (
+                    <div
+                        key={i}
+                        className={`w-1.5 rounded-full transition-all duration-75 ${i < lit
+                            ? i >= BAR_COUNT - 2 ? 'bg-red-500' : i >= BAR_COUNT - 4 ? 'bg-amber-400' : 'bg-green-500'
+                            : 'bg-slate-200'
+                            }`}
+                        style={{ height: `${30 + (i / BAR_COUNT) * 70}%` }}
+                    />
+                ))}
+            </div>
+            {warning === 'silent' && (
+                <span className="flex items-center gap-1 text-xs font-bold text-red-500">
+                    <MicOff size={14} /> Micro không thu được tiếng
+                </span>
+            )}
+            {warning === 'clipping' && (
+                <span className="flex items-center gap-1 text-xs font-bold text-amber-600">
+                    <AlertTriangle size={14} /> Con nói nhỏ hơn hoặc để micro xa hơn nhé
+                </span>
+            )}
+        </div>
+    );
+};
+
+export default MicLevelMeter;
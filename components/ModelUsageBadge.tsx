@@ -0,0 +1,36 @@
+import React, { useState, useEffect } from 'react';
+import { Cpu } from 'lucide-react';
+import { ModelTask, ModelUsage, getLastModelUsage, getModelName, subscribeModelUsage } from '../services/modelRouter';
+
+const TASK_LABELS: Record<ModelTask, string> = {
+    script: 'Soạn bài',
+    evaluation: 'Chấm điểm',
+    wordMeaning: 'Tra từ',
+    quiz: 'Câu hỏi đọc hiểu',
+    transcription: 'Nhận dạng giọng nói'
+};
+
+// Shows which model answered the most recent AI call
+const ModelUsageBadge: React.FC = () => {
+    const [usage, setUsage] = useState<ModelUsage | null>(getLastModelUsage());
+
+    useEffect(() => subscribeModelUsage(setUsage), []);
+
+    if (!usage) return null;
+
+    return (
+        <div
+            className={`hidden lg:flex items-center gap-1.5 px-3 py-1.5 rounded-full text-[11px] font-bold border ${usage.isFallback
+                ? 'bg-amber-50 text-amber-600 border-amber-100'
+                : 'bg-slate-50 text-slate-500 border-slate-100'
+                }`}
+            title={`${TASK_LABELS[usage.task]}: ${usage.model}`}
+        >
+            <Cpu size={12} />
+            {getModelName(usage.model)}
+            {usage.isFallback && <span className="uppercase">• dự phòng</span>}
+        </div>
+    );
+};
+
+export default ModelUsageBadge;
@@ -0,0 +1,57 @@
+import React from 'react';
+import { ImageIcon, HelpCircle } from 'lucide-react';
+import { CEFRLevel } from '../types';
+import { YLE_LEVELS } from '../constants';
+
+interface PictureTaskPromptProps {
+    level: CEFRLevel;
+}
+
+const BASIC_QUESTIONS = [
+    'What can you see in the picture?',
+    'What colour is it?',
+    'How many ... can you see?',
+    'What are they doing?'
+];
+
+const EXTENDED_QUESTIONS = [
+    'Where is this? What is happening?',
+    'What are the people or animals doing, and why?',
+    'How do they feel? How do you know?',
+    'What might happen next?',
+    'Would you like to be there? Why?'
+];
+
+// Instructions and guiding questions for the "describe the picture" task (no script shown)
+const PictureTaskPrompt: React.FC<PictureTaskPromptProps> = ({ level }) => {
+    const questions = (YLE_LEVELS as CEFRLevel[]).includes(level) ? BASIC_QUESTIONS : EXTENDED_QUESTIONS;
+
+    return (
+        <div className="flex-1 space-y-8">
+            <div>
+                <h4 className="text-indigo-600 font-black text-lg mb-2 flex items-center gap-2">
+                    <ImageIcon size={20} /> Tả bức tranh
+                </h4>
+                <p className="text-xl font-bold text-slate-700 leading-snug pl-4">
+                    Con hãy nhìn tranh và tự nói bằng tiếng Anh về những gì con thấy. Không có bài đọc mẫu đâu, con cứ nói tự nhiên nhé!
+                </p>
+            </div>
+            <div>
+                <h4 className="text-amber-600 font-black text-lg mb-4 flex items-center gap-2">
+                    <HelpCircle size={20} /> Gợi ý
+                </h4>
+                <ul className="space-y-3 pl-4">
+                    {questions.map((question, i) => (
+                        <li key={i} className="flex items-start gap-4">
+                            <span className="w-3 h-3 rounded-full mt-2 shrink-0 bg-amber-400"></span>
+                            <span className="text-xl font-bold text-slate-600 italic">{question}</span>
+                        </li>
+                    ))}
+                </ul>
+            </div>
+            <p className="text-sm font-bold text-slate-400 pl-4">Bài mẫu của cô Ly sẽ hiện sau khi chấm điểm.</p>
+        </div>
+    );
+};
+
+export default PictureTaskPrompt;
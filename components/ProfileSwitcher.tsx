@@ -0,0 +1,124 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { ChevronDown, Check, Pencil, UserPlus } from 'lucide-react';
+import { LearnerProfile, getAvatarUrl } from '../services/profileService';
+
+interface ProfileSwitcherProps {
+    profiles: LearnerProfile[];
+    activeProfile: LearnerProfile;
+    onSelect: (id: string) => void;
+    onCreate: (name: string) => void;
+    onRename: (id: string, name: string) => void;
+}
+
+const ProfileSwitcher: React.FC<ProfileSwitcherProps> = ({ profiles, activeProfile, onSelect, onCreate, onRename }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [newName, setNewName] = useState('');
+    const [editingName, setEditingName] = useState<string | null>(null);
+    const containerRef = useRef<HTMLDivElement>(null);
+
+    // Close dropdown when clicking outside
+    useEffect(() => {
+        const handleClickOutside = (e: MouseEvent) => {
+            if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+                setIsOpen(false);
+                setEditingName(null);
+            }
+        };
+
+        if (isOpen) {
+            document.addEventListener('click', handleClickOutside);
+            return () => document.removeEventListener('click', handleClickOutside);
+        }
+    }, [isOpen]);
+
+    const handleCreate = () => {
+        if (!newName.trim()) return;
+        onCreate(newName.trim());
+        setNewName('');
+        setIsOpen(false);
+    };
+
+    const handleRename = () => {
+        if (editingName && editingName.trim()) {
+            onRename(activeProfile.id, editingName.trim());
+        }
+        setEditingName(null);
+    };
+
+    return (
+        <div ref={containerRef} className="relative">
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className="flex items-center gap-2 font-bold text-slate-700"
+                title="Đổi học sinh"
+            >
+                <img src={getAvatarUrl(activeProfile)} alt="avatar" className="w-7 h-7 rounded-full bg-white border border-blue-200" />
+                <span className="max-w-[6rem] truncate">{activeProfile.name}</span>
+                <ChevronDown size={14} className="text-slate-400" />
+            </button>
+
+            {isOpen && (
+                <div className="absolute right-0 top-full mt-3 w-72 bg-white rounded-2xl shadow-2xl border border-slate-100 overflow-hidden z-[100] animate-in fade-in zoom-in-95 duration-200">
+                    <div className="p-2 max-h-72 overflow-y-auto">
+                        {profiles.map(profile => {
+                            const isActive = profile.id === activeProfile.id;
+                            return (
+                                <div
+                                    key={profile.id}
+                                    className={`flex items-center gap-3 p-2 rounded-xl ${isActive ? 'bg-blue-50' : 'hover:bg-slate-50 cursor-pointer'}`}
+                                    onClick={() => { if (!isActive) { onSelect(profile.id); setIsOpen(false); } }}
+                                >
+                                    <img src={getAvatarUrl(profile)} alt="avatar" className="w-9 h-9 rounded-full bg-white border border-slate-100" />
+                                    <div className="flex-1 min-w-0">
+                                        {isActive && editingName !== null ? (
+                                            <input
+                                                autoFocus
+                                                value={editingName}
+                                                onChange={e => setEditingName(e.target.value)}
+                                                onKeyDown={e => { if (e.key === 'Enter') handleRename(); if (e.key === 'Escape') setEditingName(null); }}
+                                                onBlur={handleRename}
+                                                className="w-full px-2 py-1 rounded-lg border border-blue-200 outline-none font-bold text-slate-700"
+                                            />
+                                        ) : (
+                                            <p className="font-bold text-slate-700 truncate">{profile.name}</p>
+                                        )}
+                                        <p className="text-[10px] font-bold text-blue-500 uppercase">{profile.level}</p>
+                                    </div>
+                                    {isActive && editingName === null && (
+                                        <button
+                                            onClick={(e) => { e.stopPropagation(); setEditingName(profile.name); }}
+                                            className="p-1.5 text-slate-300 hover:text-blue-600 hover:bg-white rounded-lg transition-all"
+                                            title="Đổi tên"
+                                        >
+                                            <Pencil size={14} />
+                                        </button>
+                                    )}
+                                    {isActive && <Check size={16} className="text-blue-600" />}
+                                </div>
+                            );
+                        })}
+                    </div>
+                    <div className="border-t border-slate-100 p-3 flex items-center gap-2">
+                        <input
+                            value={newName}
+                            onChange={e => setNewName(e.target.value)}
+                            onKeyDown={e => { if (e.key === 'Enter') handleCreate(); }}
+                            placeholder="Tên học sinh mới"
+                            className="flex-1 px-3 py-2 rounded-xl bg-slate-50 border border-slate-100 outline-none focus:border-blue-300 text-sm font-bold"
+                        />
+                        <button
+                            onClick={handleCreate}
+                            disabled={!newName.trim()}
+                            className="p-2 bg-blue-600 text-white rounded-xl disabled:opacity-30 transition-all"
+                            title="Thêm học sinh"
+                        >
+                            <UserPlus size={16} />
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ProfileSwitcher;
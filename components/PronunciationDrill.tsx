@@ -0,0 +1,271 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Ear, X, Volume2, Mic, StopCircle, CheckCircle2, XCircle, ChevronRight, Trophy } from 'lucide-react';
+import { LearnerProfile } from '../services/profileService';
+import { speakWord } from '../services/geminiService';
+import { getLessonHistory } from '../services/historyService';
+import { SentenceRecording, recordSentence } from '../services/shadowingService';
+import { DrillItem, PRONUNCIATION_CATEGORIES, buildMinimalPairDrill } from '../services/pronunciationService';
+import MicLevelMeter from './MicLevelMeter';
+import { useCancellableAttempt } from '../hooks/useCancellableAttempt';
+
+interface PronunciationDrillProps {
+    isOpen: boolean;
+    onClose: () => void;
+    profile: LearnerProfile;
+}
+
+type Phase = 'loading' | 'idle' | 'listening' | 'recording' | 'checking' | 'feedback' | 'finished';
+
+// Pause between the words of a minimal pair so the child hears them apart
+const PAIR_GAP_MS = 1200;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+const normalize = (text: string) => text.toLowerCase().replace(/[^a-z'\s]/g, ' ').split(/\s+/).filter(Boolean);
+
+// Minimal-pair listen-and-repeat drill built from the child's recurring pronunciation errors
+const PronunciationDrill: React.FC<PronunciationDrillProps> = ({ isOpen, onClose, profile }) => {
+    const [items, setItems] = useState<DrillItem[]>([]);
+    const [fromHistory, setFromHistory] = useState(false);
+    const [index, setIndex] = useState(0);
+    const [phase, setPhase] = useState<Phase>('loading');
+    const [heard, setHeard] = useState('');
+    const [results, setResults] = useState<boolean[]>([]);
+    const [micLevel, setMicLevel] = useState(0);
+    const [error, setError] = useState<string | null>(null);
+
+    const recordingRef = useRef<SentenceRecording | null>(null);
+    const attempt = useCancellableAttempt();
+
+    const cleanup = () => {
+        attempt.cancel();
+        recordingRef.current?.cancel();
+        recordingRef.current = null;
+        setMicLevel(0);
+    };
+
+    useEffect(() => {
+        if (!isOpen) return;
+        setPhase('loading');
+        setIndex(0);
+        setResults([]);
+        setError(null);
+        getLessonHistory(profile.id).then(lessons => {
+            const drill = buildMinimalPairDrill(lessons.map(l => l.evaluation));
+            setItems(drill.items);
+            setFromHistory(drill.fromHistory);
+            setPhase('idle');
+        });
+        return cleanup;
+    }, [isOpen, profile.id]);
+
+    const item = items[index];
+
+    const playPair = async () => {
+        cleanup();
+        const isCancelled = attempt.begin();
+        setPhase('listening');
+        for (const word of [item.target, item.contrast, item.target]) {
+            await speakWord(word);
+            await wait(PAIR_GAP_MS);
+            if (isCancelled()) return;
+        }
+        setPhase('idle');
+    };
+
+    const finishAttempt = async () => {
+        const recording = recordingRef.current;
+        if (!recording) return;
+        recordingRef.current = null;
+        setMicLevel(0);
+        setPhase('checking');
+        const transcript = await recording.stop();
+        const spoken = normalize(transcript);
+        const correct = spoken.includes(item.target) && !spoken.includes(item.contrast);
+        setHeard(transcript.trim());
+        setResults(prev => {
+            const next = [...prev];
+            // Counts as said right if any attempt was right
+            next[index] = next[index] || correct;
+            return next;
+        });
+        setPhase('feedback');
+    };
+
+    const repeatWord = async () => {
+        cleanup();
+        const isCancelled = attempt.begin();
+        setError(null);
+        setHeard('');
+        try {
+            setPhase('recording');
+            const recording = await recordSentence(item.target, { onLevel: setMicLevel, onDone: finishAttempt });
+            if (isCancelled()) {
+                recording.cancel();
+                return;
+            }
+            recordingRef.current = recording;
+        } catch (err: any) {
+            console.error('[Drill] Recording failed:', err);
+            cleanup();
+            setError(err?.name === 'NotAllowedError' ? 'Con cần cho phép dùng micro nhé.' : 'Có lỗi xảy ra, con thử lại nhé.');
+            setPhase('idle');
+        }
+    };
+
+    const goNext = () => {
+        cleanup();
+        setHeard('');
+        if (index + 1 < items.length) {
+            setIndex(index + 1);
+            setPhase('idle');
+        } else {
+            setPhase('finished');
+        }
+    };
+
+    const handleClose = () => {
+        cleanup();
+        onClose();
+    };
+
+    if (!isOpen) return null;
+
+    const lastCorrect = results[index];
+
+    return (
+        <div className="fixed inset-0 z-[210] flex items-center justify-center p-4">
+            <div className="absolute inset-0 bg-black/60 backdrop-blur-sm animate-in fade-in duration-300" onClick={handleClose} />
+
+            <div className="relative bg-white rounded-3xl shadow-2xl w-full max-w-xl max-h-[90vh] flex flex-col animate-in zoom-in-95 slide-in-from-bottom-4 duration-300">
+                {/* Header */}
+                <div className="flex items-center justify-between px-8 py-6 border-b border-slate-100">
+                    <div className="flex items-center gap-4">
+                        <div className="bg-pink-100 p-3 rounded-2xl">
+                            <Ear className="text-pink-600" size={24} />
+                        </div>
+                        <div>
+                            <h2 className="text-xl font-black text-slate-800">Luyện cặp từ dễ nhầm</h2>
+                            <p className="text-sm text-slate-400">
+                                {phase === 'finished' ? 'Kết quả' : item ? `${index + 1}/${items.length} · ${PRONUNCIATION_CATEGORIES[item.category].label}` : ''}
+                            </p>
+                        </div>
+                    </div>
+                    <button onClick={handleClose} className="p-2 hover:bg-slate-100 rounded-xl transition-colors">
+                        <X size={20} className="text-slate-400" />
+                    </button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto px-8 py-6 space-y-6">
+                    {phase === 'loading' && (
+                        <p className="text-center text-sm font-bold text-slate-400 animate-pulse">Cô đang xem lại các bài của con...</p>
+                    )}
+
+                    {item && phase !== 'loading' && phase !== 'finished' && (
+                        <>
+                            {index === 0 && phase === 'idle' && !heard && (
+                                <p className="text-sm font-bold text-slate-500 bg-slate-50 rounded-xl p-3">
+                                    {fromHistory
+                                        ? 'Cô chọn những âm con hay đọc nhầm trong các bài trước.'
+                                        : 'Con chưa có lỗi nào lặp lại, cô chọn những âm các bạn nhỏ Việt Nam hay nhầm nhé.'}
+                                </p>
+                            )}
+
+                            <div className="flex items-center justify-center gap-6">
+                                <div className="text-center">
+                                    <p className="text-4xl font-black text-pink-600">{item.target}</p>
+                                    <p className="text-xs font-bold text-slate-400 mt-1">Con nói từ này</p>
+                                </div>
+                                <span className="text-slate-300 font-black">vs</span>
+                                <div className="text-center">
+                                    <p className="text-4xl font-black text-slate-300">{item.contrast}</p>
+                                    <p className="text-xs font-bold text-slate-400 mt-1">Không phải từ này</p>
+                                </div>
+                            </div>
+
+                            <p className="text-sm text-slate-500 text-center">{PRONUNCIATION_CATEGORIES[item.category].tip}</p>
+
+                            {phase === 'listening' && (
+                                <p className="flex items-center justify-center gap-2 text-sm font-bold text-blue-600 animate-pulse">
+                                    <Volume2 size={18} /> Con nghe hai từ khác nhau thế nào nhé...
+                                </p>
+                            )}
+
+                            {phase === 'recording' && (
+                                <div className="flex flex-col items-center gap-4">
+                                    <p className="flex items-center gap-2 text-sm font-bold text-red-500">
+                                        <Mic size={18} className="animate-pulse" /> Con nói "{item.target}" nào!
+                                    </p>
+                                    <MicLevelMeter level={micLevel} warning={null} />
+                                    <button onClick={finishAttempt} className="px-6 py-3 bg-red-600 text-white font-bold rounded-2xl flex items-center gap-2 hover:bg-red-700 transition-all">
+                                        <StopCircle size={18} /> Xong
+                                    </button>
+                                </div>
+                            )}
+
+                            {phase === 'checking' && (
+                                <p className="text-center text-sm font-bold text-slate-400 animate-pulse">Cô đang nghe lại...</p>
+                            )}
+
+                            {phase === 'feedback' && (
+                                <div className="text-center">
+                                    {lastCorrect ? (
+                                        <p className="flex items-center justify-center gap-2 text-lg font-black text-green-600">
+                                            <CheckCircle2 size={22} /> Đúng rồi!
+                                        </p>
+                                    ) : (
+                                        <p className="flex items-center justify-center gap-2 text-lg font-black text-amber-500">
+                                            <XCircle size={22} /> {heard ? `Cô nghe thành "${heard}"` : 'Cô chưa nghe thấy con nói'}
+                                        </p>
+                                    )}
+                                </div>
+                            )}
+
+                            {error && <p className="text-center text-sm font-bold text-red-500">{error}</p>}
+
+                            {(phase === 'idle' || phase === 'feedback') && (
+                                <div className="flex gap-3">
+                                    <button onClick={playPair} className="flex-1 py-4 bg-blue-50 text-blue-600 font-black rounded-2xl flex items-center justify-center gap-2 hover:bg-blue-100 transition-all">
+                                        <Volume2 size={20} /> Nghe
+                                    </button>
+                                    <button onClick={repeatWord} className="flex-1 py-4 bg-pink-500 text-white font-black rounded-2xl flex items-center justify-center gap-2 hover:bg-pink-600 transition-all">
+                                        <Mic size={20} /> {phase === 'feedback' ? 'Thử lại' : 'Nhắc lại'}
+                                    </button>
+                                    {phase === 'feedback' && (
+                                        <button onClick={goNext} className="flex-1 py-4 bg-slate-100 text-slate-600 font-black rounded-2xl flex items-center justify-center gap-2 hover:bg-slate-200 transition-all">
+                                            {index + 1 < items.length ? 'Tiếp' : 'Xong'} <ChevronRight size={20} />
+                                        </button>
+                                    )}
+                                </div>
+                            )}
+                        </>
+                    )}
+
+                    {phase === 'finished' && (
+                        <div className="space-y-4">
+                            <div className="text-center">
+                                <Trophy className="text-amber-500 mx-auto mb-2" size={36} />
+                                <p className="text-4xl font-black text-slate-800">{results.filter(Boolean).length}/{items.length}</p>
+                                <p className="text-sm text-slate-400">từ con nói đúng</p>
+                            </div>
+                            <div className="space-y-2">
+                                {items.map((it, i) => (
+                                    <div key={i} className="flex items-center gap-3 p-3 bg-slate-50 rounded-xl text-sm">
+                                        {results[i] ? <CheckCircle2 size={18} className="text-green-500" /> : <XCircle size={18} className="text-amber-400" />}
+                                        <span className="font-black text-slate-700">{it.target}</span>
+                                        <span className="text-slate-400">/ {it.contrast}</span>
+                                        <span className="ml-auto text-xs text-slate-400">{PRONUNCIATION_CATEGORIES[it.category].label}</span>
+                                    </div>
+                                ))}
+                            </div>
+                            <button onClick={handleClose} className="w-full py-4 bg-pink-500 text-white font-black rounded-2xl hover:bg-pink-600 transition-all">
+                                Xong
+                            </button>
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default PronunciationDrill;
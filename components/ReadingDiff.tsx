@@ -0,0 +1,92 @@
+import React from 'react';
+import { Target } from 'lucide-react';
+import { PresentationData } from '../types';
+import { ReadingAlignment, ScriptWordStatus, getSectionWordOffsets } from '../services/alignmentService';
+import { InteractiveText } from './VocabularyWord';
+
+interface ReadingDiffProps {
+    presentation: PresentationData;
+    alignment: ReadingAlignment;
+    onGetMeaning: (word: string) => Promise<{ meaning: string; phonetic: string; example: string }>;
+    onSpeak: (word: string) => void;
+}
+
+const STATUS_STYLES: Record<ScriptWordStatus, { className: string; label: string; swatch: string }> = {
+    read: { className: 'text-green-700', label: 'Đọc đúng', swatch: 'bg-green-500' },
+    substituted: { className: 'bg-amber-100 text-amber-800', label: 'Đọc sai', swatch: 'bg-amber-400' },
+    skipped: { className: 'text-slate-300 line-through decoration-red-400', label: 'Bỏ sót', swatch: 'bg-red-400' }
+};
+
+// Colour-coded script showing which words the child read, missed or changed
+const ReadingDiff: React.FC<ReadingDiffProps> = ({ presentation, alignment, onGetMeaning, onSpeak }) => {
+    const { stats, scriptWords, steps } = alignment;
+    const getWordClassName = (index: number) => STATUS_STYLES[scriptWords[index] || 'read'].className;
+
+    const offsets = getSectionWordOffsets(presentation.intro, presentation.points);
+
+    const substitutions = steps.filter(s => s.op === 'substituted');
+    const insertions = steps.filter(s => s.op === 'inserted').map(s => s.spoken);
+
+    return (
+        <div className="space-y-6">
+            <div className="flex items-center justify-between flex-wrap gap-4">
+                <h4 className="text-2xl font-black text-slate-800 flex items-center gap-3"><Target className="text-green-500" size={28} /> Con đọc bài thế nào?</h4>
+                <div className="flex gap-3">
+                    <div className="px-4 py-2 bg-green-50 rounded-2xl border border-green-100 text-center">
+                        <p className="text-xl font-black text-green-600">{stats.accuracy}%</p>
+                        <p className="text-[8px] font-bold text-slate-400 uppercase tracking-widest">Chính xác</p>
+                    </div>
+                    <div className="px-4 py-2 bg-blue-50 rounded-2xl border border-blue-100 text-center">
+                        <p className="text-xl font-black text-blue-600">{stats.wcpm}</p>
+                        <p className="text-[8px] font-bold text-slate-400 uppercase tracking-widest">Từ đúng/phút</p>
+                    </div>
+                </div>
+            </div>
+
+            <div className="flex gap-4 flex-wrap text-xs font-bold text-slate-500">
+                {(Object.keys(STATUS_STYLES) as ScriptWordStatus[]).map(status => (
+                    <span key={status} className="flex items-center gap-1.5">
+                        <span className={`w-2.5 h-2.5 rounded-full ${STATUS_STYLES[status].swatch}`}></span>
+                        {STATUS_STYLES[status].label}
+                    </span>
+                ))}
+                <span className="text-slate-400">
+                    {stats.wordsCorrect}/{stats.totalWords} từ · {stats.skipped} bỏ sót · {stats.substituted} sai · {stats.inserted} thêm
+                </span>
+            </div>
+
+            <div className="bg-slate-50 p-8 rounded-[2rem] border border-slate-100 text-xl font-bold leading-relaxed space-y-4">
+                <p className="italic">
+                    <InteractiveText text={presentation.intro} onGetMeaning={onGetMeaning} onSpeak={onSpeak} getWordClassName={getWordClassName} />
+                </p>
+                <ul className="space-y-2 pl-4 list-disc">
+                    {presentation.points.map((point, i) => (
+                        <li key={i}>
+                            <InteractiveText text={point} onGetMeaning={onGetMeaning} onSpeak={onSpeak} wordOffset={offsets.points[i]} getWordClassName={getWordClassName} />
+                        </li>
+                    ))}
+                </ul>
+                <p className="italic">
+                    <InteractiveText text={presentation.conclusion} onGetMeaning={onGetMeaning} onSpeak={onSpeak} wordOffset={offsets.conclusion} getWordClassName={getWordClassName} />
+                </p>
+            </div>
+
+            {(substitutions.length > 0 || insertions.length > 0) && (
+                <div className="flex flex-wrap gap-2 text-sm font-bold">
+                    {substitutions.map((s, i) => (
+                        <span key={`s-${i}`} className="px-3 py-1 rounded-full bg-amber-50 border border-amber-100 text-amber-700">
+                            {s.expected} → <span className="italic">{s.spoken}</span>
+                        </span>
+                    ))}
+                    {insertions.length > 0 && (
+                        <span className="px-3 py-1 rounded-full bg-slate-50 border border-slate-100 text-slate-500">
+                            Nói thêm: <span className="italic">{insertions.join(', ')}</span>
+                        </span>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ReadingDiff;
@@ -0,0 +1,58 @@
+import React, { useState, useEffect } from 'react';
+import { ArrowRight } from 'lucide-react';
+import { LessonRecord } from '../services/historyService';
+import RecordingPlayer from './RecordingPlayer';
+
+interface RecordingComparisonProps {
+    current: LessonRecord;
+    attempts: LessonRecord[]; // Recorded attempts on the same theme, oldest first
+}
+
+const formatDate = (iso: string) => new Date(iso).toLocaleDateString('vi-VN');
+
+// "Then vs now": an earlier attempt next to the selected one so progress can be heard
+const RecordingComparison: React.FC<RecordingComparisonProps> = ({ current, attempts }) => {
+    const earlier = attempts.filter(a => a.id !== current.id && a.date < current.date);
+    const [thenId, setThenId] = useState<string | undefined>(earlier[0]?.id);
+
+    useEffect(() => {
+        if (!earlier.some(a => a.id === thenId)) setThenId(earlier[0]?.id);
+    }, [current.id, attempts]);
+
+    const then = earlier.find(a => a.id === thenId);
+    if (!then) return null;
+
+    const diff = Math.round((current.score - then.score) * 10) / 10;
+
+    return (
+        <div className="space-y-3">
+            {earlier.length > 1 && (
+                <select
+                    value={then.id}
+                    onChange={e => setThenId(e.target.value)}
+                    className="w-full px-3 py-2 rounded-xl bg-slate-50 border border-slate-100 text-sm font-bold text-slate-600 outline-none"
+                >
+                    {earlier.map(a => (
+                        <option key={a.id} value={a.id}>{formatDate(a.date)} — {a.score.toFixed(1)} điểm</option>
+                    ))}
+                </select>
+            )}
+            <div className="grid grid-cols-1 sm:grid-cols-[1fr_auto_1fr] gap-3 items-center">
+                <div className="bg-slate-50 rounded-xl p-3 space-y-2">
+                    <p className="text-xs font-bold text-slate-500">Trước đây · {formatDate(then.date)} · {then.score.toFixed(1)}</p>
+                    <RecordingPlayer lessonId={then.id} />
+                </div>
+                <ArrowRight size={18} className="hidden sm:block text-slate-300 mx-auto" />
+                <div className="bg-purple-50 rounded-xl p-3 space-y-2">
+                    <p className="text-xs font-bold text-purple-600">Bây giờ · {formatDate(current.date)} · {current.score.toFixed(1)}</p>
+                    <RecordingPlayer lessonId={current.id} />
+                </div>
+            </div>
+            <p className={`text-xs font-bold text-center ${diff > 0 ? 'text-green-600' : diff < 0 ? 'text-red-500' : 'text-slate-400'}`}>
+                {diff > 0 ? `Tiến bộ +${diff} điểm` : diff < 0 ? `Giảm ${Math.abs(diff)} điểm` : 'Điểm không đổi'}
+            </p>
+        </div>
+    );
+};
+
+export default RecordingComparison;
@@ -0,0 +1,44 @@
+import React, { useState, useEffect } from 'react';
+import { Loader2 } from 'lucide-react';
+import { getLessonRecording } from '../services/historyService';
+
+interface RecordingPlayerProps {
+    lessonId: string;
+}
+
+// Plays back the child's stored recording of a lesson
+const RecordingPlayer: React.FC<RecordingPlayerProps> = ({ lessonId }) => {
+    const [url, setUrl] = useState<string | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+
+    useEffect(() => {
+        let objectUrl: string | null = null;
+        let cancelled = false;
+        setIsLoading(true);
+        setUrl(null);
+
+        getLessonRecording(lessonId)
+            .then(blob => {
+                if (cancelled || !blob) return;
+                objectUrl = URL.createObjectURL(blob);
+                setUrl(objectUrl);
+            })
+            .catch(err => console.error('[History] Failed to load recording:', err))
+            .finally(() => { if (!cancelled) setIsLoading(false); });
+
+        return () => {
+            cancelled = true;
+            if (objectUrl) URL.revokeObjectURL(objectUrl);
+        };
+    }, [lessonId]);
+
+    if (isLoading) {
+        return <Loader2 size={18} className="animate-spin text-slate-300" />;
+    }
+    if (!url) {
+        return <p className="text-xs text-slate-400">Bản thu không còn được lưu</p>;
+    }
+    return <audio controls src={url} className="w-full h-10" />;
+};
+
+export default RecordingPlayer;
@@ -0,0 +1,249 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { SlidersHorizontal, X, Download, Upload, RotateCcw, Check, ChevronDown, ChevronUp, Star } from 'lucide-react';
+import { CEFRLevel } from '../types';
+import {
+    Rubric, RubricScope, SCORE_BANDS, GRADE_COLORS,
+    getRubricForScope, hasCustomRubric, saveRubric, resetRubric, exportRubrics, importRubrics
+} from '../services/rubricService';
+import { LEVEL_SCALE } from '../services/levelEstimator';
+
+interface RubricEditorProps {
+    isOpen: boolean;
+    onClose: () => void;
+    initialLevel?: CEFRLevel;
+}
+
+// Lets teachers weight the criteria and rename grades per level, with JSON import/export
+const RubricEditor: React.FC<RubricEditorProps> = ({ isOpen, onClose, initialLevel }) => {
+    const [scope, setScope] = useState<RubricScope>(initialLevel || 'default');
+    const [draft, setDraft] = useState<Rubric | null>(null);
+    const [expanded, setExpanded] = useState<string | null>(null);
+    const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    useEffect(() => {
+        if (isOpen && initialLevel) setScope(initialLevel);
+    }, [isOpen]);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        // Deep copy so edits stay local until saved
+        setDraft(JSON.parse(JSON.stringify(getRubricForScope(scope))));
+        setMessage(null);
+    }, [isOpen, scope]);
+
+    if (!isOpen || !draft) return null;
+
+    const totalWeight = draft.criteria.reduce((sum, c) => sum + c.weight, 0);
+
+    const updateCriterion = (index: number, changes: Partial<Rubric['criteria'][number]>) => {
+        setDraft({ ...draft, criteria: draft.criteria.map((c, i) => i === index ? { ...c, ...changes } : c) });
+    };
+
+    const updateDescriptor = (index: number, band: number, text: string) => {
+        const descriptors = [...draft.criteria[index].descriptors];
+        descriptors[band] = text;
+        updateCriterion(index, { descriptors });
+    };
+
+    const updateGrade = (index: number, changes: Partial<Rubric['grades'][number]>) => {
+        setDraft({ ...draft, grades: draft.grades.map((g, i) => i === index ? { ...g, ...changes } : g) });
+    };
+
+    const handleSave = () => {
+        try {
+            saveRubric(scope, draft);
+            setMessage({ text: 'Đã lưu thang điểm', isError: false });
+        } catch (err: any) {
+            setMessage({ text: err.message, isError: true });
+        }
+    };
+
+    const handleReset = () => {
+        resetRubric(scope);
+        setDraft(JSON.parse(JSON.stringify(getRubricForScope(scope))));
+        setMessage({ text: scope === 'default' || scope === 'picture' ? 'Đã khôi phục thang điểm gốc' : 'Cấp độ này dùng lại thang điểm mặc định', isError: false });
+    };
+
+    const handleExport = () => {
+        const blob = new Blob([exportRubrics()], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.download = `speakpro_rubrics_${new Date().toISOString().split('T')[0]}.json`;
+        link.href = url;
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            importRubrics(await file.text());
+            setDraft(JSON.parse(JSON.stringify(getRubricForScope(scope))));
+            setMessage({ text: 'Đã nhập thang điểm', isError: false });
+        } catch (err: any) {
+            setMessage({ text: err.message, isError: true });
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-[200] flex items-center justify-center p-4">
+            <div className="absolute inset-0 bg-black/60 backdrop-blur-sm animate-in fade-in duration-300" onClick={onClose} />
+
+            <div className="relative bg-white rounded-3xl shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col animate-in zoom-in-95 slide-in-from-bottom-4 duration-300">
+                {/* Header */}
+                <div className="flex items-center justify-between px-8 py-6 border-b border-slate-100">
+                    <div className="flex items-center gap-4">
+                        <div className="bg-teal-100 p-3 rounded-2xl">
+                            <SlidersHorizontal className="text-teal-600" size={24} />
+                        </div>
+                        <div>
+                            <h2 className="text-xl font-black text-slate-800">Thang điểm</h2>
+                            <p className="text-sm text-slate-400">Trọng số tiêu chí và xếp loại</p>
+                        </div>
+                    </div>
+                    <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-xl transition-colors">
+                        <X size={20} className="text-slate-400" />
+                    </button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto px-8 py-6 space-y-6">
+                    <div className="flex items-center gap-3">
+                        <span className="text-sm font-bold text-slate-500">Áp dụng cho</span>
+                        <select
+                            value={scope}
+                            onChange={e => setScope(e.target.value as RubricScope)}
+                            className="px-3 py-2 rounded-xl bg-slate-50 border border-slate-100 font-bold text-slate-700 outline-none"
+                        >
+                            <option value="default">Mặc định (mọi cấp độ)</option>
+                            {LEVEL_SCALE.map(l => (
+                                <option key={l} value={l}>{l}{hasCustomRubric(l) ? ' •' : ''}</option>
+                            ))}
+                            <option value="picture">Tả tranh (nói tự do){hasCustomRubric('picture') ? ' •' : ''}</option>
+                        </select>
+                        {scope !== 'default' && scope !== 'picture' && !hasCustomRubric(scope) && (
+                            <span className="text-xs text-slate-400">Đang dùng thang điểm mặc định</span>
+                        )}
+                    </div>
+
+                    {/* Criteria */}
+                    <div className="space-y-2">
+                        <h3 className="text-xs font-black text-slate-400 uppercase tracking-widest">Tiêu chí</h3>
+                        {draft.criteria.map((criterion, index) => {
+                            const share = totalWeight > 0 ? Math.round(criterion.weight / totalWeight * 100) : 0;
+                            const isExpanded = expanded === criterion.key;
+                            return (
+                                <div key={criterion.key} className="border border-slate-100 rounded-2xl">
+                                    <div className="flex items-center gap-3 p-3">
+                                        <input
+                                            value={criterion.label}
+                                            onChange={e => updateCriterion(index, { label: e.target.value })}
+                                            className="flex-1 px-3 py-2 rounded-xl bg-slate-50 border border-slate-100 font-bold text-slate-700 outline-none focus:border-teal-300"
+                                        />
+                                        <input
+                                            type="number"
+                                            min={0}
+                                            step={0.5}
+                                            value={criterion.weight}
+                                            onChange={e => updateCriterion(index, { weight: Math.max(0, parseFloat(e.target.value) || 0) })}
+                                            className="w-20 px-3 py-2 rounded-xl bg-slate-50 border border-slate-100 font-bold text-slate-700 outline-none focus:border-teal-300"
+                                            title="Trọng số"
+                                        />
+                                        <span className="w-12 text-right text-sm font-black text-teal-600">{share}%</span>
+                                        <button
+                                            onClick={() => setExpanded(isExpanded ? null : criterion.key)}
+                                            className="p-1.5 text-slate-400 hover:bg-slate-50 rounded-lg"
+                                            title="Mô tả theo mức điểm"
+                                        >
+                                            {isExpanded ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+                                        </button>
+                                    </div>
+                                    {isExpanded && (
+                                        <div className="px-3 pb-3 space-y-2">
+                                            {SCORE_BANDS.map((band, bandIndex) => (
+                                                <div key={band.label} className="flex items-center gap-3">
+                                                    <span className="w-12 text-xs font-black text-slate-400">{band.label}</span>
+                                                    <input
+                                                        value={criterion.descriptors[bandIndex] || ''}
+                                                        onChange={e => updateDescriptor(index, bandIndex, e.target.value)}
+                                                        className="flex-1 px-3 py-1.5 rounded-lg bg-slate-50 border border-slate-100 text-sm text-slate-600 outline-none focus:border-teal-300"
+                                                    />
+                                                </div>
+                                            ))}
+                                        </div>
+                                    )}
+                                </div>
+                            );
+                        })}
+                    </div>
+
+                    {/* Grades */}
+                    <div className="space-y-2">
+                        <h3 className="text-xs font-black text-slate-400 uppercase tracking-widest">Xếp loại (điểm từ)</h3>
+                        {draft.grades.map((grade, index) => (
+                            <div key={index} className="flex items-center gap-3">
+                                <input
+                                    type="number"
+                                    min={0}
+                                    max={10}
+                                    step={0.5}
+                                    value={grade.min}
+                                    onChange={e => updateGrade(index, { min: parseFloat(e.target.value) || 0 })}
+                                    className="w-20 px-3 py-2 rounded-xl bg-slate-50 border border-slate-100 font-bold text-slate-700 outline-none"
+                                />
+                                <input
+                                    value={grade.label}
+                                    onChange={e => updateGrade(index, { label: e.target.value })}
+                                    className={`flex-1 px-3 py-2 rounded-xl bg-slate-50 border border-slate-100 font-black outline-none ${grade.color}`}
+                                />
+                                <select
+                                    value={grade.color}
+                                    onChange={e => updateGrade(index, { color: e.target.value })}
+                                    className="px-2 py-2 rounded-xl bg-slate-50 border border-slate-100 text-xs font-bold outline-none"
+                                >
+                                    {GRADE_COLORS.map(color => <option key={color} value={color}>{color.replace('text-', '')}</option>)}
+                                </select>
+                                <div className="flex">
+                                    {[1, 2, 3, 4, 5].map(n => (
+                                        <button key={n} onClick={() => updateGrade(index, { stars: n })}>
+                                            <Star size={14} className={n <= grade.stars ? 'text-amber-400 fill-amber-400' : 'text-slate-200'} />
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+
+                {/* Footer */}
+                <div className="px-8 py-5 border-t border-slate-100 flex items-center gap-3 flex-wrap">
+                    <button onClick={handleExport} className="flex items-center gap-2 px-4 py-2 rounded-xl text-slate-500 hover:bg-slate-50 font-bold text-sm">
+                        <Download size={16} /> Xuất JSON
+                    </button>
+                    <button onClick={() => fileInputRef.current?.click()} className="flex items-center gap-2 px-4 py-2 rounded-xl text-slate-500 hover:bg-slate-50 font-bold text-sm">
+                        <Upload size={16} /> Nhập JSON
+                    </button>
+                    <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+                    <button onClick={handleReset} className="flex items-center gap-2 px-4 py-2 rounded-xl text-slate-500 hover:bg-slate-50 font-bold text-sm">
+                        <RotateCcw size={16} /> Khôi phục
+                    </button>
+                    <div className="flex-1" />
+                    {message && (
+                        <span className={`text-xs font-bold ${message.isError ? 'text-red-500' : 'text-green-600'}`}>{message.text}</span>
+                    )}
+                    <button
+                        onClick={handleSave}
+                        disabled={totalWeight <= 0}
+                        className="flex items-center gap-2 px-6 py-3 rounded-xl bg-teal-600 text-white font-bold hover:bg-teal-700 disabled:opacity-30 transition-all"
+                    >
+                        <Check size={16} /> Lưu
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default RubricEditor;
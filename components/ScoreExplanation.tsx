@@ -0,0 +1,43 @@
+import React from 'react';
+import { Info, AlertTriangle } from 'lucide-react';
+import { CoverageReport } from '../types';
+
+interface ScoreExplanationProps {
+    coverage: CoverageReport;
+    notes?: string[];
+}
+
+const METRICS: { key: keyof Pick<CoverageReport, 'contentCoverage' | 'sentenceCoverage' | 'orderPreservation'>; label: string }[] = [
+    { key: 'contentCoverage', label: 'Từ khóa đã nói' },
+    { key: 'sentenceCoverage', label: 'Câu đã đọc' },
+    { key: 'orderPreservation', label: 'Đúng thứ tự' }
+];
+
+// Shows the local coverage check behind the task score and any score adjustments
+const ScoreExplanation: React.FC<ScoreExplanationProps> = ({ coverage, notes = [] }) => {
+    return (
+        <div className={`p-6 rounded-[2rem] border space-y-4 ${coverage.offTopic ? 'bg-red-50 border-red-100' : 'bg-teal-50/50 border-teal-100'}`}>
+            <p className="text-xs font-black text-teal-700 uppercase tracking-widest flex items-center gap-2">
+                <Info size={14} /> Cách tính điểm hoàn thành bài · {coverage.taskScore}/10
+            </p>
+            <div className="space-y-2">
+                {METRICS.map(({ key, label }) => (
+                    <div key={key} className="flex items-center gap-3">
+                        <span className="w-32 text-xs font-bold text-slate-500">{label}</span>
+                        <div className="flex-1 h-2 bg-white rounded-full overflow-hidden">
+                            <div className="h-full bg-teal-500 rounded-full" style={{ width: `${Math.round(coverage[key] * 100)}%` }} />
+                        </div>
+                        <span className="w-10 text-right text-xs font-black text-slate-600">{Math.round(coverage[key] * 100)}%</span>
+                    </div>
+                ))}
+            </div>
+            {notes.map((note, i) => (
+                <p key={i} className="text-sm font-bold text-slate-600 flex items-start gap-2">
+                    <AlertTriangle size={16} className="text-amber-500 shrink-0 mt-0.5" /> {note}
+                </p>
+            ))}
+        </div>
+    );
+};
+
+export default ScoreExplanation;
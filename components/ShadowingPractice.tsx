@@ -0,0 +1,296 @@
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Repeat, X, Volume2, Mic, StopCircle, RotateCcw, ChevronRight, CheckCircle2, Trophy, Lightbulb } from 'lucide-react';
+import { PresentationData, ShadowingSentenceResult } from '../types';
+import { LearnerProfile } from '../services/profileService';
+import { TeacherSpeech, speakAsTeacher } from '../services/geminiService';
+import { saveShadowingRecord } from '../services/historyService';
+import {
+    SHADOWING_PASS_ACCURACY, SentenceRecording,
+    splitIntoSentences, evaluateSentence, getShadowingScore, recordSentence
+} from '../services/shadowingService';
+import MicLevelMeter from './MicLevelMeter';
+import { useCancellableAttempt } from '../hooks/useCancellableAttempt';
+
+interface ShadowingPracticeProps {
+    isOpen: boolean;
+    onClose: () => void;
+    presentation: PresentationData;
+    profile: LearnerProfile;
+    speechRate: number;
+}
+
+type Phase = 'idle' | 'listening' | 'recording' | 'checking' | 'feedback' | 'finished';
+
+const accuracyColor = (accuracy: number) =>
+    accuracy >= SHADOWING_PASS_ACCURACY ? 'text-green-600' : accuracy >= 50 ? 'text-amber-500' : 'text-red-500';
+
+// Sentence-by-sentence "listen and repeat" practice with a scoreboard saved to history
+const ShadowingPractice: React.FC<ShadowingPracticeProps> = ({ isOpen, onClose, presentation, profile, speechRate }) => {
+    const sentences = useMemo(() => splitIntoSentences(presentation), [presentation]);
+    const [index, setIndex] = useState(0);
+    const [phase, setPhase] = useState<Phase>('idle');
+    const [results, setResults] = useState<(ShadowingSentenceResult | null)[]>([]);
+    const [lastAttempt, setLastAttempt] = useState<Omit<ShadowingSentenceResult, 'sentence' | 'attempts'> | null>(null);
+    const [liveText, setLiveText] = useState('');
+    const [micLevel, setMicLevel] = useState(0);
+    const [error, setError] = useState<string | null>(null);
+    const [saved, setSaved] = useState(false);
+
+    const speechRef = useRef<TeacherSpeech | null>(null);
+    const recordingRef = useRef<SentenceRecording | null>(null);
+    const startedAtRef = useRef(0);
+    const attempt = useCancellableAttempt();
+
+    const stopVoice = () => {
+        speechRef.current?.stop();
+        speechRef.current = null;
+    };
+
+    const cleanup = () => {
+        attempt.cancel();
+        stopVoice();
+        recordingRef.current?.cancel();
+        recordingRef.current = null;
+        setMicLevel(0);
+    };
+
+    useEffect(() => {
+        if (!isOpen) return;
+        setIndex(0);
+        setPhase('idle');
+        setResults(sentences.map(() => null));
+        setLastAttempt(null);
+        setError(null);
+        setSaved(false);
+        startedAtRef.current = Date.now();
+        return cleanup;
+    }, [isOpen, sentences]);
+
+    // Play the teacher reading one sentence; resolves when it has finished
+    const playSentence = async (sentence: string): Promise<void> => {
+        stopVoice();
+        speechRef.current = speakAsTeacher(sentence, speechRate);
+        await speechRef.current.finished;
+    };
+
+    const finishAttempt = async () => {
+        const recording = recordingRef.current;
+        if (!recording) return;
+        recordingRef.current = null;
+        setMicLevel(0);
+        setPhase('checking');
+
+        const sentence = sentences[index];
+        const transcript = await recording.stop();
+        const { accuracy, tips } = evaluateSentence(sentence, transcript);
+        setLastAttempt({ transcript, accuracy, tips });
+        setResults(prev => prev.map((result, i) => {
+            if (i !== index) return result;
+            const attempts = (result?.attempts || 0) + 1;
+            // Keep the best attempt on the scoreboard
+            if (result && result.accuracy >= accuracy) return { ...result, attempts };
+            return { sentence, transcript, accuracy, attempts, tips };
+        }));
+        setPhase('feedback');
+    };
+
+    // Teacher reads the sentence, then the child repeats it
+    const practiseSentence = async () => {
+        cleanup();
+        const isCancelled = attempt.begin();
+        setError(null);
+        setLastAttempt(null);
+        setLiveText('');
+        try {
+            setPhase('listening');
+            await playSentence(sentences[index]);
+            if (isCancelled()) return;
+            setPhase('recording');
+            const recording = await recordSentence(sentences[index], {
+                onText: setLiveText,
+                onLevel: setMicLevel,
+                onDone: finishAttempt
+            });
+            if (isCancelled()) {
+                recording.cancel();
+                return;
+            }
+            recordingRef.current = recording;
+        } catch (err: any) {
+            console.error('[Shadowing] Practice failed:', err);
+            cleanup();
+            setError(err?.name === 'NotAllowedError' ? 'Con cần cho phép dùng micro nhé.' : 'Có lỗi xảy ra, con thử lại nhé.');
+            setPhase('idle');
+        }
+    };
+
+    const goNext = async () => {
+        cleanup();
+        setLastAttempt(null);
+        if (index + 1 < sentences.length) {
+            setIndex(index + 1);
+            setPhase('idle');
+            return;
+        }
+        setPhase('finished');
+        const done = results.filter((r): r is ShadowingSentenceResult => r !== null);
+        if (done.length > 0 && !saved) {
+            setSaved(true);
+            const duration = Math.round((Date.now() - startedAtRef.current) / 1000);
+            await saveShadowingRecord(presentation, profile, done, duration)
+                .catch(err => console.error('[Shadowing] Failed to save session:', err));
+        }
+    };
+
+    const handleClose = () => {
+        cleanup();
+        onClose();
+    };
+
+    if (!isOpen) return null;
+
+    const current = results[index];
+    const sentence = sentences[index];
+    const finished = results.filter((r): r is ShadowingSentenceResult => r !== null);
+
+    return (
+        <div className="fixed inset-0 z-[200] flex items-center justify-center p-4">
+            <div className="absolute inset-0 bg-black/60 backdrop-blur-sm animate-in fade-in duration-300" onClick={handleClose} />
+
+            <div className="relative bg-white rounded-3xl shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col animate-in zoom-in-95 slide-in-from-bottom-4 duration-300">
+                {/* Header */}
+                <div className="flex items-center justify-between px-8 py-6 border-b border-slate-100">
+                    <div className="flex items-center gap-4">
+                        <div className="bg-orange-100 p-3 rounded-2xl">
+                            <Repeat className="text-orange-600" size={24} />
+                        </div>
+                        <div>
+                            <h2 className="text-xl font-black text-slate-800">Nghe và nhắc lại</h2>
+                            <p className="text-sm text-slate-400">
+                                {phase === 'finished' ? 'Bảng điểm từng câu' : `Câu ${index + 1}/${sentences.length}`}
+                            </p>
+                        </div>
+                    </div>
+                    <button onClick={handleClose} className="p-2 hover:bg-slate-100 rounded-xl transition-colors">
+                        <X size={20} className="text-slate-400" />
+                    </button>
+                </div>
+
+                {phase !== 'finished' ? (
+                    <div className="flex-1 overflow-y-auto px-8 py-6 space-y-6">
+                        <div className="flex gap-1">
+                            {sentences.map((_, i) => (
+                                <div
+                                    key={i}
+                                    className={`h-1.5 flex-1 rounded-full ${i === index ? 'bg-orange-400'
+                                        : results[i] ? (results[i]!.accuracy >= SHADOWING_PASS_ACCURACY ? 'bg-green-400' : 'bg-amber-300')
+                                            : 'bg-slate-100'}`}
+                                />
+                            ))}
+                        </div>
+
+                        <p className="text-2xl font-bold text-slate-800 leading-snug text-center">{sentence}</p>
+
+                        {phase === 'listening' && (
+                            <p className="flex items-center justify-center gap-2 text-sm font-bold text-blue-600 animate-pulse">
+                                <Volume2 size={18} /> Con nghe cô đọc nhé...
+                            </p>
+                        )}
+
+                        {phase === 'recording' && (
+                            <div className="flex flex-col items-center gap-4">
+                                <p className="flex items-center gap-2 text-sm font-bold text-red-500">
+                                    <Mic size={18} className="animate-pulse" /> Con nhắc lại nào!
+                                </p>
+                                <MicLevelMeter level={micLevel} warning={null} />
+                                {liveText && <p className="text-sm italic text-slate-500">"{liveText.trim()}"</p>}
+                                <button onClick={finishAttempt} className="px-6 py-3 bg-red-600 text-white font-bold rounded-2xl flex items-center gap-2 hover:bg-red-700 transition-all">
+                                    <StopCircle size={18} /> Xong
+                                </button>
+                            </div>
+                        )}
+
+                        {phase === 'checking' && (
+                            <p className="text-center text-sm font-bold text-slate-400 animate-pulse">Cô đang nghe lại...</p>
+                        )}
+
+                        {phase === 'feedback' && lastAttempt && (
+                            <div className="space-y-4">
+                                <div className="text-center">
+                                    <p className={`text-5xl font-black ${accuracyColor(lastAttempt.accuracy)}`}>{lastAttempt.accuracy}%</p>
+                                    <p className="text-sm italic text-slate-500 mt-2">
+                                        {lastAttempt.transcript.trim() ? `"${lastAttempt.transcript.trim()}"` : 'Cô chưa nghe thấy con nói'}
+                                    </p>
+                                    {lastAttempt.accuracy >= SHADOWING_PASS_ACCURACY && (
+                                        <p className="flex items-center justify-center gap-1 text-sm font-bold text-green-600 mt-2">
+                                            <CheckCircle2 size={16} /> Giỏi lắm!
+                                        </p>
+                                    )}
+                                </div>
+                                {lastAttempt.tips.length > 0 && (
+                                    <div className="bg-amber-50 rounded-2xl p-4 border border-amber-100 space-y-2">
+                                        <p className="text-xs font-bold text-amber-600 uppercase flex items-center gap-2">
+                                            <Lightbulb size={14} /> Mẹo phát âm
+                                        </p>
+                                        {lastAttempt.tips.map((t, i) => (
+                                            <p key={i} className="text-sm">
+                                                <span className="font-black text-slate-800">{t.word}</span>
+                                                <span className="text-slate-500"> — {t.tip}</span>
+                                            </p>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+                        )}
+
+                        {error && <p className="text-center text-sm font-bold text-red-500">{error}</p>}
+
+                        <div className="flex gap-3">
+                            {(phase === 'idle' || phase === 'feedback') && (
+                                <button onClick={practiseSentence} className="flex-1 py-4 bg-orange-500 text-white font-black rounded-2xl flex items-center justify-center gap-2 hover:bg-orange-600 transition-all">
+                                    {phase === 'idle' ? <><Volume2 size={20} /> Nghe và nhắc lại</> : <><RotateCcw size={20} /> Thử lại</>}
+                                </button>
+                            )}
+                            {phase === 'feedback' && (
+                                <button
+                                    onClick={goNext}
+                                    className={`flex-1 py-4 font-black rounded-2xl flex items-center justify-center gap-2 transition-all ${current && current.accuracy >= SHADOWING_PASS_ACCURACY
+                                        ? 'bg-green-600 text-white hover:bg-green-700'
+                                        : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+                                >
+                                    {index + 1 < sentences.length ? 'Câu tiếp' : 'Xem bảng điểm'} <ChevronRight size={20} />
+                                </button>
+                            )}
+                        </div>
+                    </div>
+                ) : (
+                    <div className="flex-1 overflow-y-auto px-8 py-6 space-y-4">
+                        <div className="text-center">
+                            <Trophy className="text-amber-500 mx-auto mb-2" size={36} />
+                            <p className="text-4xl font-black text-slate-800">{getShadowingScore(finished)}/10</p>
+                            <p className="text-sm text-slate-400">
+                                {finished.filter(r => r.accuracy >= SHADOWING_PASS_ACCURACY).length}/{sentences.length} câu đạt · {saved ? 'Đã lưu vào lịch sử' : 'Chưa luyện câu nào'}
+                            </p>
+                        </div>
+                        <div className="space-y-2">
+                            {sentences.map((s, i) => (
+                                <div key={i} className="flex items-center gap-3 p-3 bg-slate-50 rounded-xl">
+                                    <span className={`w-14 text-right font-black ${results[i] ? accuracyColor(results[i]!.accuracy) : 'text-slate-300'}`}>
+                                        {results[i] ? `${results[i]!.accuracy}%` : '—'}
+                                    </span>
+                                    <span className="flex-1 text-sm text-slate-700">{s}</span>
+                                    {results[i] && <span className="text-xs text-slate-400">{results[i]!.attempts} lần</span>}
+                                </div>
+                            ))}
+                        </div>
+                        <button onClick={handleClose} className="w-full py-4 bg-orange-500 text-white font-black rounded-2xl hover:bg-orange-600 transition-all">
+                            Xong
+                        </button>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default ShadowingPractice;
@@ -5,6 +5,8 @@ interface VocabularyWordProps {
     word: string;
     onGetMeaning: (word: string) => Promise<{ meaning: string; phonetic: string; example: string }>;
     onSpeak: (word: string) => void;
+    className?: string; // Extra styling, e.g. reading-diff colours
+    onSelect?: () => void; // When set, a click calls this instead of opening the meaning tooltip
 }
 
 interface TooltipData {
@@ -13,7 +15,7 @@ interface TooltipData {
     example: string;
 }
 
-const VocabularyWord: React.FC<VocabularyWordProps> = ({ word, onGetMeaning, onSpeak }) => {
+const VocabularyWord: React.FC<VocabularyWordProps> = ({ word, onGetMeaning, onSpeak, className = '', onSelect }) => {
     const [isOpen, setIsOpen] = useState(false);
     const [isLoading, setIsLoading] = useState(false);
     const [tooltipData, setTooltipData] = useState<TooltipData | null>(null);
@@ -24,6 +26,11 @@ const VocabularyWord: React.FC<VocabularyWordProps> = ({ word, onGetMeaning, onS
     const handleClick = async (e: React.MouseEvent) => {
         e.stopPropagation();
 
+        if (onSelect) {
+            onSelect();
+            return;
+        }
+
         // Calculate position
         if (wordRef.current) {
             const rect = wordRef.current.getBoundingClientRect();
@@ -79,7 +86,7 @@ const VocabularyWord: React.FC<VocabularyWordProps> = ({ word, onGetMeaning, onS
     // Don't make punctuation clickable
     const cleanWord = word.replace(/[.,!?;:'"()]/g, '');
     if (!cleanWord || cleanWord.length < 2) {
-        return <span>{word} </span>;
+        return <span className={className} onClick={onSelect}>{word} </span>;
     }
 
     return (
@@ -89,7 +96,7 @@ const VocabularyWord: React.FC<VocabularyWordProps> = ({ word, onGetMeaning, onS
                 onClick={handleClick}
                 className={`cursor-pointer transition-all duration-200 rounded px-0.5 -mx-0.5 ${isOpen
                     ? 'bg-blue-100 text-blue-700'
-                    : 'hover:bg-yellow-100 hover:text-yellow-700 active:bg-yellow-200'
+                    : `hover:bg-yellow-100 hover:text-yellow-700 active:bg-yellow-200 ${className}`
                     }`}
             >
                 {word}
@@ -173,13 +180,19 @@ interface InteractiveTextProps {
     onGetMeaning: (word: string) => Promise<{ meaning: string; phonetic: string; example: string }>;
     onSpeak: (word: string) => void;
     className?: string;
+    wordOffset?: number; // Index of the first word within the whole script
+    getWordClassName?: (index: number) => string;
+    onWordSelect?: (index: number) => void; // Replaces the meaning tooltip, e.g. to seek audio
 }
 
 export const InteractiveText: React.FC<InteractiveTextProps> = ({
     text,
     onGetMeaning,
     onSpeak,
-    className = ''
+    className = '',
+    wordOffset = 0,
+    getWordClassName,
+    onWordSelect
 }) => {
     // Split text into words while preserving punctuation
     const words = text.split(/\s+/);
@@ -192,6 +205,8 @@ export const InteractiveText: React.FC<InteractiveTextProps> = ({
                     word={word}
                     onGetMeaning={onGetMeaning}
                     onSpeak={onSpeak}
+                    className={getWordClassName?.(wordOffset + index)}
+                    onSelect={onWordSelect ? () => onWordSelect(wordOffset + index) : undefined}
                 />
             ))}
         </span>
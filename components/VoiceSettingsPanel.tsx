@@ -0,0 +1,109 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Volume2, Square } from 'lucide-react';
+import { LearnerPreferences } from '../services/profileService';
+import { TEACHER_VOICES, VOICE_ACCENTS, VOICE_PREVIEW_TEXT, VoiceAccent } from '../services/voiceService';
+import { TeacherSpeech, speakAsTeacher } from '../services/geminiService';
+
+interface VoiceSettingsPanelProps {
+    preferences: LearnerPreferences;
+    onChange: (changes: Partial<LearnerPreferences>) => void;
+}
+
+const VOICE_GROUPS = [
+    { gender: 'female', label: 'Giọng cô' },
+    { gender: 'male', label: 'Giọng thầy' }
+] as const;
+
+// Teacher voice, accent and speed of the active learner, with a short preview
+const VoiceSettingsPanel: React.FC<VoiceSettingsPanelProps> = ({ preferences, onChange }) => {
+    const [isPreviewing, setIsPreviewing] = useState(false);
+    const speechRef = useRef<TeacherSpeech | null>(null);
+
+    const stopPreview = () => {
+        speechRef.current?.stop();
+        speechRef.current = null;
+        setIsPreviewing(false);
+    };
+
+    useEffect(() => stopPreview, []);
+
+    const change = (changes: Partial<LearnerPreferences>) => {
+        // A running preview would keep the old voice
+        stopPreview();
+        onChange(changes);
+    };
+
+    const preview = async () => {
+        if (isPreviewing) {
+            stopPreview();
+            return;
+        }
+        // Settings are applied to the voice service by App before the next render
+        const speech = speakAsTeacher(VOICE_PREVIEW_TEXT, preferences.speechRate);
+        speechRef.current = speech;
+        setIsPreviewing(true);
+        await speech.finished.catch(err => console.warn('[Voice] Preview failed:', err));
+        if (speechRef.current === speech) {
+            speechRef.current = null;
+            setIsPreviewing(false);
+        }
+    };
+
+    return (
+        <div className="flex-1 bg-purple-50/50 border-2 border-purple-100 rounded-2xl p-4 space-y-3">
+            <div className="flex items-center justify-between">
+                <span className="text-xs font-bold text-purple-600 uppercase">Tốc độ đọc</span>
+                <span className="text-sm font-black text-purple-700">{preferences.speechRate.toFixed(1)}x</span>
+            </div>
+            <div className="flex items-center gap-3">
+                <span className="text-xs text-purple-400">🐢 Chậm</span>
+                <input
+                    type="range"
+                    min="0.5"
+                    max="1.5"
+                    step="0.1"
+                    value={preferences.speechRate}
+                    onChange={(e) => change({ speechRate: parseFloat(e.target.value) })}
+                    className="speed-slider flex-1"
+                />
+                <span className="text-xs text-purple-400">Nhanh 🐇</span>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2">
+                <select
+                    value={preferences.voice}
+                    onChange={(e) => change({ voice: e.target.value })}
+                    className="flex-1 min-w-[10rem] px-3 py-2 bg-white border-2 border-purple-100 rounded-xl text-sm font-bold text-slate-700 outline-none focus:border-purple-400"
+                >
+                    {VOICE_GROUPS.map(group => (
+                        <optgroup key={group.gender} label={group.label}>
+                            {TEACHER_VOICES.filter(v => v.gender === group.gender).map(v => (
+                                <option key={v.id} value={v.id}>{v.label}</option>
+                            ))}
+                        </optgroup>
+                    ))}
+                </select>
+                <div className="flex bg-white border-2 border-purple-100 rounded-xl p-0.5">
+                    {(Object.keys(VOICE_ACCENTS) as VoiceAccent[]).map(accent => (
+                        <button
+                            key={accent}
+                            onClick={() => change({ accent })}
+                            className={`px-3 py-1.5 rounded-lg text-xs font-bold transition-all ${preferences.accent === accent ? 'bg-purple-600 text-white' : 'text-purple-500 hover:bg-purple-50'}`}
+                        >
+                            {VOICE_ACCENTS[accent].label}
+                        </button>
+                    ))}
+                </div>
+                <button
+                    onClick={preview}
+                    className="flex items-center gap-1.5 px-3 py-2 bg-purple-600 text-white rounded-xl text-xs font-bold hover:bg-purple-700 transition-all"
+                >
+                    {isPreviewing ? <Square size={14} /> : <Volume2 size={14} />}
+                    {isPreviewing ? 'Dừng' : 'Nghe thử'}
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default VoiceSettingsPanel;
@@ -0,0 +1,329 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { NotebookPen, X, Volume2, Mic, StopCircle, CheckCircle2, XCircle, Eye, Trash2, Star, Loader2 } from 'lucide-react';
+import { LearnerProfile } from '../services/profileService';
+import { getWordMeaning, speakWord } from '../services/geminiService';
+import { SentenceRecording, recordSentence } from '../services/shadowingService';
+import {
+    NotebookWord, ReviewQuality, REVIEW_GRADES,
+    getNotebookWords, getDueWords, reviewNotebookWord, setNotebookWordMeaning, removeNotebookWord,
+    isWordMastered, cleanNotebookWord
+} from '../services/vocabularyService';
+import MicLevelMeter from './MicLevelMeter';
+import { useCancellableAttempt } from '../hooks/useCancellableAttempt';
+
+interface WordNotebookProps {
+    isOpen: boolean;
+    onClose: () => void;
+    profile: LearnerProfile;
+}
+
+type Tab = 'review' | 'words';
+type SayState = 'idle' | 'recording' | 'checking' | 'right' | 'wrong';
+
+// Cards per review session, so a long backlog is spread over several days
+const SESSION_SIZE = 15;
+
+const formatDue = (due: string) => {
+    const date = new Date(due);
+    return date.getTime() <= Date.now() ? 'hôm nay' : date.toLocaleDateString('vi-VN');
+};
+
+// "My Words" notebook: flashcard reviews of due words plus the full word list
+const WordNotebook: React.FC<WordNotebookProps> = ({ isOpen, onClose, profile }) => {
+    const [tab, setTab] = useState<Tab>('review');
+    const [words, setWords] = useState<NotebookWord[]>([]);
+    const [queue, setQueue] = useState<NotebookWord[]>([]);
+    const [index, setIndex] = useState(0);
+    const [revealed, setRevealed] = useState(false);
+    const [loadingMeaning, setLoadingMeaning] = useState(false);
+    const [sayState, setSayState] = useState<SayState>('idle');
+    const [heard, setHeard] = useState('');
+    const [remembered, setRemembered] = useState(0);
+    const [micLevel, setMicLevel] = useState(0);
+    const [error, setError] = useState<string | null>(null);
+
+    const recordingRef = useRef<SentenceRecording | null>(null);
+    const attempt = useCancellableAttempt();
+
+    const cleanup = () => {
+        attempt.cancel();
+        recordingRef.current?.cancel();
+        recordingRef.current = null;
+        setMicLevel(0);
+    };
+
+    const loadWords = async () => {
+        const [all, due] = await Promise.all([getNotebookWords(profile.id), getDueWords(profile.id)]);
+        setWords(all);
+        return due;
+    };
+
+    const startSession = async () => {
+        cleanup();
+        const due = await loadWords();
+        setQueue(due.slice(0, SESSION_SIZE));
+        setIndex(0);
+        setRemembered(0);
+        resetCard();
+    };
+
+    const resetCard = () => {
+        setRevealed(false);
+        setSayState('idle');
+        setHeard('');
+        setError(null);
+    };
+
+    useEffect(() => {
+        if (!isOpen) return;
+        setTab('review');
+        startSession().catch(err => console.error('[Notebook] Failed to load words:', err));
+        return cleanup;
+    }, [isOpen, profile.id]);
+
+    const card = queue[index];
+
+    const revealCard = async () => {
+        setRevealed(true);
+        if (card.meaning) return;
+        setLoadingMeaning(true);
+        try {
+            const updated = await setNotebookWordMeaning(card, await getWordMeaning(card.word));
+            setQueue(prev => prev.map(w => w.id === updated.id ? updated : w));
+        } catch (err) {
+            console.error('[Notebook] Failed to load meaning:', err);
+        } finally {
+            setLoadingMeaning(false);
+        }
+    };
+
+    const finishSaying = async () => {
+        const recording = recordingRef.current;
+        if (!recording) return;
+        recordingRef.current = null;
+        setMicLevel(0);
+        setSayState('checking');
+        const transcript = await recording.stop();
+        setHeard(transcript.trim());
+        setSayState(transcript.split(/\s+/).map(cleanNotebookWord).includes(card.word) ? 'right' : 'wrong');
+    };
+
+    const sayItBack = async () => {
+        cleanup();
+        const isCancelled = attempt.begin();
+        setError(null);
+        setHeard('');
+        try {
+            setSayState('recording');
+            const recording = await recordSentence(card.word, { onLevel: setMicLevel, onDone: finishSaying });
+            if (isCancelled()) {
+                recording.cancel();
+                return;
+            }
+            recordingRef.current = recording;
+        } catch (err: any) {
+            console.error('[Notebook] Recording failed:', err);
+            cleanup();
+            setError(err?.name === 'NotAllowedError' ? 'Con cần cho phép dùng micro nhé.' : 'Có lỗi xảy ra, con thử lại nhé.');
+            setSayState('idle');
+        }
+    };
+
+    const gradeCard = async (quality: ReviewQuality) => {
+        cleanup();
+        // A word the child could not say back is at best "hard"
+        const graded = sayState === 'wrong' ? Math.min(quality, 3) as ReviewQuality : quality;
+        try {
+            await reviewNotebookWord(card, graded);
+        } catch (err) {
+            console.error('[Notebook] Failed to save review:', err);
+        }
+        if (graded >= 3) setRemembered(prev => prev + 1);
+        setIndex(prev => prev + 1);
+        resetCard();
+        loadWords();
+    };
+
+    const handleRemove = async (id: string) => {
+        await removeNotebookWord(id);
+        loadWords();
+    };
+
+    const handleClose = () => {
+        cleanup();
+        onClose();
+    };
+
+    if (!isOpen) return null;
+
+    const dueCount = words.filter(w => new Date(w.due).getTime() <= Date.now()).length;
+    const masteredCount = words.filter(isWordMastered).length;
+
+    return (
+        <div className="fixed inset-0 z-[210] flex items-center justify-center p-4">
+            <div className="absolute inset-0 bg-black/60 backdrop-blur-sm animate-in fade-in duration-300" onClick={handleClose} />
+
+            <div className="relative bg-white rounded-3xl shadow-2xl w-full max-w-xl max-h-[90vh] flex flex-col animate-in zoom-in-95 slide-in-from-bottom-4 duration-300">
+                {/* Header */}
+                <div className="flex items-center justify-between px-8 py-6 border-b border-slate-100">
+                    <div className="flex items-center gap-4">
+                        <div className="bg-amber-100 p-3 rounded-2xl">
+                            <NotebookPen className="text-amber-600" size={24} />
+                        </div>
+                        <div>
+                            <h2 className="text-xl font-black text-slate-800">Sổ từ của con</h2>
+                            <p className="text-sm text-slate-400">{words.length} từ · {masteredCount} từ đã thuộc</p>
+                        </div>
+                    </div>
+                    <button onClick={handleClose} className="p-2 hover:bg-slate-100 rounded-xl transition-colors">
+                        <X size={20} className="text-slate-400" />
+                    </button>
+                </div>
+
+                {/* Tabs */}
+                <div className="flex border-b border-slate-100">
+                    <button
+                        onClick={() => { setTab('review'); startSession(); }}
+                        className={`flex-1 px-6 py-3 font-bold text-sm transition-all ${tab === 'review' ? 'text-amber-600 border-b-2 border-amber-500' : 'text-slate-400 hover:text-slate-600'}`}
+                    >
+                        Ôn tập ({dueCount})
+                    </button>
+                    <button
+                        onClick={() => { cleanup(); setTab('words'); loadWords(); }}
+                        className={`flex-1 px-6 py-3 font-bold text-sm transition-all ${tab === 'words' ? 'text-amber-600 border-b-2 border-amber-500' : 'text-slate-400 hover:text-slate-600'}`}
+                    >
+                        Tất cả các từ
+                    </button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto px-8 py-6 space-y-6">
+                    {tab === 'review' && !card && (
+                        <div className="text-center py-8">
+                            <CheckCircle2 className="text-green-500 mx-auto mb-3" size={40} />
+                            {queue.length > 0 ? (
+                                <p className="text-lg font-black text-slate-700">Con đã ôn xong! Nhớ được {remembered}/{queue.length} từ.</p>
+                            ) : (
+                                <p className="text-lg font-black text-slate-700">Hôm nay không có từ nào cần ôn.</p>
+                            )}
+                            <p className="text-sm text-slate-400 mt-2">Bấm vào từ trong bài đọc để thêm từ mới vào sổ nhé.</p>
+                        </div>
+                    )}
+
+                    {tab === 'review' && card && (
+                        <>
+                            <p className="text-xs font-bold text-slate-400 text-center">Thẻ {index + 1}/{queue.length}</p>
+
+                            <div className="bg-gradient-to-br from-amber-50 to-orange-50 rounded-3xl p-8 border border-amber-100 text-center space-y-3">
+                                <p className="text-4xl font-black text-slate-800">{card.word}</p>
+                                {card.meaning?.phonetic && <p className="text-sm text-slate-400">{card.meaning.phonetic}</p>}
+                                {revealed && (
+                                    loadingMeaning ? (
+                                        <p className="flex items-center justify-center gap-2 text-sm text-slate-400">
+                                            <Loader2 className="animate-spin" size={16} /> Đang tải...
+                                        </p>
+                                    ) : card.meaning ? (
+                                        <div className="space-y-2 animate-in fade-in duration-300">
+                                            <p className="text-lg font-bold text-slate-700">🇻🇳 {card.meaning.meaning}</p>
+                                            {card.meaning.example && <p className="text-sm italic text-slate-500">"{card.meaning.example}"</p>}
+                                        </div>
+                                    ) : (
+                                        <p className="text-sm text-slate-400">Không thể tải nghĩa</p>
+                                    )
+                                )}
+                            </div>
+
+                            {sayState === 'recording' && (
+                                <div className="flex flex-col items-center gap-4">
+                                    <MicLevelMeter level={micLevel} warning={null} />
+                                    <button onClick={finishSaying} className="px-6 py-3 bg-red-600 text-white font-bold rounded-2xl flex items-center gap-2 hover:bg-red-700 transition-all">
+                                        <StopCircle size={18} /> Xong
+                                    </button>
+                                </div>
+                            )}
+                            {sayState === 'checking' && (
+                                <p className="text-center text-sm font-bold text-slate-400 animate-pulse">Cô đang nghe lại...</p>
+                            )}
+                            {sayState === 'right' && (
+                                <p className="flex items-center justify-center gap-2 font-black text-green-600">
+                                    <CheckCircle2 size={20} /> Con nói đúng rồi!
+                                </p>
+                            )}
+                            {sayState === 'wrong' && (
+                                <p className="flex items-center justify-center gap-2 font-black text-amber-500">
+                                    <XCircle size={20} /> {heard ? `Cô nghe thành "${heard}"` : 'Cô chưa nghe thấy con nói'}
+                                </p>
+                            )}
+                            {error && <p className="text-center text-sm font-bold text-red-500">{error}</p>}
+
+                            {sayState !== 'recording' && sayState !== 'checking' && (
+                                <div className="flex gap-3">
+                                    <button onClick={() => speakWord(card.word)} className="flex-1 py-3 bg-blue-50 text-blue-600 font-black rounded-2xl flex items-center justify-center gap-2 hover:bg-blue-100 transition-all">
+                                        <Volume2 size={18} /> Nghe
+                                    </button>
+                                    <button onClick={sayItBack} className="flex-1 py-3 bg-pink-50 text-pink-600 font-black rounded-2xl flex items-center justify-center gap-2 hover:bg-pink-100 transition-all">
+                                        <Mic size={18} /> Nói lại
+                                    </button>
+                                    {!revealed && (
+                                        <button onClick={revealCard} className="flex-1 py-3 bg-amber-500 text-white font-black rounded-2xl flex items-center justify-center gap-2 hover:bg-amber-600 transition-all">
+                                            <Eye size={18} /> Xem nghĩa
+                                        </button>
+                                    )}
+                                </div>
+                            )}
+
+                            {revealed && sayState !== 'recording' && sayState !== 'checking' && (
+                                <div>
+                                    <p className="text-xs font-bold text-slate-400 text-center mb-2">Con nhớ từ này thế nào?</p>
+                                    <div className="grid grid-cols-4 gap-2">
+                                        {REVIEW_GRADES.map(({ quality, label }) => (
+                                            <button
+                                                key={quality}
+                                                onClick={() => gradeCard(quality)}
+                                                className={`py-3 rounded-xl font-black text-sm transition-all ${quality < 3
+                                                    ? 'bg-red-50 text-red-600 hover:bg-red-100'
+                                                    : 'bg-green-50 text-green-700 hover:bg-green-100'
+                                                    }`}
+                                            >
+                                                {label}
+                                            </button>
+                                        ))}
+                                    </div>
+                                </div>
+                            )}
+                        </>
+                    )}
+
+                    {tab === 'words' && (
+                        words.length === 0 ? (
+                            <p className="text-center text-sm text-slate-400 py-8">Sổ từ còn trống. Bấm vào từ trong bài đọc để thêm từ nhé.</p>
+                        ) : (
+                            <div className="space-y-2">
+                                {words.map(w => (
+                                    <div key={w.id} className="flex items-center gap-3 p-3 bg-slate-50 rounded-xl border border-slate-100">
+                                        <button onClick={() => speakWord(w.word)} className="p-2 bg-white rounded-lg text-blue-500 hover:bg-blue-50 transition-all" title="Nghe phát âm">
+                                            <Volume2 size={16} />
+                                        </button>
+                                        <div className="flex-1 min-w-0">
+                                            <p className="font-black text-slate-800 flex items-center gap-2">
+                                                {w.word}
+                                                {isWordMastered(w) && <Star size={14} className="text-amber-400 fill-amber-400" />}
+                                                {w.source === 'mistake' && <span className="text-[10px] font-bold text-red-500 bg-red-50 rounded px-1.5 py-0.5">Đọc sai</span>}
+                                            </p>
+                                            <p className="text-xs text-slate-500 truncate">{w.meaning?.meaning || '—'}</p>
+                                        </div>
+                                        <span className="text-[10px] font-bold text-slate-400 whitespace-nowrap">Ôn: {formatDue(w.due)}</span>
+                                        <button onClick={() => handleRemove(w.id)} className="p-2 text-slate-300 hover:text-red-500 transition-all" title="Xoá khỏi sổ">
+                                            <Trash2 size={16} />
+                                        </button>
+                                    </div>
+                                ))}
+                            </div>
+                        )
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default WordNotebook;
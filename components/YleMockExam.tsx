@@ -0,0 +1,388 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { GraduationCap, X, Volume2, Mic, StopCircle, Timer, Shield, Download, Loader2, Lightbulb, ChevronRight } from 'lucide-react';
+import { YleExamReport, YleLevel, YlePart } from '../types';
+import { LearnerProfile } from '../services/profileService';
+import { TeacherSpeech, speakAsTeacher, generateYleExam, evaluateYleExam } from '../services/geminiService';
+import { saveExamRecord } from '../services/historyService';
+import { SentenceRecording, recordSentence } from '../services/shadowingService';
+import {
+    YleExam, YLE_PARTS, YLE_PART_ORDER,
+    getPartPrompt, getPartTimeLimit, formatExamReport
+} from '../services/yleExamService';
+import MicLevelMeter from './MicLevelMeter';
+import { useCancellableAttempt } from '../hooks/useCancellableAttempt';
+
+interface YleMockExamProps {
+    isOpen: boolean;
+    onClose: () => void;
+    theme: string;
+    level: YleLevel;
+    profile: LearnerProfile;
+    speechRate: number;
+}
+
+type Phase = 'intro' | 'preparing' | 'ready' | 'listening' | 'speaking' | 'saving' | 'evaluating' | 'report';
+type Answers = Record<YlePart, { transcript: string; durationSeconds: number }>;
+
+const Shields: React.FC<{ count: number; size?: number }> = ({ count, size = 18 }) => (
+    <span className="inline-flex gap-0.5">
+        {[1, 2, 3, 4, 5].map(i => (
+            <Shield key={i} size={size} className={i <= count ? 'text-amber-500 fill-amber-400' : 'text-slate-200'} />
+        ))}
+    </span>
+);
+
+// Four timed parts of a Cambridge YLE-style speaking test, marked in shields and saved as an exam report
+const YleMockExam: React.FC<YleMockExamProps> = ({ isOpen, onClose, theme, level, profile, speechRate }) => {
+    const [phase, setPhase] = useState<Phase>('intro');
+    const [exam, setExam] = useState<YleExam | null>(null);
+    const [partIndex, setPartIndex] = useState(0);
+    const [timeLeft, setTimeLeft] = useState(0);
+    const [liveText, setLiveText] = useState('');
+    const [micLevel, setMicLevel] = useState(0);
+    const [report, setReport] = useState<YleExamReport | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const answersRef = useRef<Partial<Answers>>({});
+    const speechRef = useRef<TeacherSpeech | null>(null);
+    const recordingRef = useRef<SentenceRecording | null>(null);
+    const timerRef = useRef<number | null>(null);
+    const partStartedAtRef = useRef(0);
+    const examStartedAtRef = useRef(0);
+    const attempt = useCancellableAttempt();
+
+    const part = YLE_PART_ORDER[partIndex];
+
+    const stopTimer = () => {
+        if (timerRef.current) clearInterval(timerRef.current);
+        timerRef.current = null;
+    };
+
+    const stopVoice = () => {
+        speechRef.current?.stop();
+        speechRef.current = null;
+    };
+
+    const cleanup = () => {
+        attempt.cancel();
+        stopTimer();
+        stopVoice();
+        recordingRef.current?.cancel();
+        recordingRef.current = null;
+        setMicLevel(0);
+    };
+
+    useEffect(() => {
+        if (!isOpen) return;
+        setPhase('intro');
+        setExam(null);
+        setPartIndex(0);
+        setReport(null);
+        setError(null);
+        answersRef.current = {};
+        return cleanup;
+    }, [isOpen, theme, level]);
+
+    // Time is up: the part ends as if the child pressed "Xong"
+    useEffect(() => {
+        if (phase === 'speaking' && timeLeft <= 0) finishPart();
+    }, [timeLeft, phase]);
+
+    // The examiner reads the part's prompt; resolves when she has finished
+    const playPrompt = async (text: string): Promise<void> => {
+        stopVoice();
+        speechRef.current = speakAsTeacher(text, speechRate);
+        await speechRef.current.finished;
+    };
+
+    const prepareExam = async () => {
+        cleanup();
+        const isCancelled = attempt.begin();
+        setError(null);
+        setPhase('preparing');
+        try {
+            const generated = await generateYleExam(theme, level);
+            if (isCancelled()) return;
+            setExam(generated);
+            setPartIndex(0);
+            answersRef.current = {};
+            examStartedAtRef.current = Date.now();
+            setPhase('ready');
+        } catch (err) {
+            console.error('[YLE Exam] Could not prepare the exam:', err);
+            if (isCancelled()) return;
+            setError('Cô chưa chuẩn bị được đề thi, con thử lại nhé.');
+            setPhase('intro');
+        }
+    };
+
+    const startPart = async () => {
+        if (!exam) return;
+        cleanup();
+        const isCancelled = attempt.begin();
+        setError(null);
+        setLiveText('');
+        try {
+            setPhase('listening');
+            await playPrompt(getPartPrompt(exam, part));
+            if (isCancelled()) return;
+            const recording = await recordSentence(exam.sampleAnswers[part], {
+                onText: setLiveText,
+                onLevel: setMicLevel
+            });
+            if (isCancelled()) {
+                recording.cancel();
+                return;
+            }
+            recordingRef.current = recording;
+            partStartedAtRef.current = Date.now();
+            setTimeLeft(getPartTimeLimit(level, part));
+            timerRef.current = window.setInterval(() => setTimeLeft(t => t - 1), 1000);
+            setPhase('speaking');
+        } catch (err: any) {
+            console.error('[YLE Exam] Part failed:', err);
+            cleanup();
+            setError(err?.name === 'NotAllowedError' ? 'Con cần cho phép dùng micro nhé.' : 'Có lỗi xảy ra, con thử lại phần này nhé.');
+            setPhase('ready');
+        }
+    };
+
+    const finishPart = async () => {
+        const recording = recordingRef.current;
+        if (!recording || !exam) return;
+        recordingRef.current = null;
+        stopTimer();
+        setMicLevel(0);
+        setPhase('saving');
+
+        const isCancelled = attempt.begin();
+        const durationSeconds = Math.round((Date.now() - partStartedAtRef.current) / 1000);
+        const transcript = await recording.stop();
+        if (isCancelled()) return;
+        answersRef.current[part] = { transcript, durationSeconds };
+
+        if (partIndex + 1 < YLE_PART_ORDER.length) {
+            setPartIndex(partIndex + 1);
+            setPhase('ready');
+            return;
+        }
+
+        await markExam();
+    };
+
+    // Marks all four parts and saves the report; on failure the child can retry from the last part
+    const markExam = async () => {
+        if (!exam) return;
+        const isCancelled = attempt.begin();
+        setError(null);
+        setPhase('evaluating');
+        try {
+            const result = await evaluateYleExam(exam, answersRef.current as Answers);
+            if (isCancelled()) return;
+            setReport(result);
+            setPhase('report');
+            const duration = Math.round((Date.now() - examStartedAtRef.current) / 1000);
+            await saveExamRecord(result, profile, duration, exam.sceneImage)
+                .catch(err => console.error('[YLE Exam] Failed to save report:', err));
+        } catch (err) {
+            console.error('[YLE Exam] Marking failed:', err);
+            if (isCancelled()) return;
+            setError('Cô chưa chấm được bài thi, con bấm "Chấm lại" nhé.');
+            setPhase('saving');
+        }
+    };
+
+    const downloadReport = () => {
+        if (!report) return;
+        const blob = new Blob([formatExamReport(report, profile.name)], { type: 'text/plain' });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `speakpro_${level.toLowerCase()}_exam_${Date.now()}.txt`;
+        a.click();
+        URL.revokeObjectURL(url);
+    };
+
+    const handleClose = () => {
+        cleanup();
+        onClose();
+    };
+
+    if (!isOpen) return null;
+
+    const inPart = exam && (phase === 'ready' || phase === 'listening' || phase === 'speaking' || phase === 'saving');
+
+    return (
+        <div className="fixed inset-0 z-[200] flex items-center justify-center p-4">
+            <div className="absolute inset-0 bg-black/60 backdrop-blur-sm animate-in fade-in duration-300" onClick={handleClose} />
+
+            <div className="relative bg-white rounded-3xl shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col animate-in zoom-in-95 slide-in-from-bottom-4 duration-300">
+                {/* Header */}
+                <div className="flex items-center justify-between px-8 py-6 border-b border-slate-100">
+                    <div className="flex items-center gap-4">
+                        <div className="bg-emerald-100 p-3 rounded-2xl">
+                            <GraduationCap className="text-emerald-600" size={24} />
+                        </div>
+                        <div>
+                            <h2 className="text-xl font-black text-slate-800">Thi thử Nói {level}</h2>
+                            <p className="text-sm text-slate-400">
+                                {inPart ? `Phần ${partIndex + 1}/${YLE_PART_ORDER.length}: ${YLE_PARTS[part].title}`
+                                    : phase === 'report' ? 'Phiếu kết quả' : `Chủ đề: ${theme}`}
+                            </p>
+                        </div>
+                    </div>
+                    <button onClick={handleClose} className="p-2 hover:bg-slate-100 rounded-xl transition-colors">
+                        <X size={20} className="text-slate-400" />
+                    </button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto px-8 py-6 space-y-6">
+                    {(phase === 'intro' || phase === 'preparing') && (
+                        <>
+                            <p className="text-lg font-bold text-slate-700 leading-snug">
+                                Bài thi thử gồm 4 phần giống kỳ thi Cambridge {level}. Mỗi phần có thời gian riêng, cô Ly sẽ chấm từ 1 đến 5 khiên.
+                            </p>
+                            <ol className="space-y-2">
+                                {YLE_PART_ORDER.map((p, i) => (
+                                    <li key={p} className="flex items-center gap-3 p-3 bg-slate-50 rounded-xl">
+                                        <span className="w-7 h-7 rounded-full bg-emerald-500 text-white font-black text-sm flex items-center justify-center">{i + 1}</span>
+                                        <span className="flex-1 font-bold text-slate-700">{YLE_PARTS[p].title}</span>
+                                        <span className="text-xs font-bold text-slate-400 flex items-center gap-1">
+                                            <Timer size={14} /> {getPartTimeLimit(level, p)} giây
+                                        </span>
+                                    </li>
+                                ))}
+                            </ol>
+                            {error && <p className="text-center text-sm font-bold text-red-500">{error}</p>}
+                            <button
+                                onClick={prepareExam}
+                                disabled={phase === 'preparing'}
+                                className="w-full py-4 bg-emerald-600 text-white font-black rounded-2xl flex items-center justify-center gap-2 hover:bg-emerald-700 transition-all disabled:opacity-60"
+                            >
+                                {phase === 'preparing'
+                                    ? <><Loader2 size={20} className="animate-spin" /> Cô đang chuẩn bị đề thi...</>
+                                    : <><GraduationCap size={20} /> Bắt đầu thi thử</>}
+                            </button>
+                        </>
+                    )}
+
+                    {inPart && (
+                        <>
+                            <div className="flex gap-1">
+                                {YLE_PART_ORDER.map((p, i) => (
+                                    <div key={p} className={`h-1.5 flex-1 rounded-full ${i < partIndex ? 'bg-emerald-400' : i === partIndex ? 'bg-emerald-600' : 'bg-slate-100'}`} />
+                                ))}
+                            </div>
+
+                            <p className="text-base font-bold text-slate-600">{YLE_PARTS[part].instruction}</p>
+
+                            {(part === 'pointing' || part === 'differences') && (
+                                <img src={exam!.sceneImage} alt={exam!.scene} className="w-full rounded-2xl border border-slate-100" />
+                            )}
+                            {part === 'story' && (
+                                <div>
+                                    <p className="text-lg font-black text-slate-800 mb-2 text-center">"{exam!.storyTitle}"</p>
+                                    <img src={exam!.storyImage} alt={exam!.storyTitle} className="w-full rounded-2xl border border-slate-100" />
+                                </div>
+                            )}
+                            {part === 'personal' && (
+                                <ul className="space-y-2 pl-4 list-disc text-lg font-bold text-slate-600 italic">
+                                    {exam!.personalQuestions.map((question, i) => <li key={i}>{question}</li>)}
+                                </ul>
+                            )}
+
+                            {phase === 'listening' && (
+                                <p className="flex items-center justify-center gap-2 text-sm font-bold text-blue-600 animate-pulse">
+                                    <Volume2 size={18} /> Con nghe cô nói nhé...
+                                </p>
+                            )}
+
+                            {phase === 'speaking' && (
+                                <div className="flex flex-col items-center gap-4">
+                                    <div className="flex items-center gap-6">
+                                        <p className="flex items-center gap-2 text-sm font-bold text-red-500">
+                                            <Mic size={18} className="animate-pulse" /> Con nói nào!
+                                        </p>
+                                        <p className={`flex items-center gap-1 text-lg font-black ${timeLeft <= 10 ? 'text-red-500' : 'text-slate-700'}`}>
+                                            <Timer size={18} /> {Math.max(0, timeLeft)}s
+                                        </p>
+                                    </div>
+                                    <MicLevelMeter level={micLevel} warning={null} />
+                                    {liveText && <p className="text-sm italic text-slate-500 text-center">"{liveText.trim()}"</p>}
+                                    <button onClick={finishPart} className="px-6 py-3 bg-red-600 text-white font-bold rounded-2xl flex items-center gap-2 hover:bg-red-700 transition-all">
+                                        <StopCircle size={18} /> Xong
+                                    </button>
+                                </div>
+                            )}
+
+                            {phase === 'saving' && !error && (
+                                <p className="text-center text-sm font-bold text-slate-400 animate-pulse">Cô đang ghi lại bài của con...</p>
+                            )}
+
+                            {error && <p className="text-center text-sm font-bold text-red-500">{error}</p>}
+
+                            {phase === 'ready' && (
+                                <button onClick={startPart} className="w-full py-4 bg-emerald-600 text-white font-black rounded-2xl flex items-center justify-center gap-2 hover:bg-emerald-700 transition-all">
+                                    Bắt đầu phần {partIndex + 1} <ChevronRight size={20} />
+                                </button>
+                            )}
+                            {phase === 'saving' && error && (
+                                <button onClick={markExam} className="w-full py-4 bg-emerald-600 text-white font-black rounded-2xl hover:bg-emerald-700 transition-all">
+                                    Chấm lại
+                                </button>
+                            )}
+                        </>
+                    )}
+
+                    {phase === 'evaluating' && (
+                        <p className="text-center text-sm font-bold text-slate-400 animate-pulse py-12">Cô Ly đang chấm bài thi...</p>
+                    )}
+
+                    {phase === 'report' && report && (
+                        <>
+                            <div className="text-center">
+                                <Shields count={report.shields} size={32} />
+                                <p className="text-3xl font-black text-slate-800 mt-2">{report.shields}/5 khiên</p>
+                                <p className="text-sm font-bold text-slate-600 italic mt-2">"{report.teacherPraise}"</p>
+                            </div>
+                            <div className="space-y-2">
+                                {report.parts.map((p, i) => (
+                                    <div key={p.part} className="p-4 bg-slate-50 rounded-xl space-y-1">
+                                        <div className="flex items-center justify-between gap-3">
+                                            <span className="font-bold text-slate-700">Phần {i + 1}: {YLE_PARTS[p.part].title}</span>
+                                            <Shields count={p.shields} />
+                                        </div>
+                                        <p className="text-sm text-slate-500">{p.comment}</p>
+                                        <p className="text-xs italic text-slate-400">
+                                            {p.transcript.trim() ? `"${p.transcript.trim()}"` : 'Con chưa nói phần này'} · {p.durationSeconds} giây
+                                        </p>
+                                    </div>
+                                ))}
+                            </div>
+                            {report.suggestions.length > 0 && (
+                                <div className="bg-amber-50 rounded-2xl p-4 border border-amber-100 space-y-1">
+                                    <p className="text-xs font-bold text-amber-600 uppercase flex items-center gap-2">
+                                        <Lightbulb size={14} /> Gợi ý cho kỳ thi thật
+                                    </p>
+                                    {report.suggestions.map((suggestion, i) => (
+                                        <p key={i} className="text-sm text-slate-600">• {suggestion}</p>
+                                    ))}
+                                </div>
+                            )}
+                            <div className="flex gap-3">
+                                <button onClick={downloadReport} className="flex-1 py-4 bg-slate-100 text-slate-600 font-black rounded-2xl flex items-center justify-center gap-2 hover:bg-slate-200 transition-all">
+                                    <Download size={20} /> Tải phiếu kết quả
+                                </button>
+                                <button onClick={handleClose} className="flex-1 py-4 bg-emerald-600 text-white font-black rounded-2xl hover:bg-emerald-700 transition-all">
+                                    Xong
+                                </button>
+                            </div>
+                        </>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default YleMockExam;
@@ -1,8 +1,11 @@
 
-import { Theme, CEFRLevel } from './types';
+import { Theme, CEFRLevel, YleLevel } from './types';
 
 export const CEFR_LEVELS: CEFRLevel[] = ['Starters', 'Movers', 'Flyers', 'A1', 'A2', 'B1', 'B2'];
 
+// Cambridge Young Learners levels
+export const YLE_LEVELS: YleLevel[] = ['Starters', 'Movers', 'Flyers'];
+
 export const PREDEFINED_THEMES: Theme[] = [
   { id: '1', label: 'My Family', icon: '👨‍👩‍👧‍👦', description: 'Introduce your family members.' },
   { id: '2', label: 'My School', icon: '🏫', description: 'Describe your school and classroom.' },
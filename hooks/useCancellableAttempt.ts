@@ -0,0 +1,25 @@
+import { useMemo, useRef } from 'react';
+
+export interface CancellableAttempt {
+    // Call before the first await; the returned check is true once cancel() has run since
+    begin: () => () => boolean;
+    cancel: () => void;
+}
+
+/**
+ * Token for multi-step async work (listen, record, evaluate) that a cleanup
+ * can cancel. After each await, a cancelled step stops what it just started
+ * and returns.
+ */
+export function useCancellableAttempt(): CancellableAttempt {
+    const attemptRef = useRef(0);
+    return useMemo(() => ({
+        begin: () => {
+            const attempt = attemptRef.current;
+            return () => attemptRef.current !== attempt;
+        },
+        cancel: () => {
+            attemptRef.current++;
+        }
+    }), []);
+}
@@ -0,0 +1,153 @@
+
+import { CEFRLevel, EvaluationResult, LessonFocus, FreeSpeechScores, InterviewResult, InterviewTurn, YleLevel, YlePart } from "../types";
+import { geminiProvider } from "./geminiProvider";
+import { mockProvider } from "./mockProvider";
+import { VoiceSettings } from "./voiceService";
+
+export type AIProviderId = 'gemini' | 'mock';
+
+export interface ScriptDraft {
+  intro: string;
+  points: string[];
+  conclusion: string;
+}
+
+export interface WordMeaning {
+  meaning: string;
+  phonetic: string;
+  example: string;
+}
+
+export interface ComprehensionQuestionData {
+  question: string;
+  options: string[];
+  correctIndex: number;
+  explanation: string;
+}
+
+// Content of a YLE-style mock speaking exam; the two pictures are drawn from scene and storyPanels
+export interface YleExamDraft {
+  scene: string; // What the exam picture shows
+  pointingQuestions: string[]; // "Where is the ...?" questions about the picture
+  differences: string[]; // The examiner's statements about her picture, each one different from the child's
+  storyTitle: string;
+  storyPanels: string[]; // Four panels, in order
+  personalQuestions: string[];
+  sampleAnswers: Record<YlePart, string>; // A good answer for each part at the level
+}
+
+export interface YlePartAnswer {
+  part: YlePart;
+  prompt: string; // What the examiner said
+  transcript: string;
+}
+
+export interface ModelYleEvaluation {
+  parts: { shields: number; comment: string }[]; // Same order as the answers
+  teacherPraise: string;
+  suggestions: string[];
+}
+
+// What the model itself judges; score and perceivedLevel are derived locally
+export type ModelEvaluation = Omit<EvaluationResult, 'score' | 'perceivedLevel' | 'transcript' | 'reading' | 'coverage' | 'scoreNotes' | 'levelEstimate' | 'transcriptEngine' | 'taskType' | keyof FreeSpeechScores>;
+
+// Picture description is also judged on the free-speech criteria
+export type ModelFreeSpeechEvaluation = ModelEvaluation & FreeSpeechScores;
+
+// The interview score is averaged locally from the criteria
+export type ModelInterviewEvaluation = Omit<InterviewResult, 'score' | 'turns'>;
+
+export interface LiveTranscriptionOptions {
+  onText: (text: string) => void;
+  onError?: (err: unknown) => void;
+  // Script the child is expected to read (used by the mock backend to "hear" something)
+  expectedText?: string;
+}
+
+export interface LiveTranscriptionSession {
+  // 16 kHz mono PCM16 audio from the microphone
+  sendAudio: (pcm: Int16Array) => void;
+  close: () => void;
+}
+
+export interface LiveInterviewOptions {
+  theme: string;
+  script: string; // What the child presented, so the questions follow up on it
+  level: CEFRLevel;
+  maxQuestions: number;
+  // 24 kHz mono PCM16 audio of the examiner's voice (the mock backend sends synthetic tones).
+  // A turn that ends without any is read out with the Web Speech API instead.
+  onExaminerAudio: (pcm: Int16Array) => void;
+  onExaminerText: (text: string) => void;
+  onChildText: (text: string) => void;
+  // The examiner has finished a turn and waits for the child
+  onTurnComplete: () => void;
+  onError?: (err: unknown) => void;
+}
+
+/**
+ * Everything the lesson flow needs from an AI backend
+ */
+export interface AIProvider {
+  id: AIProviderId;
+  label: string;
+  requiresApiKey: boolean;
+  generateIllustration: (theme: string) => Promise<string>;
+  generatePresentationScript: (imageUri: string, theme: string, level: CEFRLevel, focus?: LessonFocus) => Promise<ScriptDraft>;
+  // Rejects with 'TTS_FALLBACK_TO_WEB_SPEECH' when no audio could be produced
+  generateTeacherVoice: (text: string, voice: VoiceSettings) => Promise<AudioBuffer>;
+  generateWordAudio: (word: string, voice: VoiceSettings) => Promise<AudioBuffer | null>;
+  evaluatePresentation: (originalScript: string, transcript: string, level: CEFRLevel) => Promise<ModelEvaluation>;
+  // sampleDescription is the generated script, a reference for what the picture shows
+  evaluateFreeSpeech: (imageUri: string, sampleDescription: string, transcript: string, level: CEFRLevel) => Promise<ModelFreeSpeechEvaluation>;
+  getWordMeaning: (word: string) => Promise<WordMeaning>;
+  // Meanings of many words in one request, keyed by word; words the model skipped are missing
+  getWordMeanings: (words: string[]) => Promise<Record<string, WordMeaning>>;
+  generateYleExam: (theme: string, level: YleLevel) => Promise<YleExamDraft>;
+  evaluateYleExam: (answers: YlePartAnswer[], level: YleLevel) => Promise<ModelYleEvaluation>;
+  generateComprehensionQuestions: (imageUri: string, script: string, level: CEFRLevel) => Promise<ComprehensionQuestionData[]>;
+  openLiveTranscription: (options: LiveTranscriptionOptions) => Promise<LiveTranscriptionSession>;
+  // Spoken Q&A with the examiner; the child's microphone audio goes through sendAudio
+  openLiveInterview: (options: LiveInterviewOptions) => Promise<LiveTranscriptionSession>;
+  evaluateInterview: (turns: InterviewTurn[], theme: string, level: CEFRLevel) => Promise<ModelInterviewEvaluation>;
+  // Transcribe a finished recording (base64 audio), used when live transcription failed
+  transcribeRecording: (audioBase64: string, mimeType: string, expectedText?: string) => Promise<string>;
+}
+
+const PROVIDER_STORAGE_KEY = 'speakpro_ai_provider';
+
+const PROVIDERS: Record<AIProviderId, AIProvider> = {
+  gemini: geminiProvider,
+  mock: mockProvider
+};
+
+export const AI_PROVIDERS: AIProvider[] = Object.values(PROVIDERS);
+
+function isProviderId(value: string | null): value is AIProviderId {
+  return !!value && Object.hasOwn(PROVIDERS, value);
+}
+
+/**
+ * Get the active provider id. A `?provider=mock` URL parameter wins over the
+ * saved choice so automated runs can force the offline backend.
+ */
+export function getAIProviderId(): AIProviderId {
+  const fromUrl = new URLSearchParams(window.location.search).get('provider');
+  if (isProviderId(fromUrl)) return fromUrl;
+  const stored = localStorage.getItem(PROVIDER_STORAGE_KEY);
+  return isProviderId(stored) ? stored : 'gemini';
+}
+
+/**
+ * Persist the provider choice
+ */
+export function setAIProviderId(id: AIProviderId): void {
+  localStorage.setItem(PROVIDER_STORAGE_KEY, id);
+}
+
+/**
+ * Get the provider all AI calls should go through
+ */
+export function getAIProvider(): AIProvider {
+  return PROVIDERS[getAIProviderId()];
+}
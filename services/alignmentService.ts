@@ -0,0 +1,299 @@
+import { ReadingStats } from '../types';
+
+// Deterministic word-level alignment of what the child said against the script.
+// Both sides are normalised (case, punctuation, contractions, numbers) and then
+// aligned with a Levenshtein edit distance over words.
+
+export type ScriptWordStatus = 'read' | 'skipped' | 'substituted';
+
+export interface AlignmentStep {
+    op: 'read' | 'skipped' | 'substituted' | 'inserted';
+    expected?: string; // Normalised script token (missing for insertions)
+    spoken?: string; // Normalised transcript token (missing for skips)
+    scriptWordIndex?: number; // Index into the whitespace-split script
+}
+
+export interface ReadingAlignment {
+    steps: AlignmentStep[];
+    scriptWords: ScriptWordStatus[]; // One status per whitespace-split script word
+    stats: ReadingStats;
+}
+
+export type FollowWordStatus = ScriptWordStatus | 'pending';
+
+export interface FollowAlongState {
+    words: FollowWordStatus[]; // One status per whitespace-split script word
+    currentWord: number; // Next word to read (words.length once finished)
+    sentences: { start: number; end: number }[]; // Word ranges, end exclusive
+    currentSentence: number;
+    skippedSentences: number[]; // Sentences behind the reader that were mostly skipped
+    progress: number; // 0-1
+}
+
+export interface ReadingTracker {
+    update: (transcript: string) => FollowAlongState;
+}
+
+interface ScriptToken {
+    token: string;
+    wordIndex: number;
+}
+
+// A finished sentence counts as skipped when at least this share of its words was
+const SKIPPED_SENTENCE_RATIO = 0.5;
+// Cheaper skips while following along, so the highlight catches up a few words
+// after the child jumps a line instead of treating the jump as misread words
+const FOLLOW_SKIP_COST = 0.5;
+
+const CONTRACTIONS: Record<string, string> = {
+    "can't": 'can not', "cannot": 'can not', "won't": 'will not', "shan't": 'shall not',
+    "let's": 'let us', "it's": 'it is', "that's": 'that is', "what's": 'what is',
+    "there's": 'there is', "here's": 'here is', "where's": 'where is', "who's": 'who is',
+    "he's": 'he is', "she's": 'she is', "i'm": 'i am'
+};
+
+const SUFFIXES: [string, string][] = [
+    ["n't", ' not'], ["'re", ' are'], ["'ve", ' have'], ["'ll", ' will'], ["'d", ' would'], ["'m", ' am']
+];
+
+const ONES = ['zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten',
+    'eleven', 'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen'];
+const TENS = ['', '', 'twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety'];
+
+/**
+ * Spell out a whole number (0 - 9999) the way a child would read it
+ */
+function numberToWords(n: number): string {
+    if (n < 20) return ONES[n];
+    if (n < 100) return TENS[Math.floor(n / 10)] + (n % 10 ? ` ${ONES[n % 10]}` : '');
+    if (n < 1000) return `${ONES[Math.floor(n / 100)]} hundred` + (n % 100 ? ` ${numberToWords(n % 100)}` : '');
+    return `${numberToWords(Math.floor(n / 1000))} thousand` + (n % 1000 ? ` ${numberToWords(n % 1000)}` : '');
+}
+
+/**
+ * Normalise one written word into the tokens a speaker would say
+ */
+export function normalizeWord(word: string): string[] {
+    let w = word.toLowerCase().replace(/[‘’`]/g, "'");
+    w = w.replace(/[^a-z0-9'\-]/g, '').replace(/^'+|'+$/g, '');
+    if (!w) return [];
+
+    if (CONTRACTIONS[w]) return CONTRACTIONS[w].split(' ');
+    for (const [suffix, expansion] of SUFFIXES) {
+        if (w.endsWith(suffix) && w.length > suffix.length) {
+            return [...normalizeWord(w.slice(0, -suffix.length)), expansion.trim()];
+        }
+    }
+
+    return w.split('-').filter(Boolean).flatMap(part => {
+        if (/^\d+$/.test(part)) {
+            const n = parseInt(part, 10);
+            return n < 10000 ? numberToWords(n).split(' ') : [part];
+        }
+        // Possessive / remaining apostrophes: "dog's" and "dogs" sound alike
+        return [part.replace(/'/g, '')];
+    });
+}
+
+/**
+ * Normalise free text into spoken tokens
+ */
+export function normalizeText(text: string): string[] {
+    return text.split(/\s+/).flatMap(normalizeWord);
+}
+
+/**
+ * Split the script into display words and the spoken tokens of each
+ */
+function tokenizeScript(script: string): { displayWords: string[]; expected: ScriptToken[] } {
+    // Remember which display word each script token came from
+    const displayWords = script.split(/\s+/);
+    const expected: ScriptToken[] = [];
+    displayWords.forEach((word, wordIndex) => {
+        normalizeWord(word).forEach(token => expected.push({ token, wordIndex }));
+    });
+    return { displayWords, expected };
+}
+
+/**
+ * Next column of the edit distance table for one more spoken token.
+ * column[i] = edits to turn the first i script tokens into the spoken tokens so far.
+ */
+function nextDistanceColumn(prev: number[], expected: ScriptToken[], spokenToken: string, skipCost = 1): number[] {
+    const column = new Array<number>(prev.length);
+    column[0] = prev[0] + 1;
+    for (let i = 1; i < prev.length; i++) {
+        const cost = expected[i - 1].token === spokenToken ? 0 : 1;
+        column[i] = Math.min(prev[i - 1] + cost, prev[i] + 1, column[i - 1] + skipCost);
+    }
+    return column;
+}
+
+/**
+ * Walk back through the distance columns from (endToken, last spoken token) to recover the operations
+ */
+function traceAlignment(columns: number[][], expected: ScriptToken[], spoken: string[], endToken: number, skipCost = 1): AlignmentStep[] {
+    const steps: AlignmentStep[] = [];
+    let i = endToken;
+    let j = spoken.length;
+    while (i > 0 || j > 0) {
+        if (i > 0 && j > 0 && columns[j][i] === columns[j - 1][i - 1] + (expected[i - 1].token === spoken[j - 1] ? 0 : 1)) {
+            const match = expected[i - 1].token === spoken[j - 1];
+            steps.push({ op: match ? 'read' : 'substituted', expected: expected[i - 1].token, spoken: spoken[j - 1], scriptWordIndex: expected[i - 1].wordIndex });
+            i--;
+            j--;
+        } else if (i > 0 && columns[j][i] === columns[j][i - 1] + skipCost) {
+            steps.push({ op: 'skipped', expected: expected[i - 1].token, scriptWordIndex: expected[i - 1].wordIndex });
+            i--;
+        } else {
+            steps.push({ op: 'inserted', spoken: spoken[j - 1] });
+            j--;
+        }
+    }
+    return steps.reverse();
+}
+
+/**
+ * Status of each display word: read only if all of its tokens were read
+ */
+function getWordStatuses(steps: AlignmentStep[], wordCount: number): ScriptWordStatus[] {
+    const tokenOps: ScriptWordStatus[][] = Array.from({ length: wordCount }, () => []);
+    steps.forEach(step => {
+        if (step.scriptWordIndex !== undefined) tokenOps[step.scriptWordIndex].push(step.op as ScriptWordStatus);
+    });
+    return tokenOps.map(ops => {
+        if (ops.length === 0 || ops.every(op => op === 'read')) return 'read';
+        if (ops.every(op => op === 'skipped')) return 'skipped';
+        return 'substituted';
+    });
+}
+
+/**
+ * Align a transcript against the script and compute reading accuracy
+ */
+export function alignReading(script: string, transcript: string, durationSeconds: number): ReadingAlignment {
+    const { displayWords, expected } = tokenizeScript(script);
+    const spoken = normalizeText(transcript);
+
+    const n = expected.length;
+    const columns: number[][] = [Array.from({ length: n + 1 }, (_, i) => i)];
+    spoken.forEach(token => columns.push(nextDistanceColumn(columns[columns.length - 1], expected, token)));
+
+    const steps = traceAlignment(columns, expected, spoken, n);
+    const scriptWords = getWordStatuses(steps, displayWords.length);
+
+    const count = (op: AlignmentStep['op']) => steps.filter(s => s.op === op).length;
+    const wordsCorrect = count('read');
+    const minutes = durationSeconds / 60;
+
+    return {
+        steps,
+        scriptWords,
+        stats: {
+            accuracy: n > 0 ? Math.round(wordsCorrect / n * 100) : 0,
+            wordsCorrect,
+            totalWords: n,
+            skipped: count('skipped'),
+            substituted: count('substituted'),
+            inserted: count('inserted'),
+            wcpm: minutes > 0 ? Math.round(wordsCorrect / minutes) : 0
+        }
+    };
+}
+
+/**
+ * How far (0-1) the reader has got through the script, by the furthest script word read
+ */
+export function getReadingProgress(script: string, transcript: string): number {
+    return createReadingTracker(script).update(transcript).progress;
+}
+
+/**
+ * Word ranges of the script's sentences (a sentence ends at . ! or ?)
+ */
+function splitSentences(displayWords: string[]): { start: number; end: number }[] {
+    const sentences: { start: number; end: number }[] = [];
+    let start = 0;
+    displayWords.forEach((word, i) => {
+        if (/[.!?]["'”’)]*$/.test(word) || i === displayWords.length - 1) {
+            sentences.push({ start, end: i + 1 });
+            start = i + 1;
+        }
+    });
+    return sentences;
+}
+
+/**
+ * Follow a child reading the script from a streaming transcript. Unlike
+ * alignReading, the unread rest of the script is not counted as skipped, and
+ * the distance columns of the transcript prefix that did not change since the
+ * last update are reused, so each update only aligns the newly heard words.
+ */
+export function createReadingTracker(script: string): ReadingTracker {
+    const { displayWords, expected } = tokenizeScript(script);
+    const sentences = splitSentences(displayWords);
+    const n = expected.length;
+
+    let spoken: string[] = [];
+    const columns: number[][] = [Array.from({ length: n + 1 }, (_, i) => i * FOLLOW_SKIP_COST)];
+
+    const update = (transcript: string): FollowAlongState => {
+        const next = normalizeText(transcript);
+        let shared = 0;
+        while (shared < spoken.length && shared < next.length && spoken[shared] === next[shared]) shared++;
+        columns.length = shared + 1;
+        for (let j = shared; j < next.length; j++) {
+            columns.push(nextDistanceColumn(columns[j], expected, next[j], FOLLOW_SKIP_COST));
+        }
+        spoken = next;
+
+        // The reader is at the script position that best explains what was heard (latest on ties)
+        const last = columns[columns.length - 1];
+        let endToken = 0;
+        for (let i = 1; i <= n; i++) {
+            if (last[i] <= last[endToken]) endToken = i;
+        }
+
+        const statuses = getWordStatuses(traceAlignment(columns, expected, spoken, endToken, FOLLOW_SKIP_COST), displayWords.length);
+        const currentWord = endToken < n ? expected[endToken].wordIndex : displayWords.length;
+        const words: FollowWordStatus[] = statuses.map((status, i) => i < currentWord ? status : 'pending');
+
+        const currentSentence = currentWord < displayWords.length
+            ? sentences.findIndex(s => currentWord < s.end)
+            : sentences.length - 1;
+        const skippedSentences = sentences
+            .map((sentence, index) => ({ sentence, index }))
+            .filter(({ sentence }) => {
+                if (sentence.end > currentWord) return false;
+                const skipped = words.slice(sentence.start, sentence.end).filter(w => w === 'skipped').length;
+                return skipped / (sentence.end - sentence.start) >= SKIPPED_SENTENCE_RATIO;
+            })
+            .map(({ index }) => index);
+
+        return {
+            words,
+            currentWord,
+            sentences,
+            currentSentence,
+            skippedSentences,
+            progress: displayWords.length > 0 ? currentWord / displayWords.length : 0
+        };
+    };
+
+    return { update };
+}
+
+/**
+ * Index of the first script word of each point and of the conclusion, given
+ * that the script is intro + points + conclusion joined by spaces
+ */
+export function getSectionWordOffsets(intro: string, points: string[]): { points: number[]; conclusion: number } {
+    const countWords = (text: string) => text.split(/\s+/).length;
+    const pointOffsets: number[] = [];
+    let offset = countWords(intro);
+    points.forEach(point => {
+        pointOffsets.push(offset);
+        offset += countWords(point);
+    });
+    return { points: pointOffsets, conclusion: offset };
+}
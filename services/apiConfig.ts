@@ -0,0 +1,37 @@
+
+export const DEFAULT_TEXT_MODEL = 'gemini-2.5-flash';
+
+/**
+ * Get API key from localStorage
+ */
+export function getApiKey(): string {
+  return localStorage.getItem('gemini_api_key') || '';
+}
+
+/**
+ * Get selected model from localStorage
+ */
+export function getSelectedModel(): string {
+  return localStorage.getItem('gemini_selected_model') || DEFAULT_TEXT_MODEL;
+}
+
+/**
+ * Save API key and model to localStorage
+ */
+export function saveApiConfig(apiKey: string, model: string): void {
+  localStorage.setItem('gemini_api_key', apiKey);
+  localStorage.setItem('gemini_selected_model', model);
+}
+
+/**
+ * Initialize/reinitialize the Gemini client (for retry after changing key)
+ */
+export function initializeGeminiChat(apiKey?: string, model?: string): void {
+  if (apiKey) {
+    localStorage.setItem('gemini_api_key', apiKey);
+  }
+  if (model) {
+    localStorage.setItem('gemini_selected_model', model);
+  }
+  // Clear any cached clients if needed in future
+}
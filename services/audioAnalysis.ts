@@ -0,0 +1,117 @@
+import { CAPTURE_SAMPLE_RATE } from './audioCapture';
+
+// Real-time analysis of captured PCM chunks: volume for the meter, simple
+// voice-activity detection, and events for long silences, a dead mic and clipping.
+
+export interface AudioLevel {
+  rms: number; // 0-1
+  peak: number; // 0-1
+  level: number; // 0-1 on a dB scale, for display
+  isVoice: boolean;
+}
+
+export interface AudioAnalyzerOptions {
+  onLevel?: (level: AudioLevel) => void;
+  // Fired once per pause when no voice was heard for silenceMs
+  onSilence?: (durationMs: number) => void;
+  silenceMs?: number;
+  // No signal at all for deadMicMs (muted or wrong input device)
+  onMicSilent?: () => void;
+  deadMicMs?: number;
+  onClipping?: () => void;
+  onVoice?: () => void;
+}
+
+export interface AudioAnalyzer {
+  process: (pcm: Int16Array) => void;
+  reset: () => void;
+}
+
+const DEFAULT_SILENCE_MS = 3000;
+const DEFAULT_DEAD_MIC_MS = 3000;
+// Below this RMS the input is treated as digital silence
+const DEAD_MIC_RMS = 0.0005;
+// Voice must be this many times louder than the tracked noise floor
+const VOICE_FLOOR_RATIO = 3;
+const MIN_VOICE_RMS = 0.01;
+// Samples this close to full scale count as clipped
+const CLIP_LEVEL = 0.98;
+const CLIP_SAMPLES_PER_CHUNK = 8;
+const METER_FLOOR_DB = -60;
+
+/**
+ * Create an analyzer to feed with 16 kHz PCM16 chunks from audioCapture
+ */
+export function createAudioAnalyzer(options: AudioAnalyzerOptions = {}): AudioAnalyzer {
+  const silenceMs = options.silenceMs ?? DEFAULT_SILENCE_MS;
+  const deadMicMs = options.deadMicMs ?? DEFAULT_DEAD_MIC_MS;
+
+  let noiseFloor = MIN_VOICE_RMS / VOICE_FLOOR_RATIO;
+  let silentForMs = 0;
+  let deadForMs = 0;
+  let silenceReported = false;
+  let deadMicReported = false;
+  let heardVoice = false;
+
+  const reset = () => {
+    noiseFloor = MIN_VOICE_RMS / VOICE_FLOOR_RATIO;
+    silentForMs = 0;
+    deadForMs = 0;
+    silenceReported = false;
+    deadMicReported = false;
+    heardVoice = false;
+  };
+
+  const process = (pcm: Int16Array) => {
+    if (pcm.length === 0) return;
+    const chunkMs = pcm.length / CAPTURE_SAMPLE_RATE * 1000;
+
+    let sumSquares = 0;
+    let peak = 0;
+    let clipped = 0;
+    for (let i = 0; i < pcm.length; i++) {
+      const sample = Math.abs(pcm[i]) / 0x8000;
+      sumSquares += sample * sample;
+      if (sample > peak) peak = sample;
+      if (sample >= CLIP_LEVEL) clipped++;
+    }
+    const rms = Math.sqrt(sumSquares / pcm.length);
+
+    const isVoice = rms > Math.max(MIN_VOICE_RMS, noiseFloor * VOICE_FLOOR_RATIO);
+    // Track the noise floor slowly from non-voice chunks
+    if (!isVoice) noiseFloor = noiseFloor * 0.95 + rms * 0.05;
+
+    const db = 20 * Math.log10(Math.max(rms, 1e-6));
+    const level = Math.max(0, Math.min(1, (db - METER_FLOOR_DB) / -METER_FLOOR_DB));
+    options.onLevel?.({ rms, peak, level, isVoice });
+
+    if (clipped >= CLIP_SAMPLES_PER_CHUNK) options.onClipping?.();
+
+    if (rms < DEAD_MIC_RMS) {
+      deadForMs += chunkMs;
+      if (deadForMs >= deadMicMs && !deadMicReported) {
+        deadMicReported = true;
+        options.onMicSilent?.();
+      }
+    } else {
+      deadForMs = 0;
+      deadMicReported = false;
+    }
+
+    if (isVoice) {
+      if (!heardVoice || silenceReported) options.onVoice?.();
+      heardVoice = true;
+      silentForMs = 0;
+      silenceReported = false;
+    } else if (heardVoice) {
+      // Only pauses after the child started speaking count as silence
+      silentForMs += chunkMs;
+      if (silentForMs >= silenceMs && !silenceReported) {
+        silenceReported = true;
+        options.onSilence?.(silentForMs);
+      }
+    }
+  };
+
+  return { process, reset };
+}
@@ -0,0 +1,133 @@
+import { STORES, requestToPromise, withStore } from './db';
+
+// Content-addressed cache of generated speech: the same text in the same voice
+// and speed is synthesised once, then served from memory or IndexedDB.
+
+export interface SpeechKey {
+  provider: string; // Audio from the offline demo must never be served for Gemini
+  kind: 'script' | 'word'; // Scripts and single words use different prompts
+  text: string;
+  voice: string;
+  rate: number;
+}
+
+interface CachedClip {
+  key: string; // SHA-256 of the SpeechKey
+  text: string;
+  sampleRate: number;
+  pcm: ArrayBuffer; // Mono PCM16 samples
+  savedAt: string; // ISO string
+  lastUsedAt: string; // ISO string
+}
+
+// Least recently used clips beyond these are evicted
+const MAX_CACHED_CLIPS = 300;
+const MAX_MEMORY_CLIPS = 40;
+
+const memoryCache = new Map<string, AudioBuffer>();
+// Requests in flight, so a pre-warm and a click share one synthesis
+const pending = new Map<string, Promise<AudioBuffer>>();
+
+function remember(id: string, buffer: AudioBuffer): void {
+  // Map keeps insertion order, so re-inserting makes this the most recent
+  memoryCache.delete(id);
+  memoryCache.set(id, buffer);
+  if (memoryCache.size > MAX_MEMORY_CLIPS) {
+    memoryCache.delete(memoryCache.keys().next().value!);
+  }
+}
+
+async function hashKey(key: SpeechKey): Promise<string> {
+  const text = JSON.stringify([key.provider, key.kind, key.voice, key.rate, key.text]);
+  // crypto.subtle only exists in secure contexts; the plain key works too, just longer
+  if (!crypto?.subtle) return text;
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+function toClip(key: string, text: string, buffer: AudioBuffer): CachedClip {
+  const samples = buffer.getChannelData(0);
+  const pcm = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    pcm[i] = Math.max(-1, Math.min(1, samples[i])) * 32767;
+  }
+  const now = new Date().toISOString();
+  return { key, text, sampleRate: buffer.sampleRate, pcm: pcm.buffer, savedAt: now, lastUsedAt: now };
+}
+
+function fromClip(clip: CachedClip): AudioBuffer {
+  const pcm = new Int16Array(clip.pcm);
+  const buffer = new AudioBuffer({ length: Math.max(1, pcm.length), numberOfChannels: 1, sampleRate: clip.sampleRate });
+  const data = buffer.getChannelData(0);
+  for (let i = 0; i < pcm.length; i++) data[i] = pcm[i] / 32768;
+  return buffer;
+}
+
+async function readClip(key: string): Promise<CachedClip | undefined> {
+  const clip = await withStore(STORES.audio, 'readonly', (tx) =>
+    requestToPromise(tx.objectStore(STORES.audio).get(key) as IDBRequest<CachedClip | undefined>)
+  );
+  if (clip) {
+    // Mark as recently used for eviction; not worth waiting for
+    withStore(STORES.audio, 'readwrite', (tx) => {
+      tx.objectStore(STORES.audio).put({ ...clip, lastUsedAt: new Date().toISOString() });
+    }).catch(() => {});
+  }
+  return clip;
+}
+
+async function writeClip(clip: CachedClip): Promise<void> {
+  await withStore(STORES.audio, 'readwrite', async (tx) => {
+    const store = tx.objectStore(STORES.audio);
+    store.put(clip);
+    const count = await requestToPromise(store.count());
+    let excess = count - MAX_CACHED_CLIPS;
+    if (excess <= 0) return;
+    // Oldest lastUsedAt first
+    const cursorRequest = store.index('lastUsedAt').openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor || excess <= 0) return;
+      cursor.delete();
+      excess--;
+      cursor.continue();
+    };
+  });
+}
+
+/**
+ * Speech audio for a key, synthesised only when neither memory nor
+ * IndexedDB has it. Failed syntheses are not cached.
+ */
+export async function getCachedSpeech(key: SpeechKey, synthesize: () => Promise<AudioBuffer>): Promise<AudioBuffer> {
+  const id = await hashKey(key);
+  const cached = memoryCache.get(id);
+  if (cached) {
+    remember(id, cached);
+    return cached;
+  }
+  const inFlight = pending.get(id);
+  if (inFlight) return inFlight;
+
+  const request = (async () => {
+    const stored = await readClip(id).catch(err => {
+      console.warn('[AudioCache] Could not read cached audio:', err);
+      return undefined;
+    });
+    if (stored) return fromClip(stored);
+
+    const buffer = await synthesize();
+    writeClip(toClip(id, key.text, buffer))
+      .catch(err => console.warn('[AudioCache] Could not save audio:', err));
+    return buffer;
+  })();
+
+  pending.set(id, request);
+  try {
+    const buffer = await request;
+    remember(id, buffer);
+    return buffer;
+  } finally {
+    pending.delete(id);
+  }
+}
@@ -0,0 +1,125 @@
+// Microphone capture on an AudioWorklet: the worklet downsamples to 16 kHz and
+// converts to PCM16 off the main thread, then posts fixed-size chunks that any
+// number of consumers (live transcription, level meter...) can subscribe to.
+
+export const CAPTURE_SAMPLE_RATE = 16000;
+// 100 ms per chunk at 16 kHz
+const CHUNK_SAMPLES = 1600;
+const PROCESSOR_NAME = 'speakpro-pcm-capture';
+
+const WORKLET_SOURCE = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { targetRate, chunkSamples } = options.processorOptions;
+    this.ratio = sampleRate / targetRate;
+    this.position = 0;
+    this.sum = 0;
+    this.count = 0;
+    this.chunkSamples = chunkSamples;
+    this.buffer = new Int16Array(chunkSamples);
+    this.filled = 0;
+    this.stopped = false;
+    this.port.onmessage = (e) => { if (e.data === 'stop') this.stopped = true; };
+  }
+
+  process(inputs) {
+    if (this.stopped) return false;
+    const channel = inputs[0] && inputs[0][0];
+    if (!channel) return true;
+
+    for (let i = 0; i < channel.length; i++) {
+      // Average the input samples that fall into one output sample (cheap low-pass)
+      this.sum += channel[i];
+      this.count++;
+      this.position++;
+      if (this.position < this.ratio) continue;
+      this.position -= this.ratio;
+
+      const sample = Math.max(-1, Math.min(1, this.sum / this.count));
+      this.sum = 0;
+      this.count = 0;
+      this.buffer[this.filled++] = sample < 0 ? sample * 0x8000 : sample * 0x7fff;
+
+      if (this.filled === this.chunkSamples) {
+        this.port.postMessage(this.buffer, [this.buffer.buffer]);
+        this.buffer = new Int16Array(this.chunkSamples);
+        this.filled = 0;
+      }
+    }
+    return true;
+  }
+}
+
+registerProcessor('${PROCESSOR_NAME}', PcmCaptureProcessor);
+`;
+
+export type AudioChunkListener = (pcm: Int16Array) => void;
+
+export interface AudioCapture {
+  stream: MediaStream;
+  sampleRate: number; // Always CAPTURE_SAMPLE_RATE
+  // Returns an unsubscribe function
+  subscribe: (listener: AudioChunkListener) => () => void;
+  // Stops the worklet, closes the AudioContext and stops the stream's tracks
+  stop: () => Promise<void>;
+}
+
+let workletUrl: string | null = null;
+
+function getWorkletUrl(): string {
+  if (!workletUrl) {
+    workletUrl = URL.createObjectURL(new Blob([WORKLET_SOURCE], { type: 'application/javascript' }));
+  }
+  return workletUrl;
+}
+
+/**
+ * Start capturing 16 kHz PCM16 chunks from a microphone stream. The capture
+ * owns the stream: stop() ends its tracks.
+ */
+export async function startAudioCapture(stream: MediaStream): Promise<AudioCapture> {
+  const ctx = new AudioContext();
+  if (!ctx.audioWorklet) {
+    await ctx.close();
+    throw new Error('AudioWorklet is not supported in this browser');
+  }
+
+  await ctx.audioWorklet.addModule(getWorkletUrl());
+  const source = ctx.createMediaStreamSource(stream);
+  const node = new AudioWorkletNode(ctx, PROCESSOR_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 0,
+    channelCount: 1,
+    channelCountMode: 'explicit',
+    processorOptions: { targetRate: CAPTURE_SAMPLE_RATE, chunkSamples: CHUNK_SAMPLES }
+  });
+
+  const listeners = new Set<AudioChunkListener>();
+  node.port.onmessage = (e: MessageEvent<Int16Array>) => {
+    listeners.forEach(listener => listener(e.data));
+  };
+  source.connect(node);
+
+  let stopped = false;
+
+  return {
+    stream,
+    sampleRate: CAPTURE_SAMPLE_RATE,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+    stop: async () => {
+      if (stopped) return;
+      stopped = true;
+      listeners.clear();
+      node.port.postMessage('stop');
+      node.port.onmessage = null;
+      source.disconnect();
+      node.disconnect();
+      stream.getTracks().forEach(track => track.stop());
+      await ctx.close().catch(() => { });
+    }
+  };
+}
@@ -0,0 +1,78 @@
+import { VOICE_ACCENTS, VoiceAccent, getWebSpeechVoice } from './voiceService';
+
+// One AudioContext shared by all teacher voice and word playback. Browsers
+// cap how many contexts a page may open, and each one keeps an audio thread alive.
+
+let sharedContext: AudioContext | null = null;
+
+/**
+ * The shared playback context, resumed if the browser suspended it
+ */
+export function getAudioContext(): AudioContext {
+  if (!sharedContext || sharedContext.state === 'closed') {
+    sharedContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+  }
+  if (sharedContext.state === 'suspended') {
+    sharedContext.resume().catch(err => console.warn('[Audio] Could not resume playback:', err));
+  }
+  return sharedContext;
+}
+
+export interface Playback {
+  startedAt: number; // Context time at which the start of the buffer would have played
+  ended: Promise<void>; // Resolves when the sound finishes or is stopped
+  stop: () => void;
+}
+
+/**
+ * Play a buffer through the shared context, from an offset in seconds
+ */
+export function playBuffer(buffer: AudioBuffer, offset = 0): Playback {
+  const ctx = getAudioContext();
+  const source = ctx.createBufferSource();
+  source.buffer = buffer;
+  source.connect(ctx.destination);
+  const ended = new Promise<void>(resolve => {
+    source.onended = () => {
+      source.disconnect();
+      resolve();
+    };
+  });
+  source.start(0, offset);
+
+  return {
+    startedAt: ctx.currentTime - offset,
+    ended,
+    stop: () => {
+      try {
+        source.stop();
+      } catch {
+        // Already stopped
+      }
+    }
+  };
+}
+
+/**
+ * Browser speech for text in an accent, used when no TTS audio could be generated
+ */
+export function createUtterance(text: string, rate: number, accent: VoiceAccent = 'us'): SpeechSynthesisUtterance {
+  const utterance = new SpeechSynthesisUtterance(text);
+  utterance.lang = VOICE_ACCENTS[accent].lang;
+  const voice = getWebSpeechVoice(accent);
+  if (voice) utterance.voice = voice;
+  utterance.rate = rate;
+  return utterance;
+}
+
+/**
+ * Read text with the browser's speech synthesis. Resolves when the utterance ends.
+ */
+export function speakWithWebSpeech(text: string, rate: number, accent: VoiceAccent = 'us'): Promise<void> {
+  return new Promise(resolve => {
+    const utterance = createUtterance(text, rate, accent);
+    utterance.onend = () => resolve();
+    utterance.onerror = () => resolve();
+    window.speechSynthesis.speak(utterance);
+  });
+}
@@ -0,0 +1,106 @@
+import { CoverageReport } from '../types';
+import { ModelEvaluation } from './aiProvider';
+import { normalizeText } from './alignmentService';
+
+// Local task-fulfillment check: how much of the script's content the child
+// actually said, computed without the model so the off-topic rule can't be skipped.
+
+// Below this share of content words the attempt counts as off-topic (all scores 0)
+export const OFF_TOPIC_THRESHOLD = 0.15;
+// A sentence counts as covered when at least this share of its content words was said
+const SENTENCE_COVERED_RATIO = 0.5;
+// Weight of the local score when blending with the model's taskFulfillment
+const LOCAL_TASK_WEIGHT = 0.6;
+// Differences larger than this between model and local scores are explained
+const DISAGREEMENT_POINTS = 2;
+
+const STOP_WORDS = new Set([
+    'a', 'an', 'the', 'and', 'or', 'but', 'so', 'to', 'of', 'in', 'on', 'at', 'by', 'for', 'with',
+    'is', 'am', 'are', 'was', 'were', 'be', 'been', 'do', 'does', 'did', 'have', 'has', 'had',
+    'i', 'you', 'he', 'she', 'it', 'we', 'they', 'me', 'him', 'her', 'us', 'them',
+    'my', 'your', 'his', 'its', 'our', 'their', 'this', 'that', 'these', 'those',
+    'there', 'here', 'very', 'can', 'will', 'would', 'not', 'too', 'also', 'as', 'from', 'up'
+]);
+
+const contentWords = (text: string) => normalizeText(text).filter(w => w.length > 1 && !STOP_WORDS.has(w));
+
+/**
+ * Length of the longest common subsequence of two word lists
+ */
+function lcsLength(a: string[], b: string[]): number {
+    let prev = new Array<number>(b.length + 1).fill(0);
+    for (let i = 1; i <= a.length; i++) {
+        const row = new Array<number>(b.length + 1).fill(0);
+        for (let j = 1; j <= b.length; j++) {
+            row[j] = a[i - 1] === b[j - 1] ? prev[j - 1] + 1 : Math.max(prev[j], row[j - 1]);
+        }
+        prev = row;
+    }
+    return prev[b.length];
+}
+
+/**
+ * Measure how much of the script's content the transcript covers
+ */
+export function computeCoverage(script: string, transcript: string): CoverageReport {
+    const scriptWords = contentWords(script);
+    const spokenWords = contentWords(transcript);
+    const spokenSet = new Set(spokenWords);
+
+    const vocabulary = new Set(scriptWords);
+    const contentCoverage = vocabulary.size > 0
+        ? [...vocabulary].filter(w => spokenSet.has(w)).length / vocabulary.size
+        : 0;
+
+    const sentences = script.split(/(?<=[.!?])\s+/).map(contentWords).filter(words => words.length > 0);
+    const sentenceCoverage = sentences.length > 0
+        ? sentences.filter(words => words.filter(w => spokenSet.has(w)).length / words.length >= SENTENCE_COVERED_RATIO).length / sentences.length
+        : 0;
+
+    // Of the script words that were said, how many came in script order
+    const spokenFromScript = spokenWords.filter(w => vocabulary.has(w));
+    const orderPreservation = spokenFromScript.length > 0
+        ? lcsLength(scriptWords, spokenFromScript) / spokenFromScript.length
+        : 0;
+
+    const taskScore = Math.round((contentCoverage * 0.5 + sentenceCoverage * 0.3 + orderPreservation * 0.2) * 100) / 10;
+
+    return {
+        contentCoverage: Math.round(contentCoverage * 100) / 100,
+        sentenceCoverage: Math.round(sentenceCoverage * 100) / 100,
+        orderPreservation: Math.round(orderPreservation * 100) / 100,
+        taskScore,
+        offTopic: contentCoverage < OFF_TOPIC_THRESHOLD
+    };
+}
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+/**
+ * Apply the coverage check to the model's scores: enforce the off-topic rule,
+ * blend taskFulfillment and explain any change
+ */
+export function reconcileWithCoverage(raw: ModelEvaluation, coverage: CoverageReport): { evaluation: ModelEvaluation; notes: string[] } {
+    const notes: string[] = [];
+
+    if (coverage.offTopic) {
+        notes.push(`Con chỉ nói được ${percent(coverage.contentCoverage)} từ khóa của bài đọc nên bài được tính là lạc đề: tất cả điểm = 0.`);
+        return {
+            evaluation: { ...raw, pronunciation: 0, fluency: 0, intonation: 0, vocabulary: 0, grammar: 0, taskFulfillment: 0 },
+            notes
+        };
+    }
+
+    const modelTask = raw.taskFulfillment;
+    const taskFulfillment = Math.round((coverage.taskScore * LOCAL_TASK_WEIGHT + modelTask * (1 - LOCAL_TASK_WEIGHT)) * 10) / 10;
+    if (Math.abs(coverage.taskScore - modelTask) > DISAGREEMENT_POINTS) {
+        notes.push(`Điểm hoàn thành bài được điều chỉnh từ ${modelTask} thành ${taskFulfillment} vì con đã nói ${percent(coverage.contentCoverage)} từ khóa và ${percent(coverage.sentenceCoverage)} số câu.`);
+    }
+
+    const modelTotal = raw.pronunciation + raw.fluency + raw.intonation + raw.vocabulary + raw.grammar + raw.taskFulfillment;
+    if (modelTotal === 0) {
+        notes.push(`AI chấm bài là lạc đề, nhưng con đã đọc ${percent(coverage.contentCoverage)} từ khóa của bài. Thầy cô nên nghe lại bản thu để kiểm tra.`);
+    }
+
+    return { evaluation: { ...raw, taskFulfillment }, notes };
+}
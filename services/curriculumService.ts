@@ -0,0 +1,215 @@
+import { CEFRLevel, LessonFocus, Theme } from '../types';
+import { CEFR_LEVELS, PREDEFINED_THEMES } from '../constants';
+
+// Teacher-defined units: an ordered path of themes at one level, with target
+// words, a grammar point and the score a lesson needs to unlock the next one.
+
+export interface CurriculumUnit {
+    id: string;
+    name: string;
+    level: CEFRLevel;
+    themeIds: string[]; // PREDEFINED_THEMES ids, in lesson order
+    targetVocabulary: string[];
+    grammarFocus: string;
+    passScore: number; // Lowest lesson score (0-10) that counts as passed
+}
+
+export interface UnitLessonProgress {
+    theme: Theme;
+    bestScore: number | null; // null = not tried yet
+    passed: boolean;
+    unlocked: boolean;
+}
+
+export interface UnitProgress {
+    lessons: UnitLessonProgress[];
+    passedCount: number;
+    isComplete: boolean;
+    next?: Theme; // First unlocked lesson not passed yet
+}
+
+// Best score per lesson: profileId -> unitId -> themeId -> score
+type StoredProgress = Record<string, Record<string, Record<string, number>>>;
+
+const UNITS_KEY = 'speakpro_curriculum';
+const PROGRESS_KEY = 'speakpro_curriculum_progress';
+const EXPORT_FORMAT = 'speakpro-curriculum';
+
+export const DEFAULT_UNITS: CurriculumUnit[] = [
+    {
+        id: 'unit_home',
+        name: 'Ở nhà',
+        level: 'Starters',
+        themeIds: ['1', '8', '4', '7'],
+        targetVocabulary: ['mother', 'father', 'bed', 'dog', 'cat', 'milk', 'bread'],
+        grammarFocus: 'This is... / I have got...',
+        passScore: 6
+    },
+    {
+        id: 'unit_outdoors',
+        name: 'Đi chơi ngoài trời',
+        level: 'Movers',
+        themeIds: ['3', '17', '5', '10', '14'],
+        targetVocabulary: ['swing', 'slide', 'sand', 'umbrella', 'run', 'jump', 'kick'],
+        grammarFocus: 'Present continuous: They are playing...',
+        passScore: 6.5
+    },
+    {
+        id: 'unit_adventures',
+        name: 'Khám phá thế giới',
+        level: 'Flyers',
+        themeIds: ['6', '12', '13', '11', '18'],
+        targetVocabulary: ['wild', 'ocean', 'planet', 'astronaut', 'robot', 'farmer', 'explore'],
+        grammarFocus: 'Past simple: Yesterday we visited...',
+        passScore: 7
+    }
+];
+
+export const createUnitId = () => `unit_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+/**
+ * Check a unit's shape, throwing a readable error if it can't be used
+ */
+export function validateUnit(value: unknown): CurriculumUnit {
+    const unit = value as CurriculumUnit;
+    if (!unit || typeof unit !== 'object' || !unit.id || !Array.isArray(unit.themeIds)) {
+        throw new Error('Học phần không hợp lệ: thiếu id hoặc themeIds');
+    }
+    const name = String(unit.name || '').trim();
+    if (!name) throw new Error('Học phần cần có tên');
+    if (!CEFR_LEVELS.includes(unit.level)) throw new Error(`Cấp độ không hợp lệ cho "${name}": ${unit.level}`);
+    const themeIds = unit.themeIds.map(String).filter(id => PREDEFINED_THEMES.some(t => t.id === id));
+    if (themeIds.length === 0) throw new Error(`Học phần "${name}" cần ít nhất một chủ đề`);
+    if (typeof unit.passScore !== 'number' || unit.passScore < 0 || unit.passScore > 10) {
+        throw new Error(`Điểm qua bài của "${name}" phải từ 0 đến 10`);
+    }
+    return {
+        id: String(unit.id),
+        name,
+        level: unit.level,
+        themeIds,
+        targetVocabulary: (Array.isArray(unit.targetVocabulary) ? unit.targetVocabulary : [])
+            .map(word => String(word).trim()).filter(Boolean),
+        grammarFocus: String(unit.grammarFocus || '').trim(),
+        passScore: unit.passScore
+    };
+}
+
+/**
+ * Units in teaching order (the built-in ones until a teacher saves their own,
+ * or when the saved ones are no longer valid)
+ */
+export function getUnits(): CurriculumUnit[] {
+    try {
+        const data = localStorage.getItem(UNITS_KEY);
+        if (!data) return DEFAULT_UNITS;
+        const units = JSON.parse(data);
+        if (!Array.isArray(units)) return DEFAULT_UNITS;
+        return units.map(validateUnit);
+    } catch (err) {
+        console.warn('[Curriculum] Saved units are invalid, using the built-in ones:', err);
+        return DEFAULT_UNITS;
+    }
+}
+
+/**
+ * Replace all units
+ */
+export function saveUnits(units: CurriculumUnit[]): void {
+    const valid = units.map(validateUnit);
+    if (new Set(valid.map(u => u.id)).size !== valid.length) {
+        throw new Error('Có hai học phần trùng id');
+    }
+    localStorage.setItem(UNITS_KEY, JSON.stringify(valid));
+}
+
+/**
+ * Go back to the built-in units
+ */
+export function resetUnits(): void {
+    localStorage.removeItem(UNITS_KEY);
+}
+
+/**
+ * Themes of a unit in lesson order
+ */
+export function getUnitThemes(unit: CurriculumUnit): Theme[] {
+    return unit.themeIds
+        .map(id => PREDEFINED_THEMES.find(t => t.id === id))
+        .filter((t): t is Theme => !!t);
+}
+
+/**
+ * What a unit's scripts should practise
+ */
+export function getLessonFocus(unit: CurriculumUnit): LessonFocus {
+    return { vocabulary: unit.targetVocabulary, grammar: unit.grammarFocus };
+}
+
+function loadProgress(): StoredProgress {
+    try {
+        const data = localStorage.getItem(PROGRESS_KEY);
+        return data ? JSON.parse(data) : {};
+    } catch {
+        return {};
+    }
+}
+
+/**
+ * A learner's progress through a unit. The first lesson is always open;
+ * each later one opens once the one before it has been passed.
+ */
+export function getUnitProgress(unit: CurriculumUnit, profileId: string): UnitProgress {
+    const scores = loadProgress()[profileId]?.[unit.id] || {};
+    let previousPassed = true;
+    const lessons = getUnitThemes(unit).map(theme => {
+        const bestScore = scores[theme.id] ?? null;
+        const passed = bestScore !== null && bestScore >= unit.passScore;
+        const unlocked = previousPassed;
+        previousPassed = passed;
+        return { theme, bestScore, passed, unlocked };
+    });
+    const passedCount = lessons.filter(l => l.passed).length;
+    return {
+        lessons,
+        passedCount,
+        isComplete: lessons.length > 0 && passedCount === lessons.length,
+        next: lessons.find(l => l.unlocked && !l.passed)?.theme
+    };
+}
+
+/**
+ * Keep a learner's best score for a unit lesson
+ */
+export function recordUnitScore(profileId: string, unitId: string, themeId: string, score: number): void {
+    const progress = loadProgress();
+    const learnerScores = progress[profileId] || {};
+    const unitScores = learnerScores[unitId] || {};
+    unitScores[themeId] = Math.max(unitScores[themeId] ?? 0, score);
+    learnerScores[unitId] = unitScores;
+    progress[profileId] = learnerScores;
+    localStorage.setItem(PROGRESS_KEY, JSON.stringify(progress));
+}
+
+/**
+ * Export all units as JSON
+ */
+export function exportCurriculum(): string {
+    return JSON.stringify({ format: EXPORT_FORMAT, exportedAt: new Date().toISOString(), units: getUnits() }, null, 2);
+}
+
+/**
+ * Replace all units with ones from exported JSON
+ */
+export function importCurriculum(json: string): void {
+    let parsed: any;
+    try {
+        parsed = JSON.parse(json);
+    } catch {
+        throw new Error('File không phải JSON hợp lệ');
+    }
+    if (parsed?.format !== EXPORT_FORMAT || !Array.isArray(parsed.units)) {
+        throw new Error('File này không phải lộ trình học đã xuất từ ứng dụng');
+    }
+    saveUnits(parsed.units);
+}
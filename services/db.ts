@@ -0,0 +1,127 @@
+const DB_NAME = 'speakpro';
+
+export const STORES = {
+    lessons: 'lessons',
+    lessonPayloads: 'lessonPayloads',
+    words: 'words',
+    dictionary: 'dictionary',
+    audio: 'audio'
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+/**
+ * Schema migrations, one per version. Entry N upgrades a database from
+ * version N to N + 1, so new stores are added by appending an entry.
+ */
+const MIGRATIONS: ((db: IDBDatabase, tx: IDBTransaction) => void)[] = [
+    // v1: lesson summaries + large per-lesson payloads (transcripts, recordings)
+    (db) => {
+        const lessons = db.createObjectStore(STORES.lessons, { keyPath: 'id' });
+        lessons.createIndex('profileId', 'profileId');
+        lessons.createIndex('date', 'date');
+        db.createObjectStore(STORES.lessonPayloads, { keyPath: 'id' });
+    },
+    // v2: "My Words" notebook with spaced-repetition schedules
+    (db) => {
+        const words = db.createObjectStore(STORES.words, { keyPath: 'id' });
+        words.createIndex('profileId', 'profileId');
+    },
+    // v3: word meanings shared by all learners, so lookups survive a reload
+    (db) => {
+        db.createObjectStore(STORES.dictionary, { keyPath: 'word' });
+    },
+    // v4: generated speech, keyed by a hash of text, voice and speed
+    (db) => {
+        const audio = db.createObjectStore(STORES.audio, { keyPath: 'key' });
+        audio.createIndex('lastUsedAt', 'lastUsedAt');
+    }
+];
+
+export const DB_VERSION = MIGRATIONS.length;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Open (and upgrade if needed) the app database. The connection is shared.
+ */
+export function openDatabase(): Promise<IDBDatabase> {
+    if (dbPromise) return dbPromise;
+
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+            reject(new Error('IndexedDB is not available'));
+            return;
+        }
+
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = (event) => {
+            const db = request.result;
+            const tx = request.transaction!;
+            for (let version = event.oldVersion; version < DB_VERSION; version++) {
+                MIGRATIONS[version](db, tx);
+            }
+        };
+        request.onsuccess = () => {
+            const db = request.result;
+            // Let a newer tab upgrade the schema
+            db.onversionchange = () => {
+                db.close();
+                dbPromise = null;
+            };
+            resolve(db);
+        };
+        request.onerror = () => reject(request.error);
+        // Another tab still has the old version open; the request goes on once it closes
+        request.onblocked = () => console.warn('[DB] Upgrade waiting for another tab to close');
+    }).catch(err => {
+        dbPromise = null;
+        throw err;
+    });
+
+    return dbPromise;
+}
+
+/**
+ * Wrap an IDBRequest in a promise
+ */
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+/**
+ * Run work inside a transaction and resolve with its result once the
+ * transaction has committed
+ */
+export async function withStore<T>(
+    storeNames: StoreName | StoreName[],
+    mode: IDBTransactionMode,
+    fn: (tx: IDBTransaction) => Promise<T> | T
+): Promise<T> {
+    const db = await openDatabase();
+    const tx = db.transaction(storeNames, mode);
+    const done = new Promise<void>((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error || new Error('Transaction aborted'));
+    });
+    // Handled here so a failed transaction is reported once, by whichever
+    // of fn or done fails first, and never as an unhandled rejection
+    done.catch(() => {});
+    let result: T;
+    try {
+        result = await fn(tx);
+    } catch (err) {
+        try {
+            tx.abort();
+        } catch {
+            // Already finished or aborted
+        }
+        throw err;
+    }
+    await done;
+    return result;
+}
@@ -0,0 +1,121 @@
+import { STORES, requestToPromise, withStore } from './db';
+import { WordMeaning } from './aiProvider';
+
+// Persistent word-meaning store shared by all learners, so a word is only
+// paid for once. Teachers can export it and import it on another device.
+
+export type DictionarySource = 'ai' | 'starter' | 'import';
+
+export interface DictionaryEntry {
+    word: string; // Lower case, no punctuation
+    meaning: WordMeaning;
+    source: DictionarySource;
+    version: number; // DICTIONARY_VERSION the entry was saved with
+    savedAt: string; // ISO string
+}
+
+// Bump when the shape or prompt of meanings changes; entries saved with an older version are fetched again
+export const DICTIONARY_VERSION = 1;
+const EXPORT_FORMAT = 'speakpro-dictionary';
+
+export const cleanDictionaryWord = (word: string) => word.toLowerCase().replace(/[.,!?;:'"()]/g, '').trim();
+
+const isCurrent = (entry: DictionaryEntry | undefined): entry is DictionaryEntry =>
+    !!entry && entry.version === DICTIONARY_VERSION && !!entry.meaning?.meaning;
+
+/**
+ * Stored meanings for the given (clean) words; words not stored are left out
+ */
+export async function getStoredMeanings(words: string[]): Promise<Record<string, WordMeaning>> {
+    const entries = await withStore(STORES.dictionary, 'readonly', (tx) => {
+        const store = tx.objectStore(STORES.dictionary);
+        return Promise.all(words.map(word => requestToPromise(store.get(word) as IDBRequest<DictionaryEntry | undefined>)));
+    });
+    const meanings: Record<string, WordMeaning> = {};
+    entries.filter(isCurrent).forEach(entry => {
+        meanings[entry.word] = entry.meaning;
+    });
+    return meanings;
+}
+
+/**
+ * Save meanings keyed by clean word
+ */
+export async function saveMeanings(meanings: Record<string, WordMeaning>, source: DictionarySource): Promise<void> {
+    const savedAt = new Date().toISOString();
+    await withStore(STORES.dictionary, 'readwrite', (tx) => {
+        const store = tx.objectStore(STORES.dictionary);
+        Object.entries(meanings).forEach(([word, meaning]) => {
+            const entry: DictionaryEntry = { word, meaning, source, version: DICTIONARY_VERSION, savedAt };
+            store.put(entry);
+        });
+    });
+}
+
+/**
+ * Number of words in the store
+ */
+export async function countDictionaryEntries(): Promise<number> {
+    return withStore(STORES.dictionary, 'readonly', (tx) =>
+        requestToPromise(tx.objectStore(STORES.dictionary).count())
+    );
+}
+
+/**
+ * Add the bundled starter dictionary, keeping meanings that are already
+ * stored. Returns how many words were added.
+ */
+export async function loadStarterDictionary(): Promise<number> {
+    const { STARTER_DICTIONARY } = await import('./starterDictionary');
+    const stored = await getStoredMeanings(Object.keys(STARTER_DICTIONARY));
+    const missing = Object.fromEntries(Object.entries(STARTER_DICTIONARY).filter(([word]) => !stored[word]));
+    await saveMeanings(missing, 'starter');
+    return Object.keys(missing).length;
+}
+
+/**
+ * Export the whole store as JSON
+ */
+export async function exportDictionary(): Promise<string> {
+    const entries = await withStore(STORES.dictionary, 'readonly', (tx) =>
+        requestToPromise(tx.objectStore(STORES.dictionary).getAll() as IDBRequest<DictionaryEntry[]>)
+    );
+    return JSON.stringify({
+        format: EXPORT_FORMAT,
+        version: DICTIONARY_VERSION,
+        exportedAt: new Date().toISOString(),
+        entries: entries.filter(isCurrent).map(entry => ({ word: entry.word, ...entry.meaning }))
+    }, null, 2);
+}
+
+/**
+ * Add words from exported JSON, replacing stored meanings of the same words.
+ * Returns how many words were imported.
+ */
+export async function importDictionary(json: string): Promise<number> {
+    let parsed: any;
+    try {
+        parsed = JSON.parse(json);
+    } catch {
+        throw new Error('File không phải JSON hợp lệ');
+    }
+    if (parsed?.format !== EXPORT_FORMAT || !Array.isArray(parsed.entries)) {
+        throw new Error('File này không phải từ điển đã xuất từ ứng dụng');
+    }
+    if (typeof parsed.version !== 'number' || parsed.version > DICTIONARY_VERSION) {
+        throw new Error('File từ điển được tạo từ phiên bản mới hơn của ứng dụng');
+    }
+
+    const meanings: Record<string, WordMeaning> = {};
+    parsed.entries.forEach((entry: any) => {
+        const word = cleanDictionaryWord(String(entry?.word || ''));
+        if (!word || typeof entry.meaning !== 'string' || !entry.meaning.trim()) return;
+        meanings[word] = {
+            meaning: entry.meaning.trim(),
+            phonetic: typeof entry.phonetic === 'string' ? entry.phonetic : '',
+            example: typeof entry.example === 'string' ? entry.example : ''
+        };
+    });
+    await saveMeanings(meanings, 'import');
+    return Object.keys(meanings).length;
+}
@@ -0,0 +1,1013 @@
+
+import { GoogleGenAI, Type, Modality, LiveServerMessage } from "@google/genai";
+import { CEFRLevel, InterviewTurn, LessonFocus, YleLevel } from "../types";
+import {
+  AIProvider,
+  ComprehensionQuestionData,
+  LiveInterviewOptions,
+  LiveTranscriptionOptions,
+  LiveTranscriptionSession,
+  ModelEvaluation,
+  ModelFreeSpeechEvaluation,
+  ModelInterviewEvaluation,
+  ScriptDraft,
+  WordMeaning,
+  YleExamDraft,
+  YlePartAnswer,
+  ModelYleEvaluation
+} from "./aiProvider";
+import { getApiKey } from "./apiConfig";
+import { decode, decodeAudioData, encode } from "./audioUtils";
+import { getAudioContext } from "./audioPlayback";
+import { VoiceSettings, getTtsInstruction, getVoiceSettings } from "./voiceService";
+import { ModelTask, getModelChain, reportModelUsage } from "./modelRouter";
+import { PRONUNCIATION_CATEGORIES } from "./pronunciationService";
+
+const LIVE_MODEL = 'gemini-2.5-flash-native-audio-preview-12-2025';
+
+const PRONUNCIATION_ERROR_CATEGORIES = Object.keys(PRONUNCIATION_CATEGORIES);
+
+const PRONUNCIATION_ERRORS_INSTRUCTION = `- pronunciationErrors (array of {word, target, produced, category, tip} for each mispronounced sound: target = expected phoneme in IPA, produced = the sound heard instead in IPA or "" if dropped, category = one of ${PRONUNCIATION_ERROR_CATEGORIES.join(', ')} (typical Vietnamese-speaker errors: final consonants dropped, -s and -ed endings dropped, /θ/ → /t/, /ð/ → /d/, /ʃ/ → /s/, /l/ ↔ /n/, /iː/ ↔ /ɪ/, clusters simplified), tip in Vietnamese)`;
+
+function createClient(): GoogleGenAI {
+  const apiKey = getApiKey();
+  if (!apiKey) throw new Error("Vui lòng nhập API Key để sử dụng app.");
+  return new GoogleGenAI({ apiKey });
+}
+
+function isQuotaError(err: any): boolean {
+  const errorStr = JSON.stringify(err).toLowerCase();
+  const errorMessage = err?.message?.toLowerCase() || '';
+  return err?.status === 429 ||
+    errorMessage.includes('429') ||
+    errorStr.includes('quota') ||
+    errorStr.includes('resource_exhausted') ||
+    errorStr.includes('rate_limit');
+}
+
+// HTTP status of an API error, from the error itself or the JSON body in its message
+function getErrorStatus(err: any): number | undefined {
+  if (typeof err?.status === 'number') return err.status;
+  const match = /"code"\s*:\s*(\d{3})/.exec(err?.message || '');
+  return match ? Number(match[1]) : undefined;
+}
+
+function isServerError(err: any): boolean {
+  const status = getErrorStatus(err);
+  return (status !== undefined && [500, 502, 503, 504].includes(status)) ||
+    /\b(INTERNAL|UNAVAILABLE)\b/.test(err?.message || '');
+}
+
+// The model is unknown or retired; another model in the chain may still answer
+function isModelNotFoundError(err: any): boolean {
+  return getErrorStatus(err) === 404 || /\bNOT_FOUND\b/.test(err?.message || '');
+}
+
+/**
+ * Utility to handle retries with exponential backoff for API calls.
+ * Quota (429) errors are retried on the same model a few times; quota
+ * exhaustion, 5xx errors and unknown models then fail over to the next
+ * model in the chain.
+ * The model that finally answers is reported through the model router.
+ */
+async function callWithRetry<T>(task: ModelTask, fn: (model: string) => Promise<T>, retriesPerModel = 2): Promise<T> {
+  const chain = getModelChain();
+  let lastError: any = null;
+
+  for (const model of chain) {
+    let delay = 1500; // Start with 1.5s
+
+    for (let i = 0; i < retriesPerModel; i++) {
+      try {
+        const result = await fn(model);
+        reportModelUsage(task, model, model !== chain[0]);
+        return result;
+      } catch (err: any) {
+        lastError = err;
+
+        // Log full error for debugging
+        console.error(`[Gemini API] ${model} error attempt ${i + 1}/${retriesPerModel}:`, err);
+        console.error(`[Gemini API] Error message:`, err?.message);
+        console.error(`[Gemini API] Error status:`, err?.status);
+
+        if (isServerError(err)) {
+          console.warn(`[Gemini API] ${model} unavailable, failing over to next model`);
+          break;
+        }
+        if (isModelNotFoundError(err)) {
+          console.warn(`[Gemini API] ${model} not found, failing over to next model`);
+          break;
+        }
+
+        // If it's not a quota or server error, throw immediately with actual message
+        if (!isQuotaError(err)) {
+          throw new Error(err?.message || `Lỗi API: ${JSON.stringify(err)}`);
+        }
+
+        if (i < retriesPerModel - 1) {
+          console.warn(`[Gemini API] Quota exceeded on ${model}, retrying in ${delay}ms... (Attempt ${i + 1}/${retriesPerModel})`);
+          await new Promise(resolve => setTimeout(resolve, delay));
+          delay *= 2.5; // Aggressive exponential backoff
+        } else {
+          console.warn(`[Gemini API] Quota exhausted on ${model}, failing over to next model`);
+        }
+      }
+    }
+  }
+
+  // If every model failed, throw with the actual error message
+  const actualMessage = lastError?.message || 'Unknown error';
+  if (isQuotaError(lastError)) {
+    throw new Error("MÁY CHỦ BẬN: Ms Ly AI đang phục vụ quá nhiều bạn nhỏ. Bé chờ 30 giây rồi nhấn 'Thử lại' nhé!");
+  }
+  throw new Error(`Lỗi: ${actualMessage}`);
+}
+
+// Pre-encoded static fallback SVG (pure ASCII, no btoa needed)
+const FALLBACK_IMAGE_BASE64 = 'data:image/svg+xml;base64,PHN2ZyB4bWxucz0iaHR0cDovL3d3dy53My5vcmcvMjAwMC9zdmciIHdpZHRoPSI4MDAiIGhlaWdodD0iNDUwIj48ZGVmcz48bGluZWFyR3JhZGllbnQgaWQ9ImciIHgxPSIwJSIgeTE9IjAlIiB4Mj0iMTAwJSIgeTI9IjEwMCUiPjxzdG9wIG9mZnNldD0iMCUiIHN0b3AtY29sb3I9IiM2NjdlZWEiLz48c3RvcCBvZmZzZXQ9IjEwMCUiIHN0b3AtY29sb3I9IiM3NjRiYTIiLz48L2xpbmVhckdyYWRpZW50PjwvZGVmcz48cmVjdCB3aWR0aD0iODAwIiBoZWlnaHQ9IjQ1MCIgZmlsbD0idXJsKCNnKSIvPjx0ZXh0IHg9IjQwMCIgeT0iMjAwIiBmb250LWZhbWlseT0iQXJpYWwiIGZvbnQtc2l6ZT0iNTAiIGZpbGw9IndoaXRlIiB0ZXh0LWFuY2hvcj0ibWlkZGxlIj5MZXQncyBMZWFybiE8L3RleHQ+PHRleHQgeD0iNDAwIiB5PSIyNjAiIGZvbnQtZmFtaWx5PSJBcmlhbCIgZm9udC1zaXplPSIyNCIgZmlsbD0id2hpdGUiIHRleHQtYW5jaG9yPSJtaWRkbGUiPkltYWdpbmUgYSBiZWF1dGlmdWwgcGljdHVyZSBoZXJlPC90ZXh0Pjwvc3ZnPg==';
+
+const generateIllustration = async (theme: string): Promise<string> => {
+  const ai = createClient();
+  const prompt = `A highly vibrant, artistic, and detailed 3D Disney/Pixar style illustration for children showing: ${theme}. Soft lighting, friendly faces, bright colors. High quality.`;
+
+  // Try multiple image models in order (updated list for 2026)
+  const imageModels = [
+    'gemini-2.0-flash-exp-image-generation',  // Latest exp model
+    'imagen-3.0-generate-001',                 // Stable Imagen
+    'gemini-2.5-flash-preview-image',          // Preview
+    'gemini-2.0-flash-image-generation'        // Fallback
+  ];
+
+  for (const model of imageModels) {
+    try {
+      console.log(`[Image Gen] Trying model: ${model}`);
+      const response = await ai.models.generateContent({
+        model: model,
+        contents: { parts: [{ text: prompt }] },
+        config: {
+          responseModalities: ['IMAGE', 'TEXT'],
+          imageConfig: { aspectRatio: "16:9" }
+        }
+      });
+
+      for (const part of response.candidates?.[0]?.content?.parts || []) {
+        if (part.inlineData) {
+          console.log(`[Image Gen] Success with model: ${model}`);
+          return `data:image/png;base64,${part.inlineData.data}`;
+        }
+      }
+    } catch (err: any) {
+      console.warn(`[Image Gen] Model ${model} failed:`, err?.message);
+      continue; // Try next model
+    }
+  }
+
+  // Fallback: Try to fetch from Unsplash
+  console.warn('[Image Gen] All AI models failed, trying Unsplash fallback');
+  try {
+    const safeQuery = theme.replace(/[^a-zA-Z0-9\s]/g, '').trim() || 'learning children';
+    // Use picsum.photos as it's more reliable
+    const placeholderUrl = `https://picsum.photos/800/450`;
+    const response = await fetch(placeholderUrl);
+    if (response.ok) {
+      const blob = await response.blob();
+      return new Promise((resolve) => {
+        const reader = new FileReader();
+        reader.onloadend = () => resolve(reader.result as string);
+        reader.onerror = () => resolve(FALLBACK_IMAGE_BASE64);
+        reader.readAsDataURL(blob);
+      });
+    }
+  } catch (err) {
+    console.warn('[Image Gen] Image fetch failed:', err);
+  }
+
+  // Ultimate fallback: Return pre-encoded static SVG
+  console.warn('[Image Gen] Using static fallback image');
+  return FALLBACK_IMAGE_BASE64;
+};
+
+/**
+ * Image data to send alongside a prompt, or null for the SVG placeholder used when image generation failed
+ */
+function getInlineImage(imageUri: string): { mimeType: string; data: string } | null {
+  const isSvgFallback = imageUri.includes('image/svg+xml') || !imageUri.includes('base64,');
+  const isPng = imageUri.includes('image/png');
+  const isJpeg = imageUri.includes('image/jpeg') || imageUri.includes('image/jpg');
+  if (isSvgFallback || (!isPng && !isJpeg)) return null;
+  return { mimeType: isPng ? 'image/png' : 'image/jpeg', data: imageUri.split(',')[1] };
+}
+
+// Extra prompt lines asking a script to practise a curriculum unit's words and grammar
+const getFocusInstruction = (focus?: LessonFocus): string => {
+  const lines = [
+    focus?.vocabulary.length ? `- Use each of these target words at least once, naturally: ${focus.vocabulary.join(', ')}` : '',
+    focus?.grammar ? `- Practise this grammar point in several sentences: ${focus.grammar}` : ''
+  ].filter(Boolean);
+  return lines.length ? `\n\nLESSON FOCUS:\n${lines.join('\n')}` : '';
+};
+
+const generatePresentationScript = async (imageUri: string, theme: string, level: CEFRLevel, focus?: LessonFocus): Promise<ScriptDraft> => {
+  return callWithRetry('script', async (model) => {
+    const ai = createClient();
+
+    const levelInstructions = {
+      'Starters': 'Write exactly 20 words total using 4-5 extremely simple sentences. Use only basic vocabulary (colors, numbers, animals, family). Example structure: "This is a cat. The cat is orange. I like cats."',
+      'Movers': 'Write exactly 50 words total using 6-7 simple sentences. Use present tense and common words. Include basic adjectives.',
+      'Flyers': 'Write exactly 80 words total using 8-9 sentences. Include feelings and simple descriptions. Use present and past tense.',
+      'A1': 'Write 100-120 words total using 10-12 sentences. Focus on clear, simple structures. Use basic vocabulary and simple grammar.',
+      'A2': 'Write 150-180 words total using 12-15 sentences. Include some complex sentences. Use varied vocabulary.',
+      'B1': 'Write 200-250 words total using 15-18 sentences. Include opinions and reasons. Use connectors and transitions.',
+      'B2': 'Write 250-300 words total using 18-22 sentences. Sophisticated analysis with advanced vocabulary and complex structures.',
+      'C1': 'Write 300-350 words with academic detail and nuanced expression.',
+      'C2': 'Write 350-400 words with mastery-level complexity and eloquence.'
+    }[level] || '100-120 words in 10-12 sentences.';
+
+    const image = getInlineImage(imageUri);
+    let contentParts: any[];
+
+    if (image) {
+      // Use image + text prompt
+      contentParts = [
+        { inlineData: image },
+        {
+          text: `Based on this picture for the topic "${theme}", write a pedagogical English presentation script for a student at ${level} level.
+                 
+                 STRICT RULES:
+                 1. ${levelInstructions}
+                 2. CRITICAL: Use proper spacing between ALL words. Never combine words together.
+                 3. Each sentence must be complete with proper punctuation and spaces.
+                 4. Use normal English text with spaces like: "Hello everyone! Today I want to tell you..."
+                 5. DO NOT use double periods.
+                 6. Return JSON with: intro, points (array), conclusion.${getFocusInstruction(focus)}`
+        }
+      ];
+    } else {
+      // Use text-only prompt (fallback when image generation failed)
+      console.warn('[Script Gen] Using text-only prompt (no valid image)');
+      contentParts = [
+        {
+          text: `Create a pedagogical English presentation script about "${theme}" for a student at ${level} level.
+                 
+                 STRICT RULES:
+                 1. ${levelInstructions}
+                 2. CRITICAL: Use proper spacing between ALL words. Never combine words together.
+                 3. Each sentence must be complete with proper punctuation and spaces.
+                 4. Use normal English text with spaces like: "Hello everyone! Today I want to tell you..."
+                 5. DO NOT use double periods.
+                 6. Return JSON with: intro, points (array), conclusion.
+                 7. Make it engaging and educational for children.${getFocusInstruction(focus)}`
+        }
+      ];
+    }
+
+    const response = await ai.models.generateContent({
+      model,
+      contents: { parts: contentParts },
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            intro: { type: Type.STRING },
+            points: { type: Type.ARRAY, items: { type: Type.STRING } },
+            conclusion: { type: Type.STRING }
+          },
+          required: ["intro", "points", "conclusion"]
+        }
+      }
+    });
+
+    return JSON.parse(response.text || '{}');
+  });
+};
+
+const generateTeacherVoice = async (text: string, voice: VoiceSettings): Promise<AudioBuffer> => {
+  const ai = createClient();
+
+  // Try multiple TTS models in order
+  const ttsModels = ['gemini-2.5-flash-preview-tts', 'gemini-2.5-pro-preview-tts', 'gemini-2.0-flash-live'];
+
+  for (const model of ttsModels) {
+    try {
+      console.log(`[TTS] Trying model: ${model}`);
+      const response = await ai.models.generateContent({
+        model: model,
+        contents: [{ parts: [{ text: `${getTtsInstruction('script', voice)}: ${text}` }] }],
+        config: {
+          responseModalities: [Modality.AUDIO],
+          speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: voice.voice } } }
+        },
+      });
+
+      const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+      if (base64Audio) {
+        console.log(`[TTS] Success with model: ${model}`);
+        return decodeAudioData(decode(base64Audio), getAudioContext(), 24000, 1);
+      }
+    } catch (err: any) {
+      console.warn(`[TTS] Model ${model} failed:`, err?.message);
+      continue;
+    }
+  }
+
+  // Fallback: Use Web Speech API
+  console.warn('[TTS] All Gemini TTS models failed, using Web Speech API fallback');
+  throw new Error('TTS_FALLBACK_TO_WEB_SPEECH');
+};
+
+const evaluatePresentation = async (originalScript: string, transcript: string, level: CEFRLevel): Promise<ModelEvaluation> => {
+  return callWithRetry('evaluation', async (model) => {
+    const ai = createClient();
+    const response = await ai.models.generateContent({
+      model,
+      contents: `You are a CEFR Speaking Examiner. Evaluate this English presentation reading practice.
+
+TARGET SCRIPT (what student should read):
+"${originalScript}"
+
+STUDENT'S SPOKEN CONTENT:
+"${transcript}"
+
+EXPECTED LEVEL: ${level}
+
+CRITICAL RULES:
+1. This is a READING practice - student must read the TARGET SCRIPT
+2. If student speaks OFF-TOPIC (not reading the script), ALL scores = 0
+3. Compare student's speech with the target script carefully
+4. Use scale 0-10:
+   - 9-10: Excellent - Native-like
+   - 7-8: Good - Minor errors only  
+   - 5-6: Satisfactory - Some errors but understandable
+   - 3-4: Developing - Many errors, limited communication
+   - 1-2: Limited - Significant difficulty
+   - 0: Off-topic or no attempt
+
+EVALUATE ON 6 CEFR SPEAKING CRITERIA:
+1. Pronunciation (Phát âm) - Individual sounds, word stress
+2. Fluency (Độ trôi chảy) - Smooth delivery, natural pauses
+3. Intonation & Stress (Ngữ điệu) - Sentence melody, emphasis
+4. Vocabulary (Từ vựng) - Correct word usage from script
+5. Grammar (Ngữ pháp) - Accurate sentence structures
+6. Task Fulfillment (Hoàn thành bài) - Read correct content, complete the script
+
+Return JSON with:
+- pronunciation, fluency, intonation, vocabulary, grammar, taskFulfillment (0-10 each)
+- mistakes (array of {word, tip} for pronunciation/grammar errors)
+${PRONUNCIATION_ERRORS_INSTRUCTION}
+- feedback (Vietnamese, friendly, max 2 sentences)
+- teacherPraise (English, encouraging)
+- suggestions (2 specific tips in Vietnamese)`,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            pronunciation: { type: Type.NUMBER },
+            fluency: { type: Type.NUMBER },
+            intonation: { type: Type.NUMBER },
+            vocabulary: { type: Type.NUMBER },
+            grammar: { type: Type.NUMBER },
+            taskFulfillment: { type: Type.NUMBER },
+            mistakes: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: { word: { type: Type.STRING }, tip: { type: Type.STRING } }
+              }
+            },
+            pronunciationErrors: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  word: { type: Type.STRING },
+                  target: { type: Type.STRING },
+                  produced: { type: Type.STRING },
+                  category: { type: Type.STRING, enum: PRONUNCIATION_ERROR_CATEGORIES },
+                  tip: { type: Type.STRING }
+                },
+                required: ["word", "target", "produced", "category", "tip"]
+              }
+            },
+            feedback: { type: Type.STRING },
+            teacherPraise: { type: Type.STRING },
+            suggestions: { type: Type.ARRAY, items: { type: Type.STRING } }
+          },
+          required: ["pronunciation", "fluency", "intonation", "vocabulary", "grammar", "taskFulfillment", "mistakes", "feedback", "teacherPraise", "suggestions"]
+        }
+      }
+    });
+
+    return JSON.parse(response.text || '{}');
+  });
+};
+
+const evaluateFreeSpeech = async (imageUri: string, sampleDescription: string, transcript: string, level: CEFRLevel): Promise<ModelFreeSpeechEvaluation> => {
+  return callWithRetry('evaluation', async (model) => {
+    const ai = createClient();
+    const image = getInlineImage(imageUri);
+    const prompt = `You are a CEFR Speaking Examiner. A young learner was shown ${image ? 'this picture' : 'a picture'} and asked to describe it in English, speaking freely without a script.
+
+SAMPLE DESCRIPTION OF THE PICTURE (for reference only, the student never saw it):
+"${sampleDescription}"
+
+STUDENT'S SPOKEN CONTENT:
+"${transcript}"
+
+EXPECTED LEVEL: ${level}
+
+CRITICAL RULES:
+1. This is SPONTANEOUS SPEECH - do NOT penalise the student for not using the sample's words
+2. Reward anything true about the picture, even details the sample does not mention
+3. If the student talks about something unrelated to the picture, relevance = 0 and taskFulfillment = 0
+4. Judge range and grammar against what is expected at ${level}, not against adult speech
+5. Use scale 0-10:
+   - 9-10: Excellent - Native-like
+   - 7-8: Good - Minor errors only
+   - 5-6: Satisfactory - Some errors but understandable
+   - 3-4: Developing - Many errors, limited communication
+   - 1-2: Limited - Significant difficulty
+   - 0: Off-topic or no attempt
+
+EVALUATE ON THESE CRITERIA:
+1. Relevance (Đúng nội dung tranh) - Describes what is actually in the picture
+2. Range (Vốn từ và mẫu câu) - Variety of vocabulary and sentence patterns
+3. Coherence (Mạch lạc) - Ideas follow a sensible order, linked with simple connectors
+4. Pronunciation (Phát âm) - Individual sounds, word stress
+5. Fluency (Độ trôi chảy) - Speaks without long hesitations
+6. Intonation & Stress (Ngữ điệu) - Sentence melody, emphasis
+7. Vocabulary (Từ vựng) - Words used correctly
+8. Grammar (Ngữ pháp) - Accurate sentence structures
+9. Task Fulfillment (Hoàn thành bài) - Said enough about the picture for the level
+
+Return JSON with:
+- relevance, range, coherence, pronunciation, fluency, intonation, vocabulary, grammar, taskFulfillment (0-10 each)
+- mistakes (array of {word, tip} for pronunciation/grammar errors, tips in Vietnamese)
+${PRONUNCIATION_ERRORS_INSTRUCTION}
+- feedback (Vietnamese, friendly, max 2 sentences)
+- teacherPraise (English, encouraging)
+- suggestions (2 specific tips in Vietnamese, e.g. details of the picture the student could also describe)`;
+
+    const response = await ai.models.generateContent({
+      model,
+      contents: { parts: image ? [{ inlineData: image }, { text: prompt }] : [{ text: prompt }] },
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            relevance: { type: Type.NUMBER },
+            range: { type: Type.NUMBER },
+            coherence: { type: Type.NUMBER },
+            pronunciation: { type: Type.NUMBER },
+            fluency: { type: Type.NUMBER },
+            intonation: { type: Type.NUMBER },
+            vocabulary: { type: Type.NUMBER },
+            grammar: { type: Type.NUMBER },
+            taskFulfillment: { type: Type.NUMBER },
+            mistakes: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: { word: { type: Type.STRING }, tip: { type: Type.STRING } }
+              }
+            },
+            pronunciationErrors: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  word: { type: Type.STRING },
+                  target: { type: Type.STRING },
+                  produced: { type: Type.STRING },
+                  category: { type: Type.STRING, enum: PRONUNCIATION_ERROR_CATEGORIES },
+                  tip: { type: Type.STRING }
+                },
+                required: ["word", "target", "produced", "category", "tip"]
+              }
+            },
+            feedback: { type: Type.STRING },
+            teacherPraise: { type: Type.STRING },
+            suggestions: { type: Type.ARRAY, items: { type: Type.STRING } }
+          },
+          required: ["relevance", "range", "coherence", "pronunciation", "fluency", "intonation", "vocabulary", "grammar", "taskFulfillment", "mistakes", "feedback", "teacherPraise", "suggestions"]
+        }
+      }
+    });
+
+    return JSON.parse(response.text || '{}');
+  });
+};
+
+/**
+ * Get Vietnamese meaning, phonetic, and example for an English word
+ */
+const getWordMeaning = async (cleanWord: string): Promise<WordMeaning> => {
+  return callWithRetry('wordMeaning', async (model) => {
+    const ai = createClient();
+    const response = await ai.models.generateContent({
+      model,
+      contents: `Provide the Vietnamese translation for the English word "${cleanWord}".
+                 Return JSON with:
+                 - meaning: Vietnamese meaning (concise, 1-3 words)
+                 - phonetic: IPA phonetic transcription (e.g., /ˈæp.əl/)
+                 - example: A simple example sentence using this word (in English)
+                 
+                 Keep responses short and child-friendly.`,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            meaning: { type: Type.STRING },
+            phonetic: { type: Type.STRING },
+            example: { type: Type.STRING }
+          },
+          required: ["meaning", "phonetic", "example"]
+        }
+      }
+    });
+
+    return JSON.parse(response.text || '{}');
+  });
+};
+
+/**
+ * Get meanings for a batch of words in a single request
+ */
+const getWordMeanings = async (cleanWords: string[]): Promise<Record<string, WordMeaning>> => {
+  return callWithRetry('wordMeaning', async (model) => {
+    const ai = createClient();
+    const response = await ai.models.generateContent({
+      model,
+      contents: `Provide the Vietnamese translation for each of these English words: ${cleanWords.join(', ')}.
+                 For every word return:
+                 - word: the word exactly as given
+                 - meaning: Vietnamese meaning (concise, 1-3 words)
+                 - phonetic: IPA phonetic transcription (e.g., /ˈæp.əl/)
+                 - example: A simple example sentence using this word (in English)
+
+                 Keep responses short and child-friendly.`,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              word: { type: Type.STRING },
+              meaning: { type: Type.STRING },
+              phonetic: { type: Type.STRING },
+              example: { type: Type.STRING }
+            },
+            required: ["word", "meaning", "phonetic", "example"]
+          }
+        }
+      }
+    });
+
+    const items: (WordMeaning & { word: string })[] = JSON.parse(response.text || '[]');
+    return Object.fromEntries(items.map(({ word, ...meaning }) => [word.toLowerCase(), meaning]));
+  });
+};
+
+/**
+ * Pronounce a single word using TTS
+ */
+const generateWordAudio = async (word: string, voice: VoiceSettings): Promise<AudioBuffer | null> => {
+  const ai = createClient();
+  const response = await ai.models.generateContent({
+    model: "gemini-2.5-flash-preview-tts",
+    contents: [{ parts: [{ text: `${getTtsInstruction('word', voice)}: ${word}` }] }],
+    config: {
+      responseModalities: [Modality.AUDIO],
+      speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: voice.voice } } }
+    },
+  });
+
+  const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+  if (!base64Audio) return null;
+
+  return decodeAudioData(decode(base64Audio), getAudioContext(), 24000, 1);
+};
+
+/**
+ * Generate 10 comprehension questions based on the image and script
+ */
+const generateComprehensionQuestions = async (
+  imageUri: string,
+  script: string,
+  level: CEFRLevel
+): Promise<ComprehensionQuestionData[]> => {
+  return callWithRetry('quiz', async (model) => {
+    const ai = createClient();
+
+    const levelInstructions = {
+      'Starters': 'Very simple questions with 3 options. Use basic vocabulary (colors, numbers, animals).',
+      'Movers': 'Simple questions with 3 options. Use present tense and common words.',
+      'Flyers': 'Moderate questions with 4 options. Include some inference questions.',
+      'A1': 'Basic questions, 4 options. Focus on factual recall.',
+      'A2': 'Elementary questions, 4 options. Some vocabulary questions.',
+      'B1': 'Intermediate questions, 4 options. Include inference and vocabulary.',
+      'B2': 'Upper-intermediate, 4 options. Analysis and inference questions.',
+      'C1': 'Advanced questions, 4 options. Complex inference and critical thinking.',
+      'C2': 'Mastery level, 4 options. Nuanced understanding and analysis.'
+    }[level] || '4 options, moderate difficulty.';
+
+    const image = getInlineImage(imageUri);
+    let contentParts: any[];
+
+    if (image) {
+      // Use image + text prompt
+      contentParts = [
+        { inlineData: image },
+        {
+          text: `Based on this image and the presentation script below, create exactly 10 reading comprehension questions for a student at ${level} level.
+
+Presentation Script:
+"${script}"
+
+RULES:
+1. ${levelInstructions}
+2. Questions should be about the image AND the script content.
+3. Mix question types: factual recall (5), inference (3), vocabulary meaning (2).
+4. Each question must have exactly one correct answer.
+5. Explanations should be brief and educational (in Vietnamese for young learners).
+
+Return JSON array with 10 objects, each having:
+- question: string (the question in English)
+- options: string[] (3-4 answer options in English)
+- correctIndex: number (0-based index of correct answer)
+- explanation: string (brief explanation in Vietnamese why this is correct)`
+        }
+      ];
+    } else {
+      // Use text-only prompt (fallback when image generation failed)
+      console.warn('[Quiz Gen] Using text-only prompt (no valid image)');
+      contentParts = [
+        {
+          text: `Based on the presentation script below, create exactly 10 reading comprehension questions for a student at ${level} level.
+
+Presentation Script:
+"${script}"
+
+RULES:
+1. ${levelInstructions}
+2. Questions should be about the script content.
+3. Mix question types: factual recall (5), inference (3), vocabulary meaning (2).
+4. Each question must have exactly one correct answer.
+5. Explanations should be brief and educational (in Vietnamese for young learners).
+
+Return JSON array with 10 objects, each having:
+- question: string (the question in English)
+- options: string[] (3-4 answer options in English)
+- correctIndex: number (0-based index of correct answer)
+- explanation: string (brief explanation in Vietnamese why this is correct)`
+        }
+      ];
+    }
+
+    const response = await ai.models.generateContent({
+      model,
+      contents: { parts: contentParts },
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              question: { type: Type.STRING },
+              options: { type: Type.ARRAY, items: { type: Type.STRING } },
+              correctIndex: { type: Type.NUMBER },
+              explanation: { type: Type.STRING }
+            },
+            required: ["question", "options", "correctIndex", "explanation"]
+          }
+        }
+      }
+    });
+
+    const questions = JSON.parse(response.text || '[]');
+    return questions.slice(0, 10);
+  });
+};
+
+const generateYleExam = async (theme: string, level: YleLevel): Promise<YleExamDraft> => {
+  return callWithRetry('script', async (model) => {
+    const ai = createClient();
+    const response = await ai.models.generateContent({
+      model,
+      contents: `You are writing a Cambridge English ${level} (Young Learners) mock speaking test on the topic "${theme}".
+Use only vocabulary and grammar from the official ${level} word list.
+
+Write:
+- scene: one sentence describing a busy picture about the topic with 6-8 clearly visible people, animals or objects (used to draw the picture)
+- pointingQuestions: ${level === 'Starters' ? 4 : 5} short questions about the picture ("Where is the ...?", "What colour is the ...?", "What is the boy doing?")
+- differences: 4 sentences the examiner says about HER picture, each one different from the scene (e.g. "In my picture, the dog is black." when the dog in the scene is brown)
+- storyTitle: a short title for a picture story with the same topic
+- storyPanels: exactly 4 panel descriptions of a simple story, one sentence each (used to draw the story)
+- personalQuestions: ${level === 'Flyers' ? 5 : 4} personal questions about the child's life connected to the topic
+- sampleAnswers: a good answer for a ${level} child for each part (pointing, differences, story, personal)`,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            scene: { type: Type.STRING },
+            pointingQuestions: { type: Type.ARRAY, items: { type: Type.STRING } },
+            differences: { type: Type.ARRAY, items: { type: Type.STRING } },
+            storyTitle: { type: Type.STRING },
+            storyPanels: { type: Type.ARRAY, items: { type: Type.STRING } },
+            personalQuestions: { type: Type.ARRAY, items: { type: Type.STRING } },
+            sampleAnswers: {
+              type: Type.OBJECT,
+              properties: {
+                pointing: { type: Type.STRING },
+                differences: { type: Type.STRING },
+                story: { type: Type.STRING },
+                personal: { type: Type.STRING }
+              },
+              required: ["pointing", "differences", "story", "personal"]
+            }
+          },
+          required: ["scene", "pointingQuestions", "differences", "storyTitle", "storyPanels", "personalQuestions", "sampleAnswers"]
+        }
+      }
+    });
+
+    return JSON.parse(response.text || '{}');
+  });
+};
+
+const evaluateYleExam = async (answers: YlePartAnswer[], level: YleLevel): Promise<ModelYleEvaluation> => {
+  return callWithRetry('evaluation', async (model) => {
+    const ai = createClient();
+    const partsText = answers.map((a, i) => `PART ${i + 1} (${a.part})
+EXAMINER: "${a.prompt}"
+CHILD: "${a.transcript.trim()}"`).join('\n\n');
+    const response = await ai.models.generateContent({
+      model,
+      contents: `You are a Cambridge English ${level} Speaking Examiner. Mark this mock speaking test.
+
+${partsText}
+
+CRITICAL RULES:
+1. Mark each part against what is expected at ${level}, not against adult speech
+2. Transcripts come from speech recognition and may contain recognition errors
+3. Give each part 1-5 shields like the Cambridge statement of results:
+   - 5: Excellent - answers everything easily with some detail
+   - 4: Good - answers almost everything with minor errors
+   - 3: Satisfactory - answers most prompts, some one-word answers
+   - 2: Developing - few or very short answers
+   - 1: Little or no response
+4. In the differences part, reward sentences that say what is different in the child's picture
+5. In the story part, reward telling what happens in order
+
+Return JSON with:
+- parts (array with one {shields, comment} per part, same order; comment in Vietnamese, friendly, 1 sentence)
+- teacherPraise (English, encouraging)
+- suggestions (2 specific tips in Vietnamese for the real exam)`,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            parts: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: { shields: { type: Type.NUMBER }, comment: { type: Type.STRING } },
+                required: ["shields", "comment"]
+              }
+            },
+            teacherPraise: { type: Type.STRING },
+            suggestions: { type: Type.ARRAY, items: { type: Type.STRING } }
+          },
+          required: ["parts", "teacherPraise", "suggestions"]
+        }
+      }
+    });
+
+    return JSON.parse(response.text || '{}');
+  });
+};
+
+/**
+ * Error and close callbacks for a Live session. connect() resolves once the
+ * socket opens, so a rejected setup (e.g. a key without Live access) only
+ * shows up later as a close. The first failure is reported once; a close
+ * the app asked for is not a failure.
+ */
+function watchLiveSession(onError?: (err: unknown) => void) {
+  let done = false;
+  const fail = (err: unknown) => {
+    if (done) return;
+    done = true;
+    onError?.(err);
+  };
+  return {
+    onerror: (e: ErrorEvent) => fail(e),
+    onclose: (e: CloseEvent) => fail(new Error(`Live session closed (${e.code}${e.reason ? `: ${e.reason}` : ''})`)),
+    closing: () => { done = true; }
+  };
+}
+
+/**
+ * Stream microphone audio to a Live session used purely as speech-to-text
+ */
+const openLiveTranscription = async (options: LiveTranscriptionOptions): Promise<LiveTranscriptionSession> => {
+  const ai = createClient();
+  const watch = watchLiveSession(options.onError);
+  const session = await ai.live.connect({
+    model: LIVE_MODEL,
+    callbacks: {
+      onmessage: (msg: LiveServerMessage) => {
+        const text = msg.serverContent?.inputTranscription?.text;
+        if (text) options.onText(text + ' ');
+      },
+      onerror: watch.onerror,
+      onclose: watch.onclose
+    },
+    config: {
+      responseModalities: [Modality.AUDIO],
+      inputAudioTranscription: {},
+      systemInstruction: 'You are an English speech-to-text engine. Transcribe exactly what you hear. Do not respond.'
+    }
+  });
+
+  return {
+    sendAudio: (pcm) => {
+      session.sendRealtimeInput({ media: { data: encode(new Uint8Array(pcm.buffer)), mimeType: 'audio/pcm;rate=16000' } });
+    },
+    close: () => {
+      watch.closing();
+      session.close();
+    }
+  };
+};
+
+/**
+ * Open a spoken interview: the examiner asks follow-up questions about the
+ * presentation, one at a time, and answers with audio
+ */
+const openLiveInterview = async (options: LiveInterviewOptions): Promise<LiveTranscriptionSession> => {
+  const questionStyle = {
+    'Starters': 'Ask very short questions that can be answered with one or two words (e.g. "What colour is it?", "Do you like it?").',
+    'Movers': 'Ask short, simple questions about the topic and the child\'s own life, using present tense.',
+    'Flyers': 'Ask simple questions and sometimes "Why?" or "Tell me about..." to invite a longer answer.',
+    'A1': 'Ask simple, clear questions about familiar things. Speak slowly.',
+    'A2': 'Ask about experiences and routines, using present and past tense.',
+    'B1': 'Ask for opinions, reasons and comparisons.',
+    'B2': 'Ask for opinions with justification and hypothetical situations.',
+    'C1': 'Ask open, abstract questions and challenge the answers politely.',
+    'C2': 'Ask open, abstract questions and challenge the answers politely.'
+  }[options.level];
+
+  const ai = createClient();
+  const watch = watchLiveSession(options.onError);
+  const session = await ai.live.connect({
+    model: LIVE_MODEL,
+    callbacks: {
+      onmessage: (msg: LiveServerMessage) => {
+        const content = msg.serverContent;
+        if (!content) return;
+        content.modelTurn?.parts?.forEach(part => {
+          if (!part.inlineData?.data) return;
+          const bytes = decode(part.inlineData.data);
+          options.onExaminerAudio(new Int16Array(bytes.buffer, 0, bytes.length >> 1));
+        });
+        if (content.outputTranscription?.text) options.onExaminerText(content.outputTranscription.text);
+        if (content.inputTranscription?.text) options.onChildText(content.inputTranscription.text);
+        if (content.turnComplete) options.onTurnComplete();
+      },
+      onerror: watch.onerror,
+      onclose: watch.onclose
+    },
+    config: {
+      responseModalities: [Modality.AUDIO],
+      inputAudioTranscription: {},
+      outputAudioTranscription: {},
+      speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: getVoiceSettings().voice } } },
+      systemInstruction: `You are Ms Ly, a kind Cambridge English speaking examiner talking with a young learner at ${options.level} level.
+The child has just given a presentation about "${options.theme}":
+"${options.script}"
+
+RULES:
+1. Greet the child briefly, then ask exactly ${options.maxQuestions} questions about the topic, ONE question per turn
+2. ${questionStyle}
+3. Follow up on what the child says; if they do not understand, rephrase more simply once, then move on
+4. Never correct mistakes and never explain grammar - just keep the conversation going warmly
+5. After the child answers question ${options.maxQuestions}, thank them and say goodbye in one short sentence. Do not ask anything else.`
+    }
+  });
+  session.sendClientContent({ turns: 'Hello, I am ready.', turnComplete: true });
+
+  return {
+    sendAudio: (pcm) => {
+      session.sendRealtimeInput({ media: { data: encode(new Uint8Array(pcm.buffer)), mimeType: 'audio/pcm;rate=16000' } });
+    },
+    close: () => {
+      watch.closing();
+      session.close();
+    }
+  };
+};
+
+const evaluateInterview = async (turns: InterviewTurn[], theme: string, level: CEFRLevel): Promise<ModelInterviewEvaluation> => {
+  return callWithRetry('evaluation', async (model) => {
+    const ai = createClient();
+    const dialogue = turns.map(t => `${t.speaker === 'examiner' ? 'EXAMINER' : 'CHILD'}: ${t.text.trim()}`).join('\n');
+    const response = await ai.models.generateContent({
+      model,
+      contents: `You are a Cambridge YLE Speaking Examiner. Evaluate the child's part in this short interview (like Speaking Part 4) about "${theme}".
+
+TRANSCRIPT (from speech recognition, may contain recognition errors):
+${dialogue}
+
+EXPECTED LEVEL: ${level}
+
+CRITICAL RULES:
+1. Judge ONLY the CHILD's turns, against what is expected at ${level}
+2. Short answers are normal for young learners - reward answers that fit the question
+3. If the child said nothing or only off-topic words, all scores = 0
+4. Use scale 0-10:
+   - 9-10: Excellent - Answers easily and adds details
+   - 7-8: Good - Answers well with minor errors
+   - 5-6: Satisfactory - Answers most questions, sometimes with help
+   - 3-4: Developing - Short or unclear answers
+   - 1-2: Limited - Answers very few questions
+   - 0: No attempt
+
+EVALUATE ON THESE CRITERIA:
+1. Comprehension (Hiểu câu hỏi) - Understands what is asked
+2. Interaction (Giao tiếp) - Answers to the point and keeps the conversation going
+3. Elaboration (Mở rộng ý) - Says more than one word, gives reasons or details
+4. Vocabulary (Từ vựng) - Words used correctly for the topic
+5. Grammar (Ngữ pháp) - Accurate sentence structures
+
+Return JSON with:
+- comprehension, interaction, elaboration, vocabulary, grammar (0-10 each)
+- feedback (Vietnamese, friendly, max 2 sentences)
+- teacherPraise (English, encouraging)
+- suggestions (2 specific tips in Vietnamese, e.g. how the child could answer a question more fully)`,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            comprehension: { type: Type.NUMBER },
+            interaction: { type: Type.NUMBER },
+            elaboration: { type: Type.NUMBER },
+            vocabulary: { type: Type.NUMBER },
+            grammar: { type: Type.NUMBER },
+            feedback: { type: Type.STRING },
+            teacherPraise: { type: Type.STRING },
+            suggestions: { type: Type.ARRAY, items: { type: Type.STRING } }
+          },
+          required: ["comprehension", "interaction", "elaboration", "vocabulary", "grammar", "feedback", "teacherPraise", "suggestions"]
+        }
+      }
+    });
+
+    return JSON.parse(response.text || '{}');
+  });
+};
+
+const transcribeRecording = async (audioBase64: string, mimeType: string): Promise<string> => {
+  return callWithRetry('transcription', async (model) => {
+    const ai = createClient();
+    const response = await ai.models.generateContent({
+      model,
+      contents: {
+        parts: [
+          { inlineData: { mimeType, data: audioBase64 } },
+          { text: 'Transcribe exactly what the child says in this English recording. Do not correct mistakes or add comments. Return only the spoken words, or nothing if no speech is heard.' }
+        ]
+      }
+    });
+    return (response.text || '').trim();
+  });
+};
+
+export const geminiProvider: AIProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  requiresApiKey: true,
+  generateIllustration,
+  generatePresentationScript,
+  generateTeacherVoice,
+  generateWordAudio,
+  evaluatePresentation,
+  evaluateFreeSpeech,
+  getWordMeaning,
+  getWordMeanings,
+  generateComprehensionQuestions,
+  generateYleExam,
+  evaluateYleExam,
+  openLiveTranscription,
+  openLiveInterview,
+  evaluateInterview,
+  transcribeRecording
+};
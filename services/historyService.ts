@@ -1,11 +1,18 @@
-import { EvaluationResult, CEFRLevel } from '../types';
+import { EvaluationResult, CEFRLevel, InterviewResult, PresentationData, ShadowingSentenceResult, TaskType, YleExamReport } from '../types';
+import { LearnerProfile, findOrCreateProfileByName } from './profileService';
+import { STORES, requestToPromise, withStore } from './db';
+import { StoredRecording, MAX_RECORDINGS_PER_LEARNER } from './recordingService';
+import { getShadowingScore } from './shadowingService';
+
+export type LessonMode = TaskType | 'shadowing' | 'interview' | 'exam';
 
 export interface LessonRecord {
     id: string;
     date: string; // ISO string
     theme: string;
     level: CEFRLevel;
-    childName: string;
+    profileId: string;
+    childName: string; // Learner name at the time of the lesson
     score: number;
     pronunciation: number;
     fluency: number;
@@ -15,56 +22,170 @@ export interface LessonRecord {
     taskFulfillment: number;
     perceivedLevel: string;
     duration: number; // in seconds
+    evaluation?: EvaluationResult; // Full result incl. transcript and mistakes (lessons saved before this was added have none)
+    presentation?: Omit<PresentationData, 'imageUri'>; // Script that was practised; the picture lives in the payload
+    hasRecording?: boolean; // The child's recording is kept in the payload
+    mode?: LessonMode; // Missing on lessons saved before shadowing existed (= reading)
+    shadowing?: ShadowingSentenceResult[]; // Per-sentence scoreboard of a shadowing session
+    interview?: InterviewResult; // Transcript and scores of a Q&A interview
+    exam?: YleExamReport; // Report of a YLE mock speaking exam
+}
+
+// Larger per-lesson data, stored apart from the summaries so lists stay fast
+export interface LessonPayload {
+    id: string; // Same id as the LessonRecord
+    imageUri?: string;
+    recording?: Blob;
+    recordingTruncated?: boolean;
 }
 
-const STORAGE_KEY = 'speakpro_lesson_history';
-const EXPIRY_DAYS = 7;
+// Pre-IndexedDB storage, migrated once on first access
+const LEGACY_STORAGE_KEY = 'speakpro_lesson_history';
+const RETENTION_KEY = 'speakpro_history_retention_days';
+// Lessons were always pruned after a week before retention became a setting
+const DEFAULT_RETENTION_DAYS = 7;
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+export const RETENTION_OPTIONS: { days: number | null; label: string }[] = [
+    { days: 7, label: '7 ngày' },
+    { days: 30, label: '30 ngày' },
+    { days: 90, label: '3 tháng' },
+    { days: 365, label: '1 năm' },
+    { days: null, label: 'Mãi mãi' }
+];
 
 /**
- * Get all lesson history from localStorage
+ * Get how many days lessons are kept (null = keep forever)
  */
-export function getLessonHistory(): LessonRecord[] {
-    try {
-        const data = localStorage.getItem(STORAGE_KEY);
-        if (!data) return [];
+export function getRetentionDays(): number | null {
+    const stored = localStorage.getItem(RETENTION_KEY);
+    if (stored === 'forever') return null;
+    const days = parseInt(stored || '', 10);
+    return Number.isFinite(days) && days > 0 ? days : DEFAULT_RETENTION_DAYS;
+}
 
-        const records: LessonRecord[] = JSON.parse(data);
+/**
+ * Set how many days lessons are kept (null = keep forever)
+ */
+export function setRetentionDays(days: number | null): void {
+    localStorage.setItem(RETENTION_KEY, days === null ? 'forever' : String(days));
+}
 
-        // Filter out expired records (older than 7 days)
-        const now = new Date();
-        const validRecords = records.filter(record => {
-            const recordDate = new Date(record.date);
-            const diffDays = (now.getTime() - recordDate.getTime()) / (1000 * 60 * 60 * 24);
-            return diffDays <= EXPIRY_DAYS;
+/**
+ * Attach records saved before learner profiles existed to a profile with the same name
+ */
+function migrateRecordsToProfiles(records: LessonRecord[]): LessonRecord[] {
+    return records.filter(record => !record.profileId).map(record => {
+        record.profileId = findOrCreateProfileByName(record.childName || 'Leo', record.level).id;
+        return record;
+    });
+}
+
+let legacyMigration: Promise<void> | null = null;
+
+/**
+ * Move records from the old localStorage key into IndexedDB (runs once)
+ */
+function migrateLegacyStorage(): Promise<void> {
+    if (legacyMigration) return legacyMigration;
+
+    legacyMigration = (async () => {
+        const data = localStorage.getItem(LEGACY_STORAGE_KEY);
+        if (!data) return;
+
+        let records: LessonRecord[] = [];
+        try {
+            records = JSON.parse(data);
+        } catch {
+            console.warn('[History] Dropping unreadable legacy history');
+        }
+
+        await withStore(STORES.lessons, 'readwrite', (tx) => {
+            const store = tx.objectStore(STORES.lessons);
+            records.forEach(record => store.put(record));
         });
+        localStorage.removeItem(LEGACY_STORAGE_KEY);
+    })().catch(err => {
+        legacyMigration = null;
+        throw err;
+    });
+
+    return legacyMigration;
+}
+
+/**
+ * Delete lessons (and their payloads) older than the retention period
+ */
+function pruneExpired(records: LessonRecord[]): { valid: LessonRecord[]; expired: string[] } {
+    const retentionDays = getRetentionDays();
+    if (retentionDays === null) return { valid: records, expired: [] };
+
+    const now = Date.now();
+    const valid: LessonRecord[] = [];
+    const expired: string[] = [];
+    records.forEach(record => {
+        const ageDays = (now - new Date(record.date).getTime()) / DAY_MS;
+        if (ageDays <= retentionDays) valid.push(record);
+        else expired.push(record.id);
+    });
+    return { valid, expired };
+}
+
+/**
+ * Get lesson history (oldest first), optionally only for one learner
+ */
+export async function getLessonHistory(profileId?: string): Promise<LessonRecord[]> {
+    try {
+        await migrateLegacyStorage();
+
+        const records = await withStore(STORES.lessons, 'readonly', (tx) =>
+            requestToPromise(tx.objectStore(STORES.lessons).getAll() as IDBRequest<LessonRecord[]>)
+        );
 
-        // Save back if we filtered some records
-        if (validRecords.length !== records.length) {
-            localStorage.setItem(STORAGE_KEY, JSON.stringify(validRecords));
+        const migrated = migrateRecordsToProfiles(records);
+        const { valid, expired } = pruneExpired(records);
+
+        // Save back if we migrated or expired some records
+        if (migrated.length > 0 || expired.length > 0) {
+            await withStore([STORES.lessons, STORES.lessonPayloads], 'readwrite', (tx) => {
+                const lessons = tx.objectStore(STORES.lessons);
+                const payloads = tx.objectStore(STORES.lessonPayloads);
+                migrated.forEach(record => lessons.put(record));
+                expired.forEach(id => {
+                    lessons.delete(id);
+                    payloads.delete(id);
+                });
+            });
         }
 
-        return validRecords;
-    } catch {
+        valid.sort((a, b) => a.date.localeCompare(b.date));
+        return profileId ? valid.filter(r => r.profileId === profileId) : valid;
+    } catch (err) {
+        console.error('[History] Failed to load lessons:', err);
         return [];
     }
 }
 
+const createLessonId = () => `lesson_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
 /**
  * Save a new lesson record
  */
-export function saveLessonRecord(
-    theme: string,
-    level: CEFRLevel,
-    childName: string,
+export async function saveLessonRecord(
+    presentation: PresentationData,
+    profile: LearnerProfile,
     evaluation: EvaluationResult,
-    duration: number
-): LessonRecord {
+    duration: number,
+    recording?: StoredRecording
+): Promise<LessonRecord> {
+    const { imageUri, ...script } = presentation;
     const record: LessonRecord = {
-        id: `lesson_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        id: createLessonId(),
         date: new Date().toISOString(),
-        theme,
-        level,
-        childName,
+        theme: presentation.theme || 'Unknown',
+        level: presentation.level,
+        profileId: profile.id,
+        childName: profile.name,
         score: evaluation.score,
         pronunciation: evaluation.pronunciation,
         fluency: evaluation.fluency,
@@ -73,21 +194,181 @@ export function saveLessonRecord(
         grammar: evaluation.grammar,
         taskFulfillment: evaluation.taskFulfillment,
         perceivedLevel: evaluation.perceivedLevel,
-        duration
+        duration,
+        evaluation,
+        presentation: script,
+        hasRecording: !!recording && recording.blob.size > 0,
+        mode: presentation.taskType || 'reading'
+    };
+    const payload: LessonPayload = {
+        id: record.id,
+        imageUri,
+        recording: record.hasRecording ? recording!.blob : undefined,
+        recordingTruncated: recording?.truncated
     };
 
-    const history = getLessonHistory();
-    history.push(record);
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(history));
+    await migrateLegacyStorage();
+    await withStore([STORES.lessons, STORES.lessonPayloads], 'readwrite', (tx) => {
+        tx.objectStore(STORES.lessons).put(record);
+        tx.objectStore(STORES.lessonPayloads).put(payload);
+    });
+    if (record.hasRecording) {
+        await pruneOldRecordings(profile.id).catch(err => console.warn('[History] Failed to prune recordings:', err));
+    }
 
     return record;
 }
 
+interface ActivityBase {
+    profile: LearnerProfile;
+    theme?: string;
+    level: CEFRLevel;
+    duration: number;
+    imageUri?: string;
+}
+
+/**
+ * Save a practice activity other than a read or described lesson. Skills the
+ * activity did not score stay at 0, which keeps them out of the skill averages.
+ */
+async function saveActivityRecord(
+    base: ActivityBase,
+    extra: Pick<LessonRecord, 'score' | 'mode'> & Partial<LessonRecord>
+): Promise<LessonRecord> {
+    const record: LessonRecord = {
+        id: createLessonId(),
+        date: new Date().toISOString(),
+        theme: base.theme || 'Unknown',
+        level: base.level,
+        profileId: base.profile.id,
+        childName: base.profile.name,
+        pronunciation: 0,
+        fluency: 0,
+        intonation: 0,
+        vocabulary: 0,
+        grammar: 0,
+        taskFulfillment: 0,
+        perceivedLevel: base.level,
+        duration: base.duration,
+        ...extra
+    };
+
+    await migrateLegacyStorage();
+    await withStore([STORES.lessons, STORES.lessonPayloads], 'readwrite', (tx) => {
+        tx.objectStore(STORES.lessons).put(record);
+        tx.objectStore(STORES.lessonPayloads).put({ id: record.id, imageUri: base.imageUri });
+    });
+
+    return record;
+}
+
+/**
+ * Save a finished shadowing session. Only pronunciation is practised.
+ */
+export async function saveShadowingRecord(
+    presentation: PresentationData,
+    profile: LearnerProfile,
+    results: ShadowingSentenceResult[],
+    duration: number
+): Promise<LessonRecord> {
+    const { imageUri, ...script } = presentation;
+    const score = getShadowingScore(results);
+    return saveActivityRecord(
+        { profile, theme: presentation.theme, level: presentation.level, duration, imageUri },
+        { score, pronunciation: score, presentation: script, mode: 'shadowing', shadowing: results }
+    );
+}
+
+/**
+ * Save a finished Q&A interview. It is judged on interaction, so only
+ * vocabulary and grammar are comparable with the lessons' skills.
+ */
+export async function saveInterviewRecord(
+    presentation: PresentationData,
+    profile: LearnerProfile,
+    result: InterviewResult,
+    duration: number
+): Promise<LessonRecord> {
+    const { imageUri, ...script } = presentation;
+    return saveActivityRecord(
+        { profile, theme: presentation.theme, level: presentation.level, duration, imageUri },
+        {
+            score: result.score,
+            vocabulary: result.vocabulary,
+            grammar: result.grammar,
+            presentation: script,
+            mode: 'interview',
+            interview: result
+        }
+    );
+}
+
+/**
+ * Save a finished YLE mock exam. Parts are marked in shields (1-5), so the
+ * lesson score is the overall shields on the usual 0-10 scale.
+ */
+export async function saveExamRecord(
+    report: YleExamReport,
+    profile: LearnerProfile,
+    duration: number,
+    imageUri?: string
+): Promise<LessonRecord> {
+    return saveActivityRecord(
+        { profile, theme: report.theme, level: report.level, duration, imageUri },
+        { score: report.shields * 2, mode: 'exam', exam: report }
+    );
+}
+
+/**
+ * Drop the recordings (not the scores) of a learner beyond MAX_RECORDINGS_PER_LEARNER
+ */
+async function pruneOldRecordings(profileId: string): Promise<void> {
+    const withRecording = (await getLessonHistory(profileId)).filter(r => r.hasRecording);
+    const stale = withRecording.slice(0, Math.max(0, withRecording.length - MAX_RECORDINGS_PER_LEARNER));
+    if (stale.length === 0) return;
+
+    await withStore([STORES.lessons, STORES.lessonPayloads], 'readwrite', async (tx) => {
+        const lessons = tx.objectStore(STORES.lessons);
+        const payloads = tx.objectStore(STORES.lessonPayloads);
+        for (const record of stale) {
+            const payload = await requestToPromise(payloads.get(record.id) as IDBRequest<LessonPayload | undefined>);
+            if (payload) payloads.put({ ...payload, recording: undefined, recordingTruncated: undefined });
+            lessons.put({ ...record, hasRecording: false });
+        }
+    });
+}
+
+/**
+ * Get the stored payload (picture, recordings...) of a lesson
+ */
+export async function getLessonPayload(id: string): Promise<LessonPayload | undefined> {
+    return withStore(STORES.lessonPayloads, 'readonly', (tx) =>
+        requestToPromise(tx.objectStore(STORES.lessonPayloads).get(id) as IDBRequest<LessonPayload | undefined>)
+    );
+}
+
+/**
+ * Get the child's recording of a lesson, if one was kept
+ */
+export async function getLessonRecording(id: string): Promise<Blob | null> {
+    const payload = await getLessonPayload(id);
+    return payload?.recording || null;
+}
+
+/**
+ * Get a learner's recorded attempts on a theme in one mode (oldest first), for then-vs-now comparison
+ */
+export async function getRecordedAttempts(theme: string, profileId: string, mode: LessonMode = 'reading'): Promise<LessonRecord[]> {
+    const key = theme.trim().toLowerCase();
+    const history = await getLessonHistory(profileId);
+    return history.filter(r => r.hasRecording && (r.mode || 'reading') === mode && r.theme.trim().toLowerCase() === key);
+}
+
 /**
  * Get lessons grouped by day for the last 7 days
  */
-export function getLessonsGroupedByDay(): { date: string; lessons: LessonRecord[]; avgScore: number }[] {
-    const history = getLessonHistory();
+export async function getLessonsGroupedByDay(profileId?: string): Promise<{ date: string; lessons: LessonRecord[]; avgScore: number }[]> {
+    const history = await getLessonHistory(profileId);
     const grouped = new Map<string, LessonRecord[]>();
 
     // Create entries for last 7 days
@@ -118,7 +399,7 @@ export function getLessonsGroupedByDay(): { date: string; lessons: LessonRecord[
 /**
  * Get average scores for each skill over the week
  */
-export function getWeeklySkillAverages(): {
+export async function getWeeklySkillAverages(profileId?: string): Promise<{
     pronunciation: number;
     fluency: number;
     intonation: number;
@@ -127,10 +408,14 @@ export function getWeeklySkillAverages(): {
     taskFulfillment: number;
     totalLessons: number;
     totalTime: number;
-} {
-    const history = getLessonHistory();
+}> {
+    const history = await getLessonHistory(profileId);
+    const weekStart = Date.now() - 7 * DAY_MS;
+    const week = history.filter(lesson => new Date(lesson.date).getTime() >= weekStart);
+    // Shadowing, interviews and exams do not score every skill, so they count towards lessons and time only
+    const scored = week.filter(lesson => lesson.mode !== 'shadowing' && lesson.mode !== 'interview' && lesson.mode !== 'exam');
 
-    if (history.length === 0) {
+    if (week.length === 0) {
         return {
             pronunciation: 0,
             fluency: 0,
@@ -143,20 +428,19 @@ export function getWeeklySkillAverages(): {
         };
     }
 
-    const sum = history.reduce((acc, lesson) => ({
+    const sum = scored.reduce((acc, lesson) => ({
         pronunciation: acc.pronunciation + lesson.pronunciation,
         fluency: acc.fluency + lesson.fluency,
         intonation: acc.intonation + lesson.intonation,
         vocabulary: acc.vocabulary + lesson.vocabulary,
         grammar: acc.grammar + lesson.grammar,
-        taskFulfillment: acc.taskFulfillment + lesson.taskFulfillment,
-        totalTime: acc.totalTime + lesson.duration
+        taskFulfillment: acc.taskFulfillment + lesson.taskFulfillment
     }), {
         pronunciation: 0, fluency: 0, intonation: 0,
-        vocabulary: 0, grammar: 0, taskFulfillment: 0, totalTime: 0
+        vocabulary: 0, grammar: 0, taskFulfillment: 0
     });
 
-    const count = history.length;
+    const count = Math.max(1, scored.length);
     return {
         pronunciation: Math.round(sum.pronunciation / count * 10) / 10,
         fluency: Math.round(sum.fluency / count * 10) / 10,
@@ -164,24 +448,24 @@ export function getWeeklySkillAverages(): {
         vocabulary: Math.round(sum.vocabulary / count * 10) / 10,
         grammar: Math.round(sum.grammar / count * 10) / 10,
         taskFulfillment: Math.round(sum.taskFulfillment / count * 10) / 10,
-        totalLessons: count,
-        totalTime: sum.totalTime
+        totalLessons: week.length,
+        totalTime: week.reduce((total, lesson) => total + lesson.duration, 0)
     };
 }
 
 /**
  * Get recent lessons (last 5)
  */
-export function getRecentLessons(limit: number = 5): LessonRecord[] {
-    const history = getLessonHistory();
+export async function getRecentLessons(limit: number = 5, profileId?: string): Promise<LessonRecord[]> {
+    const history = await getLessonHistory(profileId);
     return history.slice(-limit).reverse();
 }
 
 /**
  * Get daily streak (consecutive days with at least 1 lesson)
  */
-export function getDailyStreak(): number {
-    const grouped = getLessonsGroupedByDay();
+export async function getDailyStreak(profileId?: string): Promise<number> {
+    const grouped = await getLessonsGroupedByDay(profileId);
     let streak = 0;
 
     // Start from today and go backwards
@@ -202,16 +486,22 @@ export function getDailyStreak(): number {
 /**
  * Delete a specific lesson
  */
-export function deleteLessonRecord(id: string): void {
-    const history = getLessonHistory().filter(l => l.id !== id);
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(history));
+export async function deleteLessonRecord(id: string): Promise<void> {
+    await withStore([STORES.lessons, STORES.lessonPayloads], 'readwrite', (tx) => {
+        tx.objectStore(STORES.lessons).delete(id);
+        tx.objectStore(STORES.lessonPayloads).delete(id);
+    });
 }
 
 /**
  * Clear all history
  */
-export function clearHistory(): void {
-    localStorage.removeItem(STORAGE_KEY);
+export async function clearHistory(): Promise<void> {
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+    await withStore([STORES.lessons, STORES.lessonPayloads], 'readwrite', (tx) => {
+        tx.objectStore(STORES.lessons).clear();
+        tx.objectStore(STORES.lessonPayloads).clear();
+    });
 }
 
 /**
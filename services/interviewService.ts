@@ -0,0 +1,189 @@
+import { InterviewTurn, PresentationData } from '../types';
+import { getAIProvider, LiveTranscriptionSession } from './aiProvider';
+import { startAudioCapture, AudioCapture } from './audioCapture';
+import { createAudioAnalyzer } from './audioAnalysis';
+import { createUtterance } from './audioPlayback';
+import { getVoiceSettings } from './voiceService';
+
+// Q&A interview with the examiner over a live session: the examiner asks a
+// question, the child answers, and so on for a set number of questions.
+// The microphone is not sent while the examiner speaks so her voice is not
+// heard back as the child's answer.
+
+const QUESTIONS_KEY = 'speakpro_interview_questions';
+const EXAMINER_SAMPLE_RATE = 24000;
+
+export const INTERVIEW_QUESTION_OPTIONS = [3, 5, 7];
+const DEFAULT_QUESTIONS = 3;
+
+export interface InterviewOptions {
+    maxQuestions: number;
+    speechRate: number; // Used when the backend sends no examiner audio
+    onTurns: (turns: InterviewTurn[]) => void;
+    // The examiner is talking (the child waits)
+    onSpeakingChange: (speaking: boolean) => void;
+    onLevel?: (level: number) => void;
+    // The examiner said goodbye after the last question
+    onFinished: () => void;
+    onError?: (err: unknown) => void;
+}
+
+export interface InterviewSession {
+    // Ends the interview and releases the microphone; returns the transcript so far
+    stop: () => InterviewTurn[];
+}
+
+/**
+ * How many questions the examiner asks (saved choice)
+ */
+export function getInterviewQuestionCount(): number {
+    const stored = parseInt(localStorage.getItem(QUESTIONS_KEY) || '', 10);
+    return INTERVIEW_QUESTION_OPTIONS.includes(stored) ? stored : DEFAULT_QUESTIONS;
+}
+
+/**
+ * Save how many questions the examiner asks
+ */
+export function setInterviewQuestionCount(count: number): void {
+    localStorage.setItem(QUESTIONS_KEY, String(count));
+}
+
+/**
+ * Number of questions the child has been asked so far (the goodbye is not a question)
+ */
+export function countQuestions(turns: InterviewTurn[]): number {
+    return turns.filter(t => t.speaker === 'examiner' && t.text.includes('?')).length;
+}
+
+/**
+ * Start the interview about a presentation the child has practised
+ */
+export async function startInterview(presentation: PresentationData, options: InterviewOptions): Promise<InterviewSession> {
+    const stream = await navigator.mediaDevices.getUserMedia({ audio: { echoCancellation: true } });
+    const turns: InterviewTurn[] = [];
+    const sources = new Set<AudioBufferSourceNode>();
+    const playback = new AudioContext({ sampleRate: EXAMINER_SAMPLE_RATE });
+    let nextStartTime = 0;
+    let turnOpen = false; // The examiner has started a turn that is not complete yet
+    let turnHadAudio = false;
+    let webSpeechActive = false;
+    let speaking = false;
+    let saidGoodbye = false;
+    let closed = false;
+    let capture: AudioCapture | null = null;
+    let session: LiveTranscriptionSession | null = null;
+
+    const addText = (speaker: InterviewTurn['speaker'], text: string) => {
+        const last = turns[turns.length - 1];
+        if (last && last.speaker === speaker) last.text += text;
+        else turns.push({ speaker, text });
+        options.onTurns(turns.map(t => ({ ...t })));
+    };
+
+    const updateSpeaking = () => {
+        const now = turnOpen || sources.size > 0 || webSpeechActive;
+        if (now === speaking) return;
+        speaking = now;
+        options.onSpeakingChange(speaking);
+        if (!speaking && saidGoodbye && !closed) options.onFinished();
+    };
+
+    const playAudio = (pcm: Int16Array) => {
+        if (closed) return;
+        turnOpen = true;
+        turnHadAudio = true;
+        const buffer = playback.createBuffer(1, pcm.length, EXAMINER_SAMPLE_RATE);
+        const channel = buffer.getChannelData(0);
+        for (let i = 0; i < pcm.length; i++) channel[i] = pcm[i] / 32768;
+
+        const source = playback.createBufferSource();
+        source.buffer = buffer;
+        source.connect(playback.destination);
+        source.onended = () => {
+            sources.delete(source);
+            updateSpeaking();
+        };
+        // Chunks are queued back to back so the voice plays without gaps
+        nextStartTime = Math.max(nextStartTime, playback.currentTime);
+        source.start(nextStartTime);
+        nextStartTime += buffer.duration;
+        sources.add(source);
+        updateSpeaking();
+    };
+
+    const speakText = (text: string) => {
+        const utterance = createUtterance(text, options.speechRate, getVoiceSettings().accent);
+        utterance.onend = utterance.onerror = () => {
+            webSpeechActive = false;
+            updateSpeaking();
+        };
+        webSpeechActive = true;
+        window.speechSynthesis.speak(utterance);
+    };
+
+    const completeTurn = () => {
+        if (closed) return;
+        const last = turns[turns.length - 1];
+        // Greetings, replies and "say that again?" turns don't count; the goodbye is
+        // the first examiner turn without a question once every question was asked
+        if (last?.speaker === 'examiner' && !last.text.includes('?') && countQuestions(turns) >= options.maxQuestions) {
+            saidGoodbye = true;
+        }
+        if (!turnHadAudio && last?.speaker === 'examiner') speakText(last.text.trim());
+        turnOpen = false;
+        turnHadAudio = false;
+        updateSpeaking();
+    };
+
+    const release = () => {
+        closed = true;
+        session?.close();
+        session = null;
+        capture?.stop();
+        capture = null;
+        sources.forEach(source => {
+            source.onended = null;
+            source.stop();
+        });
+        sources.clear();
+        window.speechSynthesis.cancel();
+        playback.close().catch(() => { });
+        stream.getTracks().forEach(track => track.stop());
+    };
+
+    try {
+        capture = await startAudioCapture(stream);
+        const analyzer = createAudioAnalyzer({ onLevel: (l) => options.onLevel?.(speaking ? 0 : l.level) });
+        capture.subscribe(analyzer.process);
+        session = await getAIProvider().openLiveInterview({
+            theme: presentation.theme || '',
+            script: presentation.script,
+            level: presentation.level,
+            maxQuestions: options.maxQuestions,
+            onExaminerAudio: playAudio,
+            onExaminerText: (text) => {
+                if (!closed) addText('examiner', text);
+            },
+            onChildText: (text) => {
+                if (!closed) addText('child', text);
+            },
+            onTurnComplete: completeTurn,
+            onError: (err) => {
+                if (!closed) options.onError?.(err);
+            }
+        });
+        capture.subscribe(pcm => {
+            if (!speaking) session?.sendAudio(pcm);
+        });
+    } catch (err) {
+        release();
+        throw err;
+    }
+
+    return {
+        stop: () => {
+            if (!closed) release();
+            return turns.map(t => ({ ...t }));
+        }
+    };
+}
@@ -0,0 +1,116 @@
+import { CEFRLevel, CoverageReport, LevelEstimate, SkillScores } from '../types';
+
+// Estimates the level a child demonstrated in one reading. Pure functions only,
+// so the mapping can be checked in isolation.
+
+// Young Learner levels sit below A1 on the same scale
+export const LEVEL_SCALE: CEFRLevel[] = ['Starters', 'Movers', 'Flyers', 'A1', 'A2', 'B1', 'B2', 'C1', 'C2'];
+
+export interface LevelEstimateInput {
+    target: CEFRLevel; // Level the script was written for
+    script: string;
+    scores: SkillScores;
+    coverage?: CoverageReport;
+}
+
+// Typical script size per level (words, words per sentence), matching the generation prompts
+const SCRIPT_PROFILE: Record<CEFRLevel, { words: number; sentenceLength: number }> = {
+    Starters: { words: 20, sentenceLength: 4 },
+    Movers: { words: 50, sentenceLength: 7 },
+    Flyers: { words: 80, sentenceLength: 9 },
+    A1: { words: 110, sentenceLength: 10 },
+    A2: { words: 165, sentenceLength: 11 },
+    B1: { words: 225, sentenceLength: 12 },
+    B2: { words: 275, sentenceLength: 13 },
+    C1: { words: 325, sentenceLength: 14 },
+    C2: { words: 375, sentenceLength: 15 }
+};
+
+// Language skills weigh more than delivery when placing a level
+const SKILL_WEIGHTS: SkillScores = {
+    pronunciation: 0.2,
+    fluency: 0.15,
+    intonation: 0.1,
+    vocabulary: 0.2,
+    grammar: 0.2,
+    taskFulfillment: 0.15
+};
+
+const clampIndex = (index: number) => Math.max(0, Math.min(LEVEL_SCALE.length - 1, index));
+
+/**
+ * Position of a level on LEVEL_SCALE
+ */
+export function levelIndex(level: CEFRLevel): number {
+    return LEVEL_SCALE.indexOf(level);
+}
+
+/**
+ * Estimate which level a script's length and sentence complexity correspond to
+ */
+export function estimateScriptLevel(script: string): CEFRLevel {
+    const words = script.split(/\s+/).filter(Boolean);
+    const sentences = script.split(/[.!?]+/).filter(s => s.trim()).length || 1;
+    const sentenceLength = words.length / sentences;
+    const longWordRatio = words.filter(w => w.replace(/[^a-zA-Z]/g, '').length >= 7).length / (words.length || 1);
+
+    let best = 0;
+    LEVEL_SCALE.forEach((level, index) => {
+        const profile = SCRIPT_PROFILE[level];
+        if (words.length >= profile.words * 0.8 && sentenceLength >= profile.sentenceLength * 0.8) best = index;
+    });
+    // Plenty of long words suggests richer vocabulary than the length alone shows
+    if (longWordRatio > 0.2) best += 1;
+    return LEVEL_SCALE[clampIndex(best)];
+}
+
+/**
+ * Weighted 0-10 performance over the six skills
+ */
+export function weightedPerformance(scores: SkillScores): number {
+    return (Object.keys(SKILL_WEIGHTS) as (keyof SkillScores)[])
+        .reduce((sum, skill) => sum + scores[skill] * SKILL_WEIGHTS[skill], 0);
+}
+
+/**
+ * Estimate the demonstrated level. Reading a script can show at most about one
+ * level above what the script itself demands, so the target and script
+ * complexity bound the result.
+ */
+export function estimateLevel({ target, script, scores, coverage }: LevelEstimateInput): LevelEstimate {
+    const targetIndex = levelIndex(target);
+    const scriptIndex = levelIndex(estimateScriptLevel(script));
+    const performance = weightedPerformance(scores);
+
+    // Steps above (+) or below (-) the target for this performance
+    let offset: number;
+    if (performance >= 9) offset = 1;
+    else if (performance >= 6.5) offset = 0;
+    else if (performance >= 4.5) offset = -1;
+    else if (performance >= 2.5) offset = -2;
+    else offset = -3;
+
+    const ceiling = Math.min(targetIndex, scriptIndex) + 1;
+    const index = clampIndex(Math.min(targetIndex + offset, ceiling));
+
+    // Wider band when evidence is thin: short script, uneven skills or little of the script read
+    const values = (Object.keys(SKILL_WEIGHTS) as (keyof SkillScores)[]).map(skill => scores[skill]);
+    const mean = values.reduce((a, b) => a + b, 0) / values.length;
+    const spread = Math.sqrt(values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length);
+    const wordCount = script.split(/\s+/).filter(Boolean).length;
+
+    let uncertainty = 0;
+    if (wordCount < 40) uncertainty++;
+    if (spread > 2) uncertainty++;
+    if (coverage && coverage.contentCoverage < 0.6) uncertainty++;
+
+    const confidence: LevelEstimate['confidence'] = uncertainty === 0 ? 'high' : uncertainty === 1 ? 'medium' : 'low';
+    const band = uncertainty === 0 ? 0 : 1;
+
+    return {
+        level: LEVEL_SCALE[index],
+        low: LEVEL_SCALE[clampIndex(index - band)],
+        high: LEVEL_SCALE[clampIndex(Math.min(index + band, ceiling))],
+        confidence
+    };
+}
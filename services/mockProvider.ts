@@ -0,0 +1,492 @@
+
+import { CEFRLevel, InterviewTurn, LessonFocus, YleLevel } from "../types";
+import {
+  AIProvider,
+  ComprehensionQuestionData,
+  LiveInterviewOptions,
+  LiveTranscriptionOptions,
+  LiveTranscriptionSession,
+  ModelEvaluation,
+  ModelFreeSpeechEvaluation,
+  ModelInterviewEvaluation,
+  ScriptDraft,
+  WordMeaning,
+  YleExamDraft,
+  YlePartAnswer,
+  ModelYleEvaluation
+} from "./aiProvider";
+import { reportModelUsage } from "./modelRouter";
+import { TEACHER_VOICES, VoiceSettings } from "./voiceService";
+
+// Deterministic offline backend: same input always gives the same output,
+// so the whole lesson flow can be demoed and tested without network or key.
+
+const MOCK_LATENCY_MS = 400;
+const MOCK_MODEL_ID = 'offline-mock';
+const MOCK_AUDIO_SAMPLE_RATE = 24000;
+// How much microphone audio (16 kHz samples) the mock "hears" per transcribed word
+const SAMPLES_PER_HEARD_WORD = 7200;
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function hashString(text: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+}
+
+function words(text: string): string[] {
+  return text.toLowerCase().replace(/[^a-z0-9'\s]/g, ' ').split(/\s+/).filter(Boolean);
+}
+
+function splitSentences(text: string): string[] {
+  return text.match(/[^.!?]+[.!?]*/g)?.map(s => s.trim()).filter(Boolean) || [];
+}
+
+const POINTS_PER_LEVEL: Record<CEFRLevel, number> = {
+  Starters: 3, Movers: 5, Flyers: 7, A1: 8, A2: 10, B1: 12, B2: 14, C1: 16, C2: 18
+};
+
+const POINT_BANK = [
+  'I can see {theme} in the picture.',
+  'The colours are bright and happy.',
+  'There are many friends here.',
+  'Everyone is smiling.',
+  'I like {theme} very much.',
+  'It is a sunny and warm day.',
+  'We can play and learn together.',
+  'My favourite part is the big tree.',
+  'The children are laughing and talking.',
+  'I want to visit {theme} again next week.',
+  'It makes me feel calm and glad.',
+  'My teacher says it is very important.',
+  'We always help each other there.',
+  'There is something new to see every time.',
+  'I think everybody should try it once.',
+  'Last weekend I told my family all about it.',
+  'It is different from anything else I know.',
+  'I would like to share this with my classmates.'
+];
+
+const INTERVIEW_QUESTIONS = [
+  'What can you see in your picture?',
+  'Do you like {theme}?',
+  'Who do you talk to about {theme}?',
+  'What is your favourite part? Why?',
+  'What colours can you see?',
+  'What did you do last weekend?',
+  'What would you like to learn next?'
+];
+
+// Scene of the mock exam picture: [thing, colour in the picture, where it is]
+const EXAM_SCENE: [string, string, string][] = [
+  ['dog', 'brown', 'under the table'],
+  ['ball', 'red', 'next to the tree'],
+  ['bird', 'yellow', 'in the tree'],
+  ['boy', 'blue', 'on the bike'],
+  ['kite', 'green', 'in the sky']
+];
+const OTHER_COLOURS = ['black', 'white', 'pink', 'orange'];
+
+const MINI_DICTIONARY: Record<string, WordMeaning> = {
+  hello: { meaning: 'xin chào', phonetic: '/həˈləʊ/', example: 'Hello, my name is Leo.' },
+  family: { meaning: 'gia đình', phonetic: '/ˈfæm.əl.i/', example: 'I love my family.' },
+  school: { meaning: 'trường học', phonetic: '/skuːl/', example: 'My school is big.' },
+  friends: { meaning: 'bạn bè', phonetic: '/frendz/', example: 'I play with my friends.' },
+  happy: { meaning: 'vui vẻ', phonetic: '/ˈhæp.i/', example: 'I am happy today.' },
+  picture: { meaning: 'bức tranh', phonetic: '/ˈpɪk.tʃər/', example: 'Look at the picture.' },
+  like: { meaning: 'thích', phonetic: '/laɪk/', example: 'I like apples.' },
+  play: { meaning: 'chơi', phonetic: '/pleɪ/', example: 'Let\'s play together.' },
+  tree: { meaning: 'cái cây', phonetic: '/triː/', example: 'The tree is tall.' },
+  colours: { meaning: 'màu sắc', phonetic: '/ˈkʌl.ərz/', example: 'I like bright colours.' }
+};
+
+const generateIllustration = async (theme: string): Promise<string> => {
+  await delay(MOCK_LATENCY_MS);
+  const hue = hashString(theme) % 360;
+  const label = theme.replace(/[<>&"]/g, '');
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="800" height="450">`
+    + `<defs><linearGradient id="g" x1="0%" y1="0%" x2="100%" y2="100%">`
+    + `<stop offset="0%" stop-color="hsl(${hue},80%,70%)"/><stop offset="100%" stop-color="hsl(${(hue + 60) % 360},70%,55%)"/>`
+    + `</linearGradient></defs><rect width="800" height="450" fill="url(#g)"/>`
+    + `<circle cx="680" cy="90" r="50" fill="#fde68a"/>`
+    + `<text x="400" y="220" font-family="Arial" font-size="48" fill="white" text-anchor="middle">${label}</text>`
+    + `<text x="400" y="275" font-family="Arial" font-size="22" fill="white" text-anchor="middle">Demo picture (offline mode)</text></svg>`;
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+};
+
+const generatePresentationScript = async (_imageUri: string, theme: string, level: CEFRLevel, focus?: LessonFocus): Promise<ScriptDraft> => {
+  await delay(MOCK_LATENCY_MS);
+  const start = hashString(theme) % POINT_BANK.length;
+  const points = Array.from({ length: POINTS_PER_LEVEL[level] }, (_, i) =>
+    POINT_BANK[(start + i) % POINT_BANK.length].replace('{theme}', theme.toLowerCase())
+  );
+  if (focus?.vocabulary.length) {
+    points.push(`Today I can say ${focus.vocabulary.join(', ')}.`);
+  }
+  reportModelUsage('script', MOCK_MODEL_ID, false);
+  return {
+    intro: `Hello everyone! My name is [Name]. Today I want to tell you about ${theme.toLowerCase()}.`,
+    points,
+    conclusion: 'Thank you for listening!'
+  };
+};
+
+/**
+ * Synthetic "speech": one soft tone per word, with longer pauses at sentence
+ * ends. Male voices sound lower and the rate stretches the timing.
+ */
+function synthesizeSpeech(text: string, voice?: VoiceSettings): AudioBuffer {
+  const tokens = text.split(/\s+/).filter(Boolean);
+  const rate = voice?.rate || 1;
+  const wordSeconds = 0.32 / rate;
+  const gapSeconds = 0.08 / rate;
+  const sentencePauseSeconds = 0.35 / rate;
+  const baseFrequency = TEACHER_VOICES.find(v => v.id === voice?.voice)?.gender === 'male' ? 110 : 180;
+  const totalSeconds = tokens.reduce(
+    (sum, token) => sum + wordSeconds + gapSeconds + (/[.!?]$/.test(token) ? sentencePauseSeconds : 0),
+    0.2
+  );
+
+  const buffer = new AudioBuffer({
+    length: Math.ceil(totalSeconds * MOCK_AUDIO_SAMPLE_RATE),
+    numberOfChannels: 1,
+    sampleRate: MOCK_AUDIO_SAMPLE_RATE
+  });
+  const data = buffer.getChannelData(0);
+
+  let cursor = 0.1;
+  tokens.forEach(token => {
+    const frequency = baseFrequency + (hashString(token) % 80);
+    const startSample = Math.floor(cursor * MOCK_AUDIO_SAMPLE_RATE);
+    const length = Math.floor(wordSeconds * MOCK_AUDIO_SAMPLE_RATE);
+    for (let i = 0; i < length && startSample + i < data.length; i++) {
+      const envelope = Math.sin(Math.PI * i / length);
+      data[startSample + i] = 0.2 * envelope * Math.sin(2 * Math.PI * frequency * i / MOCK_AUDIO_SAMPLE_RATE);
+    }
+    cursor += wordSeconds + gapSeconds + (/[.!?]$/.test(token) ? sentencePauseSeconds : 0);
+  });
+
+  return buffer;
+}
+
+function toPcm16(buffer: AudioBuffer): Int16Array {
+  return Int16Array.from(buffer.getChannelData(0), v => Math.max(-1, Math.min(1, v)) * 32767);
+}
+
+const generateTeacherVoice = async (text: string, voice: VoiceSettings): Promise<AudioBuffer> => {
+  await delay(MOCK_LATENCY_MS);
+  return synthesizeSpeech(text, voice);
+};
+
+const generateWordAudio = async (word: string, voice: VoiceSettings): Promise<AudioBuffer | null> => {
+  return synthesizeSpeech(word, voice);
+};
+
+const evaluatePresentation = async (originalScript: string, transcript: string, _level: CEFRLevel): Promise<ModelEvaluation> => {
+  await delay(MOCK_LATENCY_MS);
+  const scriptWords = words(originalScript);
+  const spoken = new Set(words(transcript));
+  const missed = scriptWords.filter(w => !spoken.has(w));
+  const coverage = scriptWords.length ? (scriptWords.length - missed.length) / scriptWords.length : 0;
+  const base = Math.round(coverage * 100) / 10;
+  const clamp = (n: number) => Math.max(0, Math.min(10, Math.round(n * 10) / 10));
+  reportModelUsage('evaluation', MOCK_MODEL_ID, false);
+
+  return {
+    pronunciation: clamp(base - 0.5),
+    fluency: clamp(base - 1),
+    intonation: clamp(base - 1.5),
+    vocabulary: clamp(base),
+    grammar: clamp(base - 0.5),
+    taskFulfillment: clamp(base),
+    mistakes: Array.from(new Set(missed)).slice(0, 3).map(word => ({
+      word,
+      tip: `Con hãy đọc chậm và rõ từ "${word}" nhé.`
+    })),
+    feedback: coverage >= 0.8
+      ? 'Con đọc rất tốt, gần như đủ cả bài! Tiếp tục phát huy nhé.'
+      : 'Con đã cố gắng rồi! Hãy đọc đủ tất cả các câu trong bài nhé.',
+    teacherPraise: coverage >= 0.8 ? 'Wonderful reading, well done!' : 'Good try! Keep practising!',
+    suggestions: [
+      'Nghe mẫu của cô Ly trước khi đọc.',
+      'Đọc to, rõ ràng và ngắt nghỉ ở dấu chấm.'
+    ]
+  };
+};
+
+const evaluateFreeSpeech = async (_imageUri: string, sampleDescription: string, transcript: string, _level: CEFRLevel): Promise<ModelFreeSpeechEvaluation> => {
+  await delay(MOCK_LATENCY_MS);
+  const spoken = words(transcript);
+  const sample = new Set(words(sampleDescription).filter(w => w.length > 3));
+  const related = new Set(spoken.filter(w => sample.has(w)));
+  const clamp = (n: number) => Math.max(0, Math.min(10, Math.round(n * 10) / 10));
+  // Relevance from the picture words the child used, range from distinct words, coherence from sentences
+  const relevance = clamp(related.size * 2);
+  const range = clamp(new Set(spoken).size / 3);
+  const coherence = clamp(splitSentences(transcript).length * 2 + (/\b(and|because|then|but)\b/i.test(transcript) ? 2 : 0));
+  const base = spoken.length ? (relevance + range + coherence) / 3 : 0;
+  reportModelUsage('evaluation', MOCK_MODEL_ID, false);
+
+  return {
+    relevance,
+    range,
+    coherence,
+    pronunciation: clamp(base),
+    fluency: clamp(base - 0.5),
+    intonation: clamp(base - 1),
+    vocabulary: range,
+    grammar: clamp(base - 0.5),
+    taskFulfillment: relevance,
+    mistakes: [],
+    feedback: relevance >= 6
+      ? 'Con tả bức tranh rất hay! Tiếp tục phát huy nhé.'
+      : 'Con đã cố gắng rồi! Hãy nhìn kĩ tranh và kể thêm những gì con thấy nhé.',
+    teacherPraise: relevance >= 6 ? 'What a lovely description!' : 'Good try! Tell me more next time!',
+    suggestions: [
+      'Nói về màu sắc, con vật và đồ vật con thấy trong tranh.',
+      'Dùng "and", "because" để nối các ý với nhau.'
+    ]
+  };
+};
+
+const lookUpMiniDictionary = (word: string): WordMeaning => MINI_DICTIONARY[word] || {
+  meaning: `(nghĩa của "${word}")`,
+  phonetic: `/${word}/`,
+  example: `I can say the word "${word}".`
+};
+
+const getWordMeaning = async (cleanWord: string): Promise<WordMeaning> => {
+  await delay(MOCK_LATENCY_MS / 2);
+  reportModelUsage('wordMeaning', MOCK_MODEL_ID, false);
+  return lookUpMiniDictionary(cleanWord);
+};
+
+const getWordMeanings = async (cleanWords: string[]): Promise<Record<string, WordMeaning>> => {
+  await delay(MOCK_LATENCY_MS / 2);
+  reportModelUsage('wordMeaning', MOCK_MODEL_ID, false);
+  return Object.fromEntries(cleanWords.map(word => [word, lookUpMiniDictionary(word)]));
+};
+
+/**
+ * Same exam for every theme, with the theme in the story and personal questions
+ */
+const generateYleExam = async (theme: string, level: YleLevel): Promise<YleExamDraft> => {
+  await delay(MOCK_LATENCY_MS);
+  const topic = theme.toLowerCase();
+  const questionCount = level === 'Starters' ? 4 : 5;
+  reportModelUsage('script', MOCK_MODEL_ID, false);
+
+  return {
+    scene: `${theme}: ${EXAM_SCENE.map(([thing, colour, where]) => `a ${colour} ${thing} ${where}`).join(', ')}`,
+    pointingQuestions: EXAM_SCENE.slice(0, questionCount).map(([thing], i) =>
+      i % 2 === 0 ? `Where is the ${thing}?` : `What colour is the ${thing}?`),
+    differences: EXAM_SCENE.slice(0, 4).map(([thing], i) => `In my picture, the ${thing} is ${OTHER_COLOURS[i]}.`),
+    storyTitle: `A day at ${topic}`,
+    storyPanels: [
+      `A girl and her dad go to ${topic}.`,
+      'The girl finds a small cat.',
+      'The cat runs away and the girl is sad.',
+      'Dad finds the cat and everyone is happy.'
+    ],
+    personalQuestions: [
+      'What is your name?',
+      'How old are you?',
+      `Do you like ${topic}?`,
+      'Who do you play with at school?',
+      'What did you do last weekend?'
+    ].slice(0, level === 'Flyers' ? 5 : 4),
+    sampleAnswers: {
+      pointing: EXAM_SCENE.slice(0, questionCount).map(([, colour, where], i) =>
+        i % 2 === 0 ? `It is ${where}.` : `It is ${colour}.`).join(' '),
+      differences: EXAM_SCENE.slice(0, 4).map(([thing, colour]) => `In my picture, the ${thing} is ${colour}.`).join(' '),
+      story: `A girl and her dad go to ${topic}. She finds a small cat. The cat runs away and she is sad. Then dad finds the cat and they are happy.`,
+      personal: `My name is Leo. I am eight. Yes, I like ${topic}. I play with my friends. I played football.`
+    }
+  };
+};
+
+/**
+ * Shields from how much the child said in each part
+ */
+const evaluateYleExam = async (answers: YlePartAnswer[], _level: YleLevel): Promise<ModelYleEvaluation> => {
+  await delay(MOCK_LATENCY_MS);
+  reportModelUsage('evaluation', MOCK_MODEL_ID, false);
+  const parts = answers.map(answer => {
+    const shields = Math.min(5, 1 + Math.floor(words(answer.transcript).length / 5));
+    return {
+      shields,
+      comment: shields >= 4 ? 'Con trả lời rất tốt phần này!' : 'Con hãy nói nhiều hơn và trả lời thành câu nhé.'
+    };
+  });
+  const good = parts.every(p => p.shields >= 4);
+
+  return {
+    parts,
+    teacherPraise: good ? 'Excellent work, you are ready for the exam!' : 'Good try! Keep practising!',
+    suggestions: [
+      'Trả lời thành câu đầy đủ, ví dụ "The dog is under the table."',
+      'Khi kể chuyện, dùng "then", "and", "but" để nối các tranh.'
+    ]
+  };
+};
+
+/**
+ * Fill-in-the-gap questions built from the script sentences
+ */
+const generateComprehensionQuestions = async (_imageUri: string, script: string, level: CEFRLevel): Promise<ComprehensionQuestionData[]> => {
+  await delay(MOCK_LATENCY_MS);
+  const optionCount = level === 'Starters' || level === 'Movers' ? 3 : 4;
+  const sentences = splitSentences(script);
+  const vocabulary = Array.from(new Set(words(script).filter(w => w.length > 3)));
+  reportModelUsage('quiz', MOCK_MODEL_ID, false);
+  if (sentences.length === 0 || vocabulary.length < optionCount) return [];
+
+  const questions: ComprehensionQuestionData[] = [];
+  for (let i = 0; questions.length < 10 && i < sentences.length * 3; i++) {
+    const sentence = sentences[i % sentences.length];
+    const candidates = sentence.split(/\s+/).filter(w => words(w)[0]?.length > 3);
+    if (candidates.length === 0) continue;
+    const answer = words(candidates[Math.floor(i / sentences.length) % candidates.length])[0];
+    const distractors = vocabulary
+      .filter(w => w !== answer)
+      .sort((a, b) => hashString(a + i) - hashString(b + i))
+      .slice(0, optionCount - 1);
+    const correctIndex = hashString(sentence + i) % optionCount;
+    const options = [...distractors];
+    options.splice(correctIndex, 0, answer);
+    questions.push({
+      question: `Which word completes the sentence? "${sentence.replace(new RegExp(`\\b${answer}\\b`, 'i'), '___')}"`,
+      options,
+      correctIndex,
+      explanation: `Trong bài, câu đầy đủ là: "${sentence}"`
+    });
+  }
+  return questions;
+};
+
+/**
+ * Pretends to hear the expected script, one word per ~0.45 s of microphone audio
+ */
+const openLiveTranscription = async (options: LiveTranscriptionOptions): Promise<LiveTranscriptionSession> => {
+  const expected = (options.expectedText || '').split(/\s+/).filter(Boolean);
+  let heardSamples = 0;
+  let nextWord = 0;
+  let closed = false;
+
+  return {
+    sendAudio: (pcm) => {
+      if (closed) return;
+      heardSamples += pcm.length;
+      while (nextWord < expected.length && heardSamples >= (nextWord + 1) * SAMPLES_PER_HEARD_WORD) {
+        options.onText(expected[nextWord] + ' ');
+        nextWord++;
+      }
+    },
+    close: () => { closed = true; }
+  };
+};
+
+/**
+ * Scripted examiner: asks the next question once it has "heard" a whole answer
+ * (a sentence from the point bank, one word per ~0.45 s of microphone audio)
+ */
+const openLiveInterview = async (options: LiveInterviewOptions): Promise<LiveTranscriptionSession> => {
+  const theme = options.theme.toLowerCase();
+  const start = hashString(theme);
+  let asked = 0;
+  let answer: string[] = [];
+  let heardSamples = 0;
+  let closed = false;
+
+  const say = (text: string) => {
+    if (closed) return;
+    options.onExaminerAudio(toPcm16(synthesizeSpeech(text)));
+    options.onExaminerText(text);
+    options.onTurnComplete();
+  };
+
+  const askNext = () => {
+    if (asked >= options.maxQuestions) {
+      say('Thank you, that was lovely! Goodbye!');
+      return;
+    }
+    const question = INTERVIEW_QUESTIONS[(start + asked) % INTERVIEW_QUESTIONS.length].replace('{theme}', theme);
+    answer = POINT_BANK[(start + asked) % POINT_BANK.length].replace('{theme}', theme).split(/\s+/);
+    heardSamples = 0;
+    asked++;
+    say(asked === 1 ? `Hello! Let's talk about ${theme}. ${question}` : `Thank you. ${question}`);
+  };
+  setTimeout(askNext, MOCK_LATENCY_MS);
+
+  return {
+    sendAudio: (pcm) => {
+      if (closed || answer.length === 0) return;
+      heardSamples += pcm.length;
+      while (answer.length > 0 && heardSamples >= SAMPLES_PER_HEARD_WORD) {
+        heardSamples -= SAMPLES_PER_HEARD_WORD;
+        options.onChildText(answer.shift() + ' ');
+        if (answer.length === 0) setTimeout(askNext, MOCK_LATENCY_MS);
+      }
+    },
+    close: () => { closed = true; }
+  };
+};
+
+const evaluateInterview = async (turns: InterviewTurn[], _theme: string, _level: CEFRLevel): Promise<ModelInterviewEvaluation> => {
+  await delay(MOCK_LATENCY_MS);
+  const questions = turns.filter(t => t.speaker === 'examiner' && t.text.includes('?')).length;
+  const answers = turns.filter(t => t.speaker === 'child').map(t => words(t.text)).filter(a => a.length > 0);
+  const spoken = answers.flat();
+  const clamp = (n: number) => Math.max(0, Math.min(10, Math.round(n * 10) / 10));
+  // Interaction from how many questions got an answer, elaboration from answer length
+  const interaction = clamp(questions ? answers.length / questions * 10 : 0);
+  const elaboration = clamp(answers.length ? spoken.length / answers.length * 1.5 : 0);
+  reportModelUsage('evaluation', MOCK_MODEL_ID, false);
+
+  return {
+    comprehension: interaction,
+    interaction,
+    elaboration,
+    vocabulary: clamp(new Set(spoken).size / 3),
+    grammar: clamp((interaction + elaboration) / 2 - 0.5),
+    feedback: interaction >= 8
+      ? 'Con trả lời cô rất tự tin! Tiếp tục phát huy nhé.'
+      : 'Con đã cố gắng rồi! Lần sau con hãy trả lời đủ tất cả câu hỏi của cô nhé.',
+    teacherPraise: interaction >= 8 ? 'What a great chat, well done!' : 'Good try! Let\'s talk again soon!',
+    suggestions: [
+      'Trả lời thành câu đầy đủ, ví dụ "I like it because...".',
+      'Nếu chưa hiểu, con hãy nói "Sorry, can you say that again?".'
+    ]
+  };
+};
+
+const transcribeRecording = async (_audioBase64: string, _mimeType: string, expectedText?: string): Promise<string> => {
+  await delay(MOCK_LATENCY_MS);
+  reportModelUsage('transcription', MOCK_MODEL_ID, false);
+  return expectedText || '';
+};
+
+export const mockProvider: AIProvider = {
+  id: 'mock',
+  label: 'Demo offline',
+  requiresApiKey: false,
+  generateIllustration,
+  generatePresentationScript,
+  generateTeacherVoice,
+  generateWordAudio,
+  evaluatePresentation,
+  evaluateFreeSpeech,
+  getWordMeaning,
+  getWordMeanings,
+  generateComprehensionQuestions,
+  generateYleExam,
+  evaluateYleExam,
+  openLiveTranscription,
+  openLiveInterview,
+  evaluateInterview,
+  transcribeRecording
+};
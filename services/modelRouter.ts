@@ -0,0 +1,87 @@
+
+import { getSelectedModel } from "./apiConfig";
+
+export interface TextModelOption {
+  id: string;
+  name: string;
+  description: string;
+  badge: string;
+  color: 'blue' | 'green' | 'purple';
+}
+
+// Also the default failover order - stable models with higher rate limits first
+export const TEXT_MODELS: TextModelOption[] = [
+  {
+    id: 'gemini-2.5-flash',
+    name: 'Gemini 2.5 Flash',
+    description: 'Ổn định, quota cao, khuyên dùng',
+    badge: 'Mặc định',
+    color: 'blue'
+  },
+  {
+    id: 'gemini-2.0-flash',
+    name: 'Gemini 2.0 Flash',
+    description: 'Ổn định, dự phòng',
+    badge: 'Dự phòng',
+    color: 'green'
+  },
+  {
+    id: 'gemini-2.5-flash-lite',
+    name: 'Gemini 2.5 Flash Lite',
+    description: 'Nhẹ, tiết kiệm quota',
+    badge: 'Tiết kiệm',
+    color: 'purple'
+  }
+];
+
+export type ModelTask = 'script' | 'evaluation' | 'wordMeaning' | 'quiz' | 'transcription';
+
+export interface ModelUsage {
+  task: ModelTask;
+  model: string;
+  // True when the user's chosen model failed and another one answered
+  isFallback: boolean;
+  at: number;
+}
+
+type ModelUsageListener = (usage: ModelUsage) => void;
+
+const listeners = new Set<ModelUsageListener>();
+let lastUsage: ModelUsage | null = null;
+
+/**
+ * The models to try in order: the user's choice, then the remaining known models
+ */
+export function getModelChain(): string[] {
+  const selected = getSelectedModel();
+  return [selected, ...TEXT_MODELS.map(m => m.id).filter(id => id !== selected)];
+}
+
+/**
+ * Record which model answered a call and notify the UI
+ */
+export function reportModelUsage(task: ModelTask, model: string, isFallback: boolean): void {
+  lastUsage = { task, model, isFallback, at: Date.now() };
+  listeners.forEach(listener => listener(lastUsage!));
+}
+
+/**
+ * Subscribe to model usage reports. Returns an unsubscribe function.
+ */
+export function subscribeModelUsage(listener: ModelUsageListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function getLastModelUsage(): ModelUsage | null {
+  return lastUsage;
+}
+
+/**
+ * Display name for a model id
+ */
+export function getModelName(model: string): string {
+  return TEXT_MODELS.find(m => m.id === model)?.name || model;
+}
@@ -0,0 +1,127 @@
+import { CEFRLevel } from '../types';
+import { DEFAULT_VOICE, VoiceAccent } from './voiceService';
+
+export interface LearnerPreferences {
+    speechRate: number; // Teacher voice speed (0.5 - 1.5)
+    voice: string; // Prebuilt TTS voice of the teacher
+    accent: VoiceAccent;
+    autoStopSilenceSeconds: number; // Stop recording after this much silence at the end of the script (0 = off)
+}
+
+export interface LearnerProfile {
+    id: string;
+    name: string;
+    avatarSeed: string;
+    level: CEFRLevel;
+    preferences: LearnerPreferences;
+    createdAt: string; // ISO string
+}
+
+const PROFILES_KEY = 'speakpro_profiles';
+const ACTIVE_PROFILE_KEY = 'speakpro_active_profile';
+const DEFAULT_NAME = 'Leo';
+
+export const DEFAULT_PREFERENCES: LearnerPreferences = {
+    speechRate: 0.8,
+    voice: DEFAULT_VOICE,
+    accent: 'us',
+    autoStopSilenceSeconds: 0
+};
+
+function saveProfiles(profiles: LearnerProfile[]): void {
+    localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+}
+
+/**
+ * Get all learner profiles
+ */
+export function getProfiles(): LearnerProfile[] {
+    try {
+        const data = localStorage.getItem(PROFILES_KEY);
+        if (!data) return [];
+        const profiles: LearnerProfile[] = JSON.parse(data);
+        // Fill in preferences added after the profile was created
+        return profiles.map(p => ({ ...p, preferences: { ...DEFAULT_PREFERENCES, ...p.preferences } }));
+    } catch {
+        return [];
+    }
+}
+
+/**
+ * Get a single profile by id
+ */
+export function getProfile(id: string): LearnerProfile | undefined {
+    return getProfiles().find(p => p.id === id);
+}
+
+/**
+ * Create and store a new learner profile
+ */
+export function createProfile(name: string, level: CEFRLevel = 'Starters'): LearnerProfile {
+    const cleanName = name.trim() || DEFAULT_NAME;
+    const profile: LearnerProfile = {
+        id: `learner_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        name: cleanName,
+        avatarSeed: cleanName,
+        level,
+        preferences: { ...DEFAULT_PREFERENCES },
+        createdAt: new Date().toISOString()
+    };
+    saveProfiles([...getProfiles(), profile]);
+    return profile;
+}
+
+/**
+ * Update fields of an existing profile
+ */
+export function updateProfile(
+    id: string,
+    changes: Partial<Omit<LearnerProfile, 'id' | 'createdAt' | 'preferences'>> & { preferences?: Partial<LearnerPreferences> }
+): LearnerProfile | undefined {
+    let updated: LearnerProfile | undefined;
+    const profiles = getProfiles().map(p => {
+        if (p.id !== id) return p;
+        updated = {
+            ...p,
+            ...changes,
+            preferences: { ...p.preferences, ...changes.preferences }
+        };
+        return updated;
+    });
+    saveProfiles(profiles);
+    return updated;
+}
+
+/**
+ * Find a profile by (case-insensitive) name, creating it if missing
+ */
+export function findOrCreateProfileByName(name: string, level?: CEFRLevel): LearnerProfile {
+    const key = name.trim().toLowerCase();
+    const existing = getProfiles().find(p => p.name.trim().toLowerCase() === key);
+    return existing || createProfile(name, level);
+}
+
+/**
+ * Get the learner currently using the app (creates a default one on first run)
+ */
+export function getActiveProfile(): LearnerProfile {
+    const profiles = getProfiles();
+    const activeId = localStorage.getItem(ACTIVE_PROFILE_KEY);
+    const active = profiles.find(p => p.id === activeId) || profiles[0] || createProfile(DEFAULT_NAME);
+    if (active.id !== activeId) setActiveProfileId(active.id);
+    return active;
+}
+
+/**
+ * Switch the active learner
+ */
+export function setActiveProfileId(id: string): void {
+    localStorage.setItem(ACTIVE_PROFILE_KEY, id);
+}
+
+/**
+ * Avatar image URL for a profile
+ */
+export function getAvatarUrl(profile: LearnerProfile): string {
+    return `https://api.dicebear.com/7.x/adventurer/svg?seed=${encodeURIComponent(profile.avatarSeed)}`;
+}
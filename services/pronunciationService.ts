@@ -0,0 +1,186 @@
+import { EvaluationResult, PronunciationError, PronunciationErrorCategory } from '../types';
+import { alignReading } from './alignmentService';
+
+// Structured pronunciation errors: what each typical Vietnamese-speaker error
+// looks like, a local detector for misread script words, and minimal-pair
+// drills built from the categories a child keeps getting wrong.
+
+export interface PronunciationCategoryInfo {
+    label: string; // Vietnamese
+    tip: string; // Vietnamese
+    // Minimal pairs: [word with the target sound, word the child tends to say instead]
+    pairs: [string, string][];
+}
+
+export const PRONUNCIATION_CATEGORIES: Record<PronunciationErrorCategory, PronunciationCategoryInfo> = {
+    'final-consonant': {
+        label: 'Mất âm cuối',
+        tip: 'Đọc rõ âm cuối của từ, đừng nuốt âm.',
+        pairs: [['white', 'why'], ['seat', 'sea'], ['make', 'may'], ['bite', 'by'], ['road', 'row']]
+    },
+    'final-s': {
+        label: 'Thiếu âm /s/, /z/ cuối',
+        tip: 'Nhớ đọc âm /s/ hoặc /z/ ở cuối từ số nhiều và động từ ngôi thứ ba.',
+        pairs: [['cats', 'cat'], ['dogs', 'dog'], ['books', 'book'], ['plays', 'play'], ['eyes', 'eye']]
+    },
+    'ed-ending': {
+        label: 'Thiếu đuôi -ed',
+        tip: 'Nhớ đọc đuôi "-ed" (/t/, /d/ hoặc /ɪd/) ở động từ quá khứ.',
+        pairs: [['played', 'play'], ['walked', 'walk'], ['wanted', 'want'], ['jumped', 'jump']]
+    },
+    'th': {
+        label: 'Âm "th"',
+        tip: 'Âm "th": đặt nhẹ đầu lưỡi giữa hai hàm răng rồi thổi hơi ra.',
+        pairs: [['think', 'sink'], ['three', 'tree'], ['thin', 'tin'], ['they', 'day'], ['bath', 'bat']]
+    },
+    'sh-s': {
+        label: 'Âm /ʃ/ và /s/',
+        tip: 'Âm /ʃ/ ("sh"): tròn môi và đẩy hơi ra như khi nói "suỵt".',
+        pairs: [['ship', 'sip'], ['she', 'see'], ['shell', 'sell'], ['sheet', 'seat']]
+    },
+    'l-n': {
+        label: 'Âm /l/ và /n/',
+        tip: 'Âm /l/: đầu lưỡi chạm lợi trên, hơi đi ra hai bên lưỡi, không đi qua mũi.',
+        pairs: [['light', 'night'], ['low', 'no'], ['lock', 'knock'], ['lice', 'nice']]
+    },
+    'vowel-length': {
+        label: 'Nguyên âm dài và ngắn',
+        tip: 'Âm /iː/ kéo dài và căng môi như cười, âm /ɪ/ ngắn và thả lỏng.',
+        pairs: [['sheep', 'ship'], ['seat', 'sit'], ['feet', 'fit'], ['leave', 'live'], ['eat', 'it']]
+    },
+    'consonant-cluster': {
+        label: 'Cụm phụ âm',
+        tip: 'Đọc đủ cả hai phụ âm đứng liền nhau, không chèn thêm nguyên âm.',
+        pairs: [['play', 'pay'], ['tree', 'tea'], ['star', 'tar'], ['black', 'back'], ['snow', 'no']]
+    },
+    'other': {
+        label: 'Lỗi khác',
+        tip: 'Nghe mẫu và đọc chậm từ này.',
+        pairs: []
+    }
+};
+
+const CATEGORIES = Object.keys(PRONUNCIATION_CATEGORIES) as PronunciationErrorCategory[];
+// Practised when the history has no recurring errors yet (the most common ones for Vietnamese speakers)
+const DEFAULT_DRILL_CATEGORIES: PronunciationErrorCategory[] = ['final-consonant', 'th', 'final-s'];
+const VOICED_TH_WORDS = new Set(['the', 'this', 'that', 'these', 'those', 'they', 'them', 'their', 'there', 'then', 'than', 'with', 'mother', 'father', 'brother', 'other']);
+const CLUSTER_START = /^(bl|br|cl|cr|dr|fl|fr|gl|gr|pl|pr|sc|sk|sl|sm|sn|sp|st|sw|tr|tw)/;
+
+const error = (word: string, category: PronunciationErrorCategory, target: string, produced: string): PronunciationError =>
+    ({ word, category, target, produced, tip: PRONUNCIATION_CATEGORIES[category].tip });
+
+/**
+ * Guess which typical error turned an expected word into the word that was
+ * heard (both normalised, lower case). Null when no known pattern fits.
+ */
+export function classifyMisreading(expected: string, spoken: string): PronunciationError | null {
+    if (!spoken || expected === spoken) return null;
+
+    if (expected.startsWith('th') && !spoken.startsWith('th') && expected.slice(2) === spoken.slice(1)) {
+        return error(expected, 'th', VOICED_TH_WORDS.has(expected) ? 'ð' : 'θ', spoken[0]);
+    }
+    if (expected.startsWith('sh') && spoken.startsWith('s') && !spoken.startsWith('sh')) {
+        return error(expected, 'sh-s', 'ʃ', 's');
+    }
+    if (expected[0] === 'l' && spoken[0] === 'n' && expected.slice(1) === spoken.slice(1)) {
+        return error(expected, 'l-n', 'l', 'n');
+    }
+    if (/ed$/.test(expected) && (spoken === expected.slice(0, -2) || spoken === expected.slice(0, -1))) {
+        return error(expected, 'ed-ending', /[td]ed$/.test(expected) ? 'ɪd' : /[pkfsx]ed$|ched$|shed$/.test(expected) ? 't' : 'd', '');
+    }
+    // "bus", "was", "this" end in -s without being plurals
+    if ((/[^aiosu]s$/.test(expected) && spoken === expected.slice(0, -1)) || (/(s|x|z|ch|sh)es$/.test(expected) && spoken === expected.slice(0, -2))) {
+        return error(expected, 'final-s', /[ptkf]s$/.test(expected) ? 's' : 'z', '');
+    }
+    if (/(ee|ea)/.test(expected) && spoken === expected.replace(/ee|ea/, 'i')) {
+        return error(expected, 'vowel-length', 'iː', 'ɪ');
+    }
+    if (CLUSTER_START.test(expected) && (spoken === expected.slice(1) || spoken === expected[0] + expected.slice(2))) {
+        return error(expected, 'consonant-cluster', expected.slice(0, 2), spoken.slice(0, 1));
+    }
+    if (/[^aeiouy]$/.test(expected) && expected.startsWith(spoken) && expected.length - spoken.length <= 2) {
+        return error(expected, 'final-consonant', expected.slice(spoken.length), '');
+    }
+    return null;
+}
+
+/**
+ * Pronunciation errors behind the misread words of a reading
+ */
+export function detectPronunciationErrors(script: string, transcript: string): PronunciationError[] {
+    const { steps } = alignReading(script, transcript, 0);
+    return steps
+        .filter(step => step.op === 'substituted' && step.expected && step.spoken)
+        .map(step => classifyMisreading(step.expected!, step.spoken!))
+        .filter((e): e is PronunciationError => e !== null);
+}
+
+/**
+ * Clean up errors reported by the model (unknown categories become 'other')
+ * and merge them with locally detected ones, one entry per word and category
+ */
+export function mergePronunciationErrors(...lists: (PronunciationError[] | undefined)[]): PronunciationError[] {
+    const merged = new Map<string, PronunciationError>();
+    lists.flatMap(list => list || []).forEach(e => {
+        if (!e?.word) return;
+        const category = CATEGORIES.includes(e.category) ? e.category : 'other';
+        const key = `${e.word.toLowerCase()}|${category}`;
+        if (!merged.has(key)) {
+            merged.set(key, {
+                word: e.word,
+                target: (e.target || '').replace(/\//g, ''),
+                produced: (e.produced || '').replace(/\//g, ''),
+                category,
+                tip: e.tip || PRONUNCIATION_CATEGORIES[category].tip
+            });
+        }
+    });
+    return Array.from(merged.values());
+}
+
+/**
+ * How often each error category shows up across past evaluations, most frequent first
+ */
+export function countErrorCategories(evaluations: (EvaluationResult | undefined)[]): { category: PronunciationErrorCategory; count: number; words: string[] }[] {
+    const counts = new Map<PronunciationErrorCategory, { count: number; words: Set<string> }>();
+    evaluations.forEach(evaluation => {
+        evaluation?.pronunciationErrors?.forEach(e => {
+            const entry = counts.get(e.category) || { count: 0, words: new Set<string>() };
+            entry.count++;
+            entry.words.add(e.word.toLowerCase());
+            counts.set(e.category, entry);
+        });
+    });
+    return Array.from(counts.entries())
+        .map(([category, { count, words }]) => ({ category, count, words: Array.from(words) }))
+        .sort((a, b) => b.count - a.count);
+}
+
+export interface DrillItem {
+    category: PronunciationErrorCategory;
+    target: string; // The word to say
+    contrast: string; // The word it must not sound like
+}
+
+/**
+ * Minimal-pair listen-and-repeat items for the child's most frequent error
+ * categories (seen at least minCount times), or for the common ones when
+ * nothing recurs yet
+ */
+export function buildMinimalPairDrill(
+    evaluations: (EvaluationResult | undefined)[],
+    { maxCategories = 3, pairsPerCategory = 3, minCount = 2 } = {}
+): { items: DrillItem[]; fromHistory: boolean } {
+    const recurring = countErrorCategories(evaluations)
+        .filter(c => c.count >= minCount && PRONUNCIATION_CATEGORIES[c.category].pairs.length > 0)
+        .slice(0, maxCategories)
+        .map(c => c.category);
+    const categories = recurring.length > 0 ? recurring : DEFAULT_DRILL_CATEGORIES;
+
+    const items = categories.flatMap(category =>
+        PRONUNCIATION_CATEGORIES[category].pairs
+            .slice(0, pairsPerCategory)
+            .map(([target, contrast]) => ({ category, target, contrast }))
+    );
+    return { items, fromHistory: recurring.length > 0 };
+}
@@ -0,0 +1,40 @@
+// Recordings are kept with each lesson so progress can be heard over weeks.
+// Opus at a low bitrate keeps speech clear at ~4 KB/s; the cap bounds one lesson.
+export const RECORDING_BITS_PER_SECOND = 32000;
+export const RECORDING_TIMESLICE_MS = 1000;
+export const MAX_RECORDING_BYTES = 1.5 * 1024 * 1024;
+// Older recordings of a learner beyond this count are dropped (scores are kept)
+export const MAX_RECORDINGS_PER_LEARNER = 60;
+
+const PREFERRED_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/webm', 'audio/ogg;codecs=opus', 'audio/mp4'];
+
+export interface StoredRecording {
+    blob: Blob;
+    truncated: boolean; // True when the end was cut to respect MAX_RECORDING_BYTES
+}
+
+/**
+ * MediaRecorder options for compact speech recordings
+ */
+export function getRecorderOptions(): MediaRecorderOptions {
+    const mimeType = PREFERRED_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type)) || 'audio/mp4';
+    return { mimeType, audioBitsPerSecond: RECORDING_BITS_PER_SECOND };
+}
+
+/**
+ * Join recorder chunks into a blob no larger than MAX_RECORDING_BYTES.
+ * Chunks are kept whole from the start, so the result stays playable.
+ */
+export function buildStoredRecording(chunks: Blob[], mimeType: string): StoredRecording {
+    const kept: Blob[] = [];
+    let size = 0;
+    for (const chunk of chunks) {
+        if (size + chunk.size > MAX_RECORDING_BYTES) break;
+        kept.push(chunk);
+        size += chunk.size;
+    }
+    return {
+        blob: new Blob(kept, { type: mimeType }),
+        truncated: kept.length < chunks.length
+    };
+}
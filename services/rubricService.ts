@@ -0,0 +1,276 @@
+import { CEFRLevel, SkillKey, TaskType } from '../types';
+import { LEVEL_SCALE } from './levelEstimator';
+
+export interface RubricCriterion {
+    key: SkillKey;
+    label: string;
+    weight: number; // Relative weight; normalised when scoring
+    descriptors: string[]; // One per SCORE_BANDS entry, highest band first
+}
+
+export interface GradeBand {
+    min: number; // Lowest final score (0-10) for this grade
+    label: string;
+    color: string; // Tailwind text colour class
+    stars: number;
+}
+
+export interface Rubric {
+    name: string;
+    criteria: RubricCriterion[];
+    grades: GradeBand[]; // Highest band first
+}
+
+// A reading rubric applies to one level, or to every level without its own
+// ('default'); picture description has a single rubric of its own ('picture')
+export type RubricScope = CEFRLevel | 'default' | 'picture';
+
+interface StoredRubrics {
+    default?: Rubric;
+    byLevel: Partial<Record<CEFRLevel, Rubric>>;
+    picture?: Rubric;
+}
+
+const STORAGE_KEY = 'speakpro_rubrics';
+
+// Score bands the criterion descriptors refer to (same scale as the evaluation prompt)
+export const SCORE_BANDS: { min: number; label: string }[] = [
+    { min: 9, label: '9-10' },
+    { min: 7, label: '7-8' },
+    { min: 5, label: '5-6' },
+    { min: 3, label: '3-4' },
+    { min: 0, label: '0-2' }
+];
+
+export const GRADE_COLORS = ['text-amber-500', 'text-emerald-500', 'text-blue-500', 'text-orange-500', 'text-slate-500', 'text-red-500'];
+
+export const DEFAULT_RUBRIC: Rubric = {
+    name: 'Mặc định',
+    criteria: [
+        {
+            key: 'pronunciation', label: 'Phát âm', weight: 1,
+            descriptors: ['Phát âm rõ, gần như người bản xứ', 'Rõ ràng, vài lỗi nhỏ', 'Hiểu được, còn lỗi âm', 'Nhiều lỗi, khó nghe', 'Chưa phát âm được']
+        },
+        {
+            key: 'fluency', label: 'Lưu loát', weight: 1,
+            descriptors: ['Trôi chảy, ngắt nghỉ tự nhiên', 'Khá trôi chảy', 'Còn ngập ngừng', 'Ngắt quãng nhiều', 'Chưa đọc liền được']
+        },
+        {
+            key: 'intonation', label: 'Ngữ điệu', weight: 1,
+            descriptors: ['Ngữ điệu tự nhiên, nhấn đúng', 'Có lên xuống giọng', 'Hơi đều giọng', 'Đều giọng, ít nhấn', 'Chưa có ngữ điệu']
+        },
+        {
+            key: 'vocabulary', label: 'Từ vựng', weight: 1,
+            descriptors: ['Dùng đúng mọi từ', 'Đúng hầu hết từ', 'Sai một số từ', 'Sai nhiều từ', 'Chưa dùng được từ']
+        },
+        {
+            key: 'grammar', label: 'Ngữ pháp', weight: 1,
+            descriptors: ['Câu hoàn toàn chính xác', 'Lỗi nhỏ', 'Một số lỗi câu', 'Nhiều lỗi câu', 'Chưa thành câu']
+        },
+        {
+            key: 'taskFulfillment', label: 'Hoàn thành', weight: 1,
+            descriptors: ['Đọc đủ cả bài', 'Đọc gần hết bài', 'Đọc được một nửa', 'Đọc được ít', 'Lạc đề hoặc không đọc']
+        }
+    ],
+    grades: [
+        { min: 9, label: 'Xuất sắc', color: 'text-amber-500', stars: 5 },
+        { min: 8, label: 'Giỏi', color: 'text-emerald-500', stars: 4 },
+        { min: 7, label: 'Khá', color: 'text-blue-500', stars: 3 },
+        { min: 5, label: 'Trung bình', color: 'text-orange-500', stars: 2 },
+        { min: 0, label: 'Cần cố gắng', color: 'text-slate-500', stars: 1 }
+    ]
+};
+
+// Spontaneous speech is judged on what was said, not on matching a script
+export const DEFAULT_PICTURE_RUBRIC: Rubric = {
+    name: 'Tả tranh',
+    criteria: [
+        {
+            key: 'relevance', label: 'Đúng nội dung tranh', weight: 2,
+            descriptors: ['Tả đúng và đủ các chi tiết chính', 'Tả đúng hầu hết chi tiết', 'Tả được vài chi tiết', 'Ít liên quan đến tranh', 'Không nói về bức tranh']
+        },
+        {
+            key: 'range', label: 'Vốn từ và mẫu câu', weight: 1,
+            descriptors: ['Từ vựng và mẫu câu phong phú', 'Khá đa dạng', 'Lặp lại một số từ', 'Vốn từ rất hạn chế', 'Chỉ nói từ đơn lẻ']
+        },
+        {
+            key: 'coherence', label: 'Mạch lạc', weight: 1,
+            descriptors: ['Ý nối tiếp tự nhiên, có từ nối', 'Có trình tự rõ', 'Ý còn rời rạc', 'Khó theo dõi', 'Chưa thành ý']
+        },
+        {
+            key: 'pronunciation', label: 'Phát âm', weight: 1,
+            descriptors: DEFAULT_RUBRIC.criteria[0].descriptors
+        },
+        {
+            key: 'fluency', label: 'Lưu loát', weight: 1,
+            descriptors: ['Nói trôi chảy, ít ngập ngừng', 'Khá trôi chảy', 'Còn ngập ngừng', 'Ngắt quãng nhiều', 'Chưa nói liền được']
+        },
+        {
+            key: 'grammar', label: 'Ngữ pháp', weight: 1,
+            descriptors: DEFAULT_RUBRIC.criteria[4].descriptors
+        }
+    ],
+    grades: DEFAULT_RUBRIC.grades
+};
+
+function loadStored(): StoredRubrics {
+    try {
+        const data = localStorage.getItem(STORAGE_KEY);
+        if (!data) return { byLevel: {} };
+        const parsed = JSON.parse(data);
+        return { default: parsed.default, byLevel: parsed.byLevel || {}, picture: parsed.picture };
+    } catch {
+        return { byLevel: {} };
+    }
+}
+
+function saveStored(stored: StoredRubrics): void {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+}
+
+/**
+ * Check a rubric's shape, throwing a readable error if it can't be used.
+ * Reading rubrics may only use the reading criteria; the picture rubric may
+ * use those and the free-speech ones.
+ */
+export function validateRubric(value: unknown, taskType: TaskType = 'reading'): Rubric {
+    const rubric = value as Rubric;
+    if (!rubric || typeof rubric !== 'object' || !Array.isArray(rubric.criteria) || !Array.isArray(rubric.grades)) {
+        throw new Error('Thang điểm không hợp lệ: thiếu criteria hoặc grades');
+    }
+    const keys = (taskType === 'picture' ? [...DEFAULT_RUBRIC.criteria, ...DEFAULT_PICTURE_RUBRIC.criteria] : DEFAULT_RUBRIC.criteria)
+        .map(c => c.key);
+    const seen = new Set<SkillKey>();
+    rubric.criteria.forEach(c => {
+        if (!c || !keys.includes(c.key)) throw new Error(`Tiêu chí không hợp lệ: ${c?.key}`);
+        if (seen.has(c.key)) throw new Error(`Tiêu chí bị lặp: ${c.key}`);
+        seen.add(c.key);
+        if (typeof c.label !== 'string' || !c.label.trim()) throw new Error(`Tiêu chí ${c.key} cần có tên`);
+        if (typeof c.weight !== 'number' || c.weight < 0) throw new Error(`Trọng số không hợp lệ cho ${c.key}`);
+        if (!Array.isArray(c.descriptors) || c.descriptors.length !== SCORE_BANDS.length || c.descriptors.some(d => typeof d !== 'string')) {
+            throw new Error(`Tiêu chí "${c.label}" cần ${SCORE_BANDS.length} mô tả, mỗi mức điểm một mô tả`);
+        }
+    });
+    if (rubric.criteria.reduce((sum, c) => sum + c.weight, 0) <= 0) {
+        throw new Error('Tổng trọng số phải lớn hơn 0');
+    }
+    if (rubric.grades.length === 0 || rubric.grades.some(g => !g || typeof g.min !== 'number' || !g.label)) {
+        throw new Error('Xếp loại không hợp lệ');
+    }
+    rubric.grades.forEach(g => {
+        if (!Number.isInteger(g.stars) || g.stars < 1 || g.stars > 5) throw new Error(`Số sao của "${g.label}" phải từ 1 đến 5`);
+        if (!GRADE_COLORS.includes(g.color)) throw new Error(`Màu không hợp lệ cho "${g.label}": ${g.color}`);
+    });
+    return {
+        name: rubric.name || 'Tùy chỉnh',
+        criteria: rubric.criteria.map(c => ({ ...c, descriptors: [...c.descriptors] })),
+        grades: [...rubric.grades].sort((a, b) => b.min - a.min)
+    };
+}
+
+/**
+ * Get the rubric used for a level (its own, else the default one), or the picture description rubric
+ */
+export function getRubric(level?: CEFRLevel, taskType: TaskType = 'reading'): Rubric {
+    const stored = loadStored();
+    if (taskType === 'picture') return stored.picture || DEFAULT_PICTURE_RUBRIC;
+    return (level && stored.byLevel[level]) || stored.default || DEFAULT_RUBRIC;
+}
+
+/**
+ * Get the rubric a scope currently uses (for editing)
+ */
+export function getRubricForScope(scope: RubricScope): Rubric {
+    if (scope === 'picture') return getRubric(undefined, 'picture');
+    return getRubric(scope === 'default' ? undefined : scope);
+}
+
+/**
+ * Whether a scope has its own rubric saved
+ */
+export function hasCustomRubric(scope: RubricScope): boolean {
+    const stored = loadStored();
+    if (scope === 'picture') return !!stored.picture;
+    return scope === 'default' ? !!stored.default : !!stored.byLevel[scope];
+}
+
+/**
+ * Save a rubric for a level or as the default
+ */
+export function saveRubric(scope: RubricScope, rubric: Rubric): void {
+    const valid = validateRubric(rubric, scope === 'picture' ? 'picture' : 'reading');
+    const stored = loadStored();
+    if (scope === 'picture') stored.picture = valid;
+    else if (scope === 'default') stored.default = valid;
+    else stored.byLevel[scope] = valid;
+    saveStored(stored);
+}
+
+/**
+ * Remove a custom rubric so the scope falls back to the default
+ */
+export function resetRubric(scope: RubricScope): void {
+    const stored = loadStored();
+    if (scope === 'picture') delete stored.picture;
+    else if (scope === 'default') delete stored.default;
+    else delete stored.byLevel[scope];
+    saveStored(stored);
+}
+
+/**
+ * Export all custom rubrics as JSON
+ */
+export function exportRubrics(): string {
+    return JSON.stringify(loadStored(), null, 2);
+}
+
+/**
+ * Replace custom rubrics with ones from exported JSON
+ */
+export function importRubrics(json: string): void {
+    let parsed: any;
+    try {
+        parsed = JSON.parse(json);
+    } catch {
+        throw new Error('File không phải JSON hợp lệ');
+    }
+    if (!parsed || typeof parsed !== 'object' || (parsed.byLevel && typeof parsed.byLevel !== 'object')) {
+        throw new Error('File này không phải thang điểm đã xuất từ ứng dụng');
+    }
+    const byLevel: Partial<Record<CEFRLevel, Rubric>> = {};
+    Object.entries(parsed.byLevel || {}).forEach(([level, rubric]) => {
+        if (!LEVEL_SCALE.includes(level as CEFRLevel)) throw new Error(`Cấp độ không hợp lệ: ${level}`);
+        byLevel[level as CEFRLevel] = validateRubric(rubric);
+    });
+    saveStored({
+        default: parsed.default ? validateRubric(parsed.default) : undefined,
+        byLevel,
+        picture: parsed.picture ? validateRubric(parsed.picture, 'picture') : undefined
+    });
+}
+
+/**
+ * Weighted final score (0-10, one decimal) of the skill scores
+ */
+export function computeWeightedScore(scores: Partial<Record<SkillKey, number>>, rubric: Rubric): number {
+    const totalWeight = rubric.criteria.reduce((sum, c) => sum + c.weight, 0);
+    if (totalWeight <= 0) return 0;
+    const weighted = rubric.criteria.reduce((sum, c) => sum + (scores[c.key] ?? 0) * c.weight, 0) / totalWeight;
+    return Math.round(weighted * 10) / 10;
+}
+
+/**
+ * Grade label, colour and stars for a final score
+ */
+export function getGradeInfo(score: number, rubric: Rubric): { grade: string; color: string; stars: number } {
+    const band = rubric.grades.find(g => score >= g.min) || rubric.grades[rubric.grades.length - 1];
+    return { grade: band.label, color: band.color, stars: band.stars };
+}
+
+/**
+ * Descriptor of a criterion for a 0-10 score
+ */
+export function getDescriptor(criterion: RubricCriterion, score: number): string | undefined {
+    const bandIndex = SCORE_BANDS.findIndex(b => score >= b.min);
+    return criterion.descriptors[bandIndex];
+}
@@ -0,0 +1,133 @@
+import { PresentationData, ShadowingSentenceResult } from '../types';
+import { alignReading } from './alignmentService';
+import { classifyMisreading } from './pronunciationService';
+import { startAudioCapture, AudioCapture } from './audioCapture';
+import { createAudioAnalyzer } from './audioAnalysis';
+import { startTranscription, transcribeRecording, TranscriptionHandle } from './transcriptionService';
+import { getRecorderOptions } from './recordingService';
+
+// Shadowing practice: the teacher reads one sentence, the child repeats it and
+// gets instant local feedback before moving on to the next sentence.
+
+// Accuracy (0-100) from which a sentence counts as done
+export const SHADOWING_PASS_ACCURACY = 80;
+// Stop listening once the child has been quiet this long after speaking
+const SENTENCE_SILENCE_MS = 1500;
+const MAX_TIPS_PER_SENTENCE = 3;
+
+export interface SentenceRecording {
+    // Stop listening; resolves with what was heard (falls back to transcribing the recording)
+    stop: () => Promise<string>;
+    // Stop without transcribing
+    cancel: () => void;
+}
+
+export interface SentenceRecordingOptions {
+    onText?: (transcript: string) => void;
+    onLevel?: (level: number) => void;
+    // The child has finished speaking (a pause after some speech)
+    onDone?: () => void;
+}
+
+/**
+ * Split a presentation into the sentences to shadow, in reading order
+ */
+export function splitIntoSentences(presentation: Pick<PresentationData, 'intro' | 'points' | 'conclusion'>): string[] {
+    return [presentation.intro, ...presentation.points, presentation.conclusion]
+        .flatMap(part => part.match(/[^.!?]+[.!?]*["'”’)]*/g) || [])
+        .map(sentence => sentence.trim())
+        .filter(sentence => /[a-zA-Z0-9]/.test(sentence));
+}
+
+/**
+ * Pronunciation hint for a word the child said differently (Vietnamese)
+ */
+function getPronunciationTip(expected: string, spoken?: string): string {
+    if (!spoken) return 'Con bỏ sót từ này, nghe cô đọc lại rồi nhắc theo nhé.';
+    const error = classifyMisreading(expected, spoken);
+    return error ? error.tip : `Cô nghe thành "${spoken}", con nghe lại và đọc chậm từ này nhé.`;
+}
+
+/**
+ * Score one repeated sentence against the original (accuracy 0-100 and tips)
+ */
+export function evaluateSentence(sentence: string, transcript: string): Pick<ShadowingSentenceResult, 'accuracy' | 'tips'> {
+    const { stats, steps } = alignReading(sentence, transcript, 0);
+    const tips: ShadowingSentenceResult['tips'] = [];
+    steps.forEach(step => {
+        if ((step.op !== 'substituted' && step.op !== 'skipped') || !step.expected) return;
+        if (tips.length >= MAX_TIPS_PER_SENTENCE || tips.some(t => t.word === step.expected)) return;
+        tips.push({ word: step.expected, tip: getPronunciationTip(step.expected, step.spoken) });
+    });
+    return { accuracy: stats.accuracy, tips };
+}
+
+/**
+ * Overall shadowing score (0-10, one decimal) from each sentence's best accuracy
+ */
+export function getShadowingScore(results: ShadowingSentenceResult[]): number {
+    if (results.length === 0) return 0;
+    const average = results.reduce((sum, r) => sum + r.accuracy, 0) / results.length;
+    return Math.round(average / 10 * 10) / 10;
+}
+
+/**
+ * Record the child repeating one sentence, with live transcription when available
+ */
+export async function recordSentence(sentence: string, options: SentenceRecordingOptions = {}): Promise<SentenceRecording> {
+    const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    const chunks: Blob[] = [];
+    let transcript = '';
+    let capture: AudioCapture | null = null;
+    let session: TranscriptionHandle | null = null;
+
+    const recorder = new MediaRecorder(stream, getRecorderOptions());
+    recorder.ondataavailable = (e) => {
+        if (e.data.size > 0) chunks.push(e.data);
+    };
+    const stopped = new Promise<Blob>(resolve => {
+        recorder.onstop = () => resolve(new Blob(chunks, { type: recorder.mimeType }));
+    });
+    recorder.start();
+
+    const release = () => {
+        if (recorder.state !== 'inactive') recorder.stop();
+        session?.close();
+        session = null;
+        capture?.stop();
+        capture = null;
+        stream.getTracks().forEach(track => track.stop());
+    };
+
+    try {
+        capture = await startAudioCapture(stream);
+        session = await startTranscription({
+            expectedText: sentence,
+            onText: (text) => {
+                transcript += text;
+                options.onText?.(transcript);
+            }
+        });
+        capture.subscribe(pcm => session?.sendAudio(pcm));
+        const analyzer = createAudioAnalyzer({
+            silenceMs: SENTENCE_SILENCE_MS,
+            onLevel: (l) => options.onLevel?.(l.level),
+            onSilence: () => options.onDone?.()
+        });
+        capture.subscribe(analyzer.process);
+    } catch (err) {
+        release();
+        throw err;
+    }
+
+    return {
+        stop: async () => {
+            release();
+            const blob = await stopped;
+            if (transcript.trim() || blob.size === 0) return transcript;
+            const fallback = await transcribeRecording(blob, sentence);
+            return fallback?.text || '';
+        },
+        cancel: release
+    };
+}
@@ -0,0 +1,91 @@
+// Word timings for the teacher voice, so the script can be highlighted karaoke-style.
+// Word indexes refer to the whitespace-split script (intro, points, conclusion).
+
+export interface WordTiming {
+  start: number; // seconds
+  end: number;
+}
+
+// Relative durations used to spread words over the audio
+const PAUSE_AFTER_COMMA = 1.5;
+const PAUSE_AFTER_SENTENCE = 3;
+const MIN_WORD_WEIGHT = 2;
+// Amplitude that counts as speech when trimming silence from a buffer
+const SPEECH_THRESHOLD = 0.02;
+
+const splitWords = (script: string) => script.split(/\s+/).filter(Boolean);
+
+/**
+ * Start and end (seconds) of the audible part of a buffer
+ */
+export function detectSpeechBounds(buffer: AudioBuffer): { start: number; end: number } {
+  const data = buffer.getChannelData(0);
+  let first = 0;
+  let last = data.length - 1;
+  while (first < data.length && Math.abs(data[first]) < SPEECH_THRESHOLD) first++;
+  while (last > first && Math.abs(data[last]) < SPEECH_THRESHOLD) last--;
+  if (first >= data.length) return { start: 0, end: buffer.duration };
+  return { start: first / buffer.sampleRate, end: (last + 1) / buffer.sampleRate };
+}
+
+/**
+ * Estimate when each word is spoken by spreading the speech span over the
+ * words, weighted by length with extra time for punctuation pauses
+ */
+export function estimateWordTimings(script: string, start: number, end: number): WordTiming[] {
+  const words = splitWords(script);
+  const weights = words.map(word => Math.max(MIN_WORD_WEIGHT, word.replace(/[^a-zA-Z0-9]/g, '').length));
+  const pauses = words.map(word => /[.!?]$/.test(word) ? PAUSE_AFTER_SENTENCE : /[,;:]$/.test(word) ? PAUSE_AFTER_COMMA : 0);
+  const total = weights.reduce((a, b) => a + b, 0) + pauses.reduce((a, b) => a + b, 0);
+  const secondsPerUnit = total > 0 ? (end - start) / total : 0;
+
+  let t = start;
+  return words.map((_, i) => {
+    const timing = { start: t, end: t + weights[i] * secondsPerUnit };
+    t = timing.end + pauses[i] * secondsPerUnit;
+    return timing;
+  });
+}
+
+/**
+ * Estimated word timings for a synthesized buffer of the whole script
+ */
+export function getBufferWordTimings(script: string, buffer: AudioBuffer): WordTiming[] {
+  const { start, end } = detectSpeechBounds(buffer);
+  return estimateWordTimings(script, start, end);
+}
+
+/**
+ * Index of the word being spoken at a time, or null before the first word
+ */
+export function findWordAt(timings: WordTiming[], time: number): number | null {
+  if (timings.length === 0 || time < timings[0].start) return null;
+  let low = 0;
+  let high = timings.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (timings[mid].start <= time) low = mid;
+    else high = mid - 1;
+  }
+  return low;
+}
+
+/**
+ * Character offset where each word of the script starts (for SpeechSynthesis boundary events)
+ */
+export function getWordCharOffsets(script: string): number[] {
+  const offsets: number[] = [];
+  const pattern = /\S+/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(script))) offsets.push(match.index);
+  return offsets;
+}
+
+/**
+ * Word index containing a character offset
+ */
+export function wordIndexAtChar(offsets: number[], charIndex: number): number {
+  let index = 0;
+  while (index + 1 < offsets.length && offsets[index + 1] <= charIndex) index++;
+  return index;
+}
@@ -0,0 +1,229 @@
+import { WordMeaning } from './aiProvider';
+
+// Offline starter dictionary: common words from the Cambridge Starters, Movers,
+// Flyers and A2 Key word lists. Loaded on demand so it stays out of the main bundle.
+
+const entry = (meaning: string, phonetic: string, example: string): WordMeaning => ({ meaning, phonetic, example });
+
+export const STARTER_DICTIONARY: Record<string, WordMeaning> = {
+    // Family and people
+    family: entry('gia đình', '/ˈfæm.əl.i/', 'I love my family.'),
+    mother: entry('mẹ', '/ˈmʌð.ər/', 'My mother is a teacher.'),
+    father: entry('bố', '/ˈfɑː.ðər/', 'My father likes football.'),
+    mum: entry('mẹ', '/mʌm/', 'Mum is in the kitchen.'),
+    dad: entry('bố', '/dæd/', 'Dad reads me a story.'),
+    brother: entry('anh/em trai', '/ˈbrʌð.ər/', 'My brother is ten.'),
+    sister: entry('chị/em gái', '/ˈsɪs.tər/', 'My sister can swim.'),
+    grandmother: entry('bà', '/ˈɡræn.mʌð.ər/', 'My grandmother makes cakes.'),
+    grandfather: entry('ông', '/ˈɡræn.fɑː.ðər/', 'My grandfather has a garden.'),
+    baby: entry('em bé', '/ˈbeɪ.bi/', 'The baby is sleeping.'),
+    boy: entry('cậu bé', '/bɔɪ/', 'The boy has a ball.'),
+    girl: entry('cô bé', '/ɡɜːl/', 'The girl is happy.'),
+    friend: entry('bạn', '/frend/', 'She is my best friend.'),
+    friends: entry('bạn bè', '/frendz/', 'I play with my friends.'),
+    teacher: entry('giáo viên', '/ˈtiː.tʃər/', 'Our teacher is kind.'),
+    children: entry('trẻ em', '/ˈtʃɪl.drən/', 'The children are in the park.'),
+    people: entry('mọi người', '/ˈpiː.pəl/', 'Many people live in the city.'),
+
+    // Animals
+    animal: entry('con vật', '/ˈæn.ɪ.məl/', 'What is your favourite animal?'),
+    cat: entry('con mèo', '/kæt/', 'The cat is on the bed.'),
+    dog: entry('con chó', '/dɒɡ/', 'My dog is brown.'),
+    bird: entry('con chim', '/bɜːd/', 'A bird is singing.'),
+    fish: entry('con cá', '/fɪʃ/', 'The fish can swim.'),
+    horse: entry('con ngựa', '/hɔːs/', 'The horse is very fast.'),
+    cow: entry('con bò', '/kaʊ/', 'The cow gives us milk.'),
+    duck: entry('con vịt', '/dʌk/', 'The duck is in the water.'),
+    chicken: entry('con gà', '/ˈtʃɪk.ɪn/', 'The chicken is eating.'),
+    elephant: entry('con voi', '/ˈel.ɪ.fənt/', 'The elephant is big.'),
+    monkey: entry('con khỉ', '/ˈmʌŋ.ki/', 'The monkey likes bananas.'),
+    tiger: entry('con hổ', '/ˈtaɪ.ɡər/', 'The tiger is orange and black.'),
+    lion: entry('con sư tử', '/ˈlaɪ.ən/', 'The lion is sleeping.'),
+    rabbit: entry('con thỏ', '/ˈræb.ɪt/', 'The rabbit eats carrots.'),
+    mouse: entry('con chuột', '/maʊs/', 'The mouse is small.'),
+    frog: entry('con ếch', '/frɒɡ/', 'The frog can jump.'),
+    bear: entry('con gấu', '/beər/', 'The bear is brown.'),
+
+    // Body
+    head: entry('cái đầu', '/hed/', 'Touch your head.'),
+    face: entry('khuôn mặt', '/feɪs/', 'Wash your face.'),
+    eyes: entry('đôi mắt', '/aɪz/', 'She has blue eyes.'),
+    ears: entry('đôi tai', '/ɪəz/', 'The rabbit has long ears.'),
+    nose: entry('cái mũi', '/nəʊz/', 'The clown has a red nose.'),
+    mouth: entry('cái miệng', '/maʊθ/', 'Open your mouth.'),
+    hair: entry('tóc', '/heər/', 'My hair is black.'),
+    hand: entry('bàn tay', '/hænd/', 'Raise your hand.'),
+    arm: entry('cánh tay', '/ɑːm/', 'My arm is strong.'),
+    leg: entry('cái chân', '/leɡ/', 'The table has four legs.'),
+    foot: entry('bàn chân', '/fʊt/', 'I kick the ball with my foot.'),
+
+    // Colours and numbers
+    colour: entry('màu sắc', '/ˈkʌl.ər/', 'What colour is it?'),
+    red: entry('màu đỏ', '/red/', 'The apple is red.'),
+    blue: entry('màu xanh dương', '/bluː/', 'The sky is blue.'),
+    green: entry('màu xanh lá', '/ɡriːn/', 'The grass is green.'),
+    yellow: entry('màu vàng', '/ˈjel.əʊ/', 'The sun is yellow.'),
+    orange: entry('màu cam, quả cam', '/ˈɒr.ɪndʒ/', 'I have an orange.'),
+    pink: entry('màu hồng', '/pɪŋk/', 'Her dress is pink.'),
+    purple: entry('màu tím', '/ˈpɜː.pəl/', 'I like purple flowers.'),
+    black: entry('màu đen', '/blæk/', 'The cat is black.'),
+    white: entry('màu trắng', '/waɪt/', 'Snow is white.'),
+    brown: entry('màu nâu', '/braʊn/', 'The bear is brown.'),
+    one: entry('số một', '/wʌn/', 'I have one brother.'),
+    two: entry('số hai', '/tuː/', 'I have two eyes.'),
+    three: entry('số ba', '/θriː/', 'There are three birds.'),
+    four: entry('số bốn', '/fɔːr/', 'A dog has four legs.'),
+    five: entry('số năm', '/faɪv/', 'I am five years old.'),
+    ten: entry('số mười', '/ten/', 'I can count to ten.'),
+
+    // School
+    school: entry('trường học', '/skuːl/', 'My school is big.'),
+    class: entry('lớp học', '/klɑːs/', 'There are twenty children in my class.'),
+    classroom: entry('phòng học', '/ˈklɑːs.ruːm/', 'Our classroom is clean.'),
+    book: entry('quyển sách', '/bʊk/', 'Open your book.'),
+    pen: entry('cây bút mực', '/pen/', 'I write with a pen.'),
+    pencil: entry('bút chì', '/ˈpen.səl/', 'Can I have a pencil?'),
+    ruler: entry('thước kẻ', '/ˈruː.lər/', 'My ruler is long.'),
+    bag: entry('cái cặp', '/bæɡ/', 'My bag is heavy.'),
+    desk: entry('bàn học', '/desk/', 'The book is on the desk.'),
+    lesson: entry('bài học', '/ˈles.ən/', 'The English lesson is fun.'),
+    homework: entry('bài tập về nhà', '/ˈhəʊm.wɜːk/', 'I do my homework after dinner.'),
+    english: entry('tiếng Anh', '/ˈɪŋ.ɡlɪʃ/', 'I can speak English.'),
+
+    // Home
+    house: entry('ngôi nhà', '/haʊs/', 'This is my house.'),
+    home: entry('nhà', '/həʊm/', 'I go home at five.'),
+    room: entry('căn phòng', '/ruːm/', 'My room is small.'),
+    bedroom: entry('phòng ngủ', '/ˈbed.ruːm/', 'My bedroom is blue.'),
+    kitchen: entry('nhà bếp', '/ˈkɪtʃ.ən/', 'Mum cooks in the kitchen.'),
+    garden: entry('khu vườn', '/ˈɡɑː.dən/', 'There are flowers in the garden.'),
+    bed: entry('cái giường', '/bed/', 'I go to bed at nine.'),
+    table: entry('cái bàn', '/ˈteɪ.bəl/', 'The cake is on the table.'),
+    chair: entry('cái ghế', '/tʃeər/', 'Sit on the chair.'),
+    door: entry('cánh cửa', '/dɔːr/', 'Close the door, please.'),
+    window: entry('cửa sổ', '/ˈwɪn.dəʊ/', 'Look out of the window.'),
+
+    // Food and drink
+    food: entry('thức ăn', '/fuːd/', 'I like Vietnamese food.'),
+    apple: entry('quả táo', '/ˈæp.əl/', 'I eat an apple every day.'),
+    banana: entry('quả chuối', '/bəˈnɑː.nə/', 'Monkeys love bananas.'),
+    bread: entry('bánh mì', '/bred/', 'I have bread for breakfast.'),
+    rice: entry('cơm, gạo', '/raɪs/', 'We eat rice every day.'),
+    milk: entry('sữa', '/mɪlk/', 'I drink milk in the morning.'),
+    water: entry('nước', '/ˈwɔː.tər/', 'Can I have some water?'),
+    juice: entry('nước ép', '/dʒuːs/', 'I like orange juice.'),
+    cake: entry('bánh ngọt', '/keɪk/', 'This cake is yummy.'),
+    egg: entry('quả trứng', '/eɡ/', 'I have an egg for breakfast.'),
+    breakfast: entry('bữa sáng', '/ˈbrek.fəst/', 'I have breakfast at seven.'),
+    lunch: entry('bữa trưa', '/lʌntʃ/', 'We have lunch at school.'),
+    dinner: entry('bữa tối', '/ˈdɪn.ər/', 'We have dinner together.'),
+
+    // Clothes
+    clothes: entry('quần áo', '/kləʊðz/', 'Put on your clothes.'),
+    shirt: entry('áo sơ mi', '/ʃɜːt/', 'He has a white shirt.'),
+    dress: entry('váy liền', '/dres/', 'She has a pretty dress.'),
+    shoes: entry('đôi giày', '/ʃuːz/', 'My shoes are new.'),
+    hat: entry('cái mũ', '/hæt/', 'Wear a hat in the sun.'),
+    jacket: entry('áo khoác', '/ˈdʒæk.ɪt/', 'It is cold, wear your jacket.'),
+
+    // Places and nature
+    park: entry('công viên', '/pɑːk/', 'We play in the park.'),
+    beach: entry('bãi biển', '/biːtʃ/', 'We go to the beach in summer.'),
+    sea: entry('biển', '/siː/', 'The sea is blue.'),
+    city: entry('thành phố', '/ˈsɪt.i/', 'Hanoi is a big city.'),
+    street: entry('con phố', '/striːt/', 'My house is on this street.'),
+    shop: entry('cửa hàng', '/ʃɒp/', 'Let\'s go to the shop.'),
+    zoo: entry('sở thú', '/zuː/', 'We saw a lion at the zoo.'),
+    tree: entry('cái cây', '/triː/', 'The bird is in the tree.'),
+    flower: entry('bông hoa', '/ˈflaʊ.ər/', 'This flower is beautiful.'),
+    sun: entry('mặt trời', '/sʌn/', 'The sun is hot.'),
+    sky: entry('bầu trời', '/skaɪ/', 'The sky is blue today.'),
+    rain: entry('mưa', '/reɪn/', 'I don\'t like the rain.'),
+    weather: entry('thời tiết', '/ˈweð.ər/', 'The weather is nice today.'),
+
+    // Toys, sport and free time
+    toy: entry('đồ chơi', '/tɔɪ/', 'This is my favourite toy.'),
+    ball: entry('quả bóng', '/bɔːl/', 'Throw the ball to me.'),
+    doll: entry('búp bê', '/dɒl/', 'My doll has long hair.'),
+    kite: entry('con diều', '/kaɪt/', 'My kite is in the sky.'),
+    bike: entry('xe đạp', '/baɪk/', 'I ride my bike to school.'),
+    car: entry('ô tô', '/kɑːr/', 'Dad has a red car.'),
+    bus: entry('xe buýt', '/bʌs/', 'I go to school by bus.'),
+    game: entry('trò chơi', '/ɡeɪm/', 'Let\'s play a game.'),
+    football: entry('bóng đá', '/ˈfʊt.bɔːl/', 'I play football on Sundays.'),
+    music: entry('âm nhạc', '/ˈmjuː.zɪk/', 'I like listening to music.'),
+    picture: entry('bức tranh', '/ˈpɪk.tʃər/', 'Look at the picture.'),
+    story: entry('câu chuyện', '/ˈstɔː.ri/', 'Tell me a story.'),
+    birthday: entry('sinh nhật', '/ˈbɜːθ.deɪ/', 'Happy birthday!'),
+    holiday: entry('kỳ nghỉ', '/ˈhɒl.ə.deɪ/', 'We go to the beach on holiday.'),
+
+    // Time
+    day: entry('ngày', '/deɪ/', 'Have a nice day!'),
+    morning: entry('buổi sáng', '/ˈmɔː.nɪŋ/', 'Good morning, teacher!'),
+    afternoon: entry('buổi chiều', '/ˌɑːf.təˈnuːn/', 'I play in the afternoon.'),
+    evening: entry('buổi tối', '/ˈiːv.nɪŋ/', 'I read in the evening.'),
+    today: entry('hôm nay', '/təˈdeɪ/', 'Today is Monday.'),
+    week: entry('tuần', '/wiːk/', 'I swim twice a week.'),
+    year: entry('năm', '/jɪər/', 'I am eight years old.'),
+    summer: entry('mùa hè', '/ˈsʌm.ər/', 'It is hot in summer.'),
+    winter: entry('mùa đông', '/ˈwɪn.tər/', 'It is cold in winter.'),
+
+    // Verbs
+    like: entry('thích', '/laɪk/', 'I like apples.'),
+    love: entry('yêu', '/lʌv/', 'I love my dog.'),
+    have: entry('có', '/hæv/', 'I have a new bike.'),
+    play: entry('chơi', '/pleɪ/', 'Let\'s play together.'),
+    go: entry('đi', '/ɡəʊ/', 'I go to school every day.'),
+    come: entry('đến', '/kʌm/', 'Come here, please.'),
+    eat: entry('ăn', '/iːt/', 'I eat rice for lunch.'),
+    drink: entry('uống', '/drɪŋk/', 'Drink some water.'),
+    read: entry('đọc', '/riːd/', 'I read a book every night.'),
+    write: entry('viết', '/raɪt/', 'Write your name here.'),
+    draw: entry('vẽ', '/drɔː/', 'I can draw a cat.'),
+    sing: entry('hát', '/sɪŋ/', 'We sing a song.'),
+    dance: entry('nhảy múa', '/dɑːns/', 'She likes to dance.'),
+    swim: entry('bơi', '/swɪm/', 'I can swim.'),
+    run: entry('chạy', '/rʌn/', 'The dog can run fast.'),
+    jump: entry('nhảy', '/dʒʌmp/', 'The frog can jump.'),
+    walk: entry('đi bộ', '/wɔːk/', 'I walk to school.'),
+    look: entry('nhìn', '/lʊk/', 'Look at the board.'),
+    listen: entry('nghe', '/ˈlɪs.ən/', 'Listen to the teacher.'),
+    speak: entry('nói', '/spiːk/', 'I speak Vietnamese and English.'),
+    help: entry('giúp đỡ', '/help/', 'Can you help me?'),
+    want: entry('muốn', '/wɒnt/', 'I want an ice cream.'),
+    live: entry('sống', '/lɪv/', 'I live in Hanoi.'),
+    visit: entry('thăm', '/ˈvɪz.ɪt/', 'We visit our grandparents.'),
+    cook: entry('nấu ăn', '/kʊk/', 'My dad can cook.'),
+    sleep: entry('ngủ', '/sliːp/', 'The baby is sleeping.'),
+
+    // Adjectives
+    big: entry('to', '/bɪɡ/', 'The elephant is big.'),
+    small: entry('nhỏ', '/smɔːl/', 'The mouse is small.'),
+    happy: entry('vui vẻ', '/ˈhæp.i/', 'I am happy today.'),
+    sad: entry('buồn', '/sæd/', 'Why are you sad?'),
+    good: entry('tốt, giỏi', '/ɡʊd/', 'You are a good student.'),
+    nice: entry('đẹp, dễ chịu', '/naɪs/', 'What a nice day!'),
+    beautiful: entry('xinh đẹp', '/ˈbjuː.tɪ.fəl/', 'The garden is beautiful.'),
+    new: entry('mới', '/njuː/', 'I have a new bag.'),
+    old: entry('cũ, già', '/əʊld/', 'This book is old.'),
+    long: entry('dài', '/lɒŋ/', 'She has long hair.'),
+    short: entry('ngắn, thấp', '/ʃɔːt/', 'My brother is short.'),
+    hot: entry('nóng', '/hɒt/', 'The soup is hot.'),
+    cold: entry('lạnh', '/kəʊld/', 'The water is cold.'),
+    funny: entry('buồn cười', '/ˈfʌn.i/', 'The clown is funny.'),
+    favourite: entry('yêu thích nhất', '/ˈfeɪ.vər.ɪt/', 'Blue is my favourite colour.'),
+    delicious: entry('ngon', '/dɪˈlɪʃ.əs/', 'The cake is delicious.'),
+    kind: entry('tốt bụng', '/kaɪnd/', 'My teacher is very kind.'),
+    tired: entry('mệt', '/taɪəd/', 'I am tired after school.'),
+
+    // Greetings and small words
+    hello: entry('xin chào', '/həˈləʊ/', 'Hello, my name is Leo.'),
+    goodbye: entry('tạm biệt', '/ɡʊdˈbaɪ/', 'Goodbye, see you tomorrow!'),
+    please: entry('làm ơn', '/pliːz/', 'Sit down, please.'),
+    thank: entry('cảm ơn', '/θæŋk/', 'Thank you very much.'),
+    name: entry('tên', '/neɪm/', 'My name is Mai.'),
+    because: entry('bởi vì', '/bɪˈkɒz/', 'I am happy because it is my birthday.'),
+    every: entry('mỗi', '/ˈev.ri/', 'I read every day.'),
+    together: entry('cùng nhau', '/təˈɡeð.ər/', 'We play together.'),
+    very: entry('rất', '/ˈver.i/', 'It is very hot today.')
+};
@@ -0,0 +1,212 @@
+import { getAIProvider, LiveTranscriptionSession } from './aiProvider';
+import { encode } from './audioUtils';
+
+// Speech-to-text with fallbacks. Streaming engines transcribe while the child
+// speaks; if none works, the finished recording goes through a recording engine.
+
+export interface TranscriptionEngine {
+    id: string;
+    label: string; // Shown next to the transcript
+}
+
+export interface StreamingOptions {
+    onText: (text: string) => void;
+    onError?: (err: unknown) => void;
+    expectedText?: string;
+}
+
+export interface StreamingEngine extends TranscriptionEngine {
+    isAvailable: () => boolean;
+    start: (options: StreamingOptions) => Promise<LiveTranscriptionSession>;
+}
+
+// A local engine (e.g. a whisper WASM build) can be added with registerRecordingEngine
+export interface RecordingEngine extends TranscriptionEngine {
+    isAvailable: () => boolean;
+    transcribe: (recording: Blob, expectedText?: string) => Promise<string>;
+}
+
+export interface TranscriptionHandle extends LiveTranscriptionSession {
+    engine: TranscriptionEngine | null; // null when no streaming engine could start
+}
+
+const SERVER_URL_KEY = 'speakpro_transcription_url';
+
+/**
+ * URL of a local whisper-style HTTP server (e.g. whisper.cpp `/inference`), if configured
+ */
+export function getTranscriptionServerUrl(): string {
+    return localStorage.getItem(SERVER_URL_KEY) || '';
+}
+
+/**
+ * Set (or clear with '') the local transcription server URL
+ */
+export function setTranscriptionServerUrl(url: string): void {
+    if (url.trim()) localStorage.setItem(SERVER_URL_KEY, url.trim());
+    else localStorage.removeItem(SERVER_URL_KEY);
+}
+
+const getSpeechRecognition = (): any =>
+    (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
+
+const providerLiveEngine: StreamingEngine = {
+    id: 'provider-live',
+    get label() { return `${getAIProvider().label} Live`; },
+    isAvailable: () => true,
+    start: (options) => getAIProvider().openLiveTranscription(options)
+};
+
+const webSpeechEngine: StreamingEngine = {
+    id: 'web-speech',
+    label: 'Nhận dạng của trình duyệt',
+    isAvailable: () => !!getSpeechRecognition(),
+    start: async (options) => {
+        const SpeechRecognition = getSpeechRecognition();
+        const recognition = new SpeechRecognition();
+        recognition.lang = 'en-US';
+        recognition.continuous = true;
+        recognition.interimResults = false;
+
+        let closed = false;
+        recognition.onresult = (event: any) => {
+            for (let i = event.resultIndex; i < event.results.length; i++) {
+                if (event.results[i].isFinal) options.onText(event.results[i][0].transcript.trim() + ' ');
+            }
+        };
+        recognition.onerror = (event: any) => {
+            // 'no-speech' just means a pause; recognition restarts on end
+            if (event.error !== 'no-speech' && event.error !== 'aborted') options.onError?.(event.error);
+        };
+        // Browsers stop after a silence, so keep listening until closed
+        recognition.onend = () => {
+            if (!closed) recognition.start();
+        };
+        recognition.start();
+
+        return {
+            sendAudio: () => { }, // Listens to the microphone itself
+            close: () => {
+                closed = true;
+                recognition.stop();
+            }
+        };
+    }
+};
+
+const serverEngine: RecordingEngine = {
+    id: 'http-server',
+    label: 'Máy chủ nhận dạng nội bộ',
+    isAvailable: () => !!getTranscriptionServerUrl(),
+    transcribe: async (recording) => {
+        const form = new FormData();
+        form.append('file', recording, 'recording');
+        form.append('response_format', 'json');
+        form.append('language', 'en');
+        const response = await fetch(getTranscriptionServerUrl(), { method: 'POST', body: form });
+        if (!response.ok) throw new Error(`Transcription server error ${response.status}`);
+        const data = await response.json();
+        return (data.text || '').trim();
+    }
+};
+
+const providerRecordingEngine: RecordingEngine = {
+    id: 'provider-recording',
+    get label() { return `${getAIProvider().label} (bản thu)`; },
+    isAvailable: () => true,
+    transcribe: async (recording, expectedText) => {
+        const audio = encode(new Uint8Array(await recording.arrayBuffer()));
+        return getAIProvider().transcribeRecording(audio, recording.type.split(';')[0] || 'audio/webm', expectedText);
+    }
+};
+
+const STREAMING_ENGINES: StreamingEngine[] = [providerLiveEngine, webSpeechEngine];
+// Local engines first so recordings stay on the device when possible
+const localRecordingEngines: RecordingEngine[] = [];
+
+/**
+ * Add a recording engine (e.g. a whisper WASM build). It is tried before remote engines.
+ */
+export function registerRecordingEngine(engine: RecordingEngine): void {
+    const existing = localRecordingEngines.findIndex(e => e.id === engine.id);
+    if (existing >= 0) localRecordingEngines[existing] = engine;
+    else localRecordingEngines.push(engine);
+}
+
+/**
+ * Start live transcription on the first streaming engine that works. If the
+ * engine fails mid-session, the next one takes over.
+ */
+export async function startTranscription(
+    options: StreamingOptions & { onEngineChange?: (engine: TranscriptionEngine | null) => void }
+): Promise<TranscriptionHandle> {
+    let session: LiveTranscriptionSession | null = null;
+    let closed = false;
+
+    const handle: TranscriptionHandle = {
+        engine: null,
+        sendAudio: (pcm) => session?.sendAudio(pcm),
+        close: () => {
+            closed = true;
+            session?.close();
+            session = null;
+        }
+    };
+
+    const startFrom = async (index: number): Promise<void> => {
+        for (let i = index; i < STREAMING_ENGINES.length && !closed; i++) {
+            const engine = STREAMING_ENGINES[i];
+            if (!engine.isAvailable()) continue;
+            // Errors only count for the session in use, not one closed while starting
+            let started: LiveTranscriptionSession | null = null;
+            try {
+                started = await engine.start({
+                    ...options,
+                    onError: (err) => {
+                        if (!started || session !== started) return;
+                        console.warn(`[Transcription] ${engine.id} failed, trying next engine:`, err);
+                        session.close();
+                        session = null;
+                        startFrom(i + 1);
+                    }
+                });
+                // Closed while the engine was starting
+                if (closed) {
+                    started.close();
+                    return;
+                }
+                session = started;
+                handle.engine = engine;
+                options.onEngineChange?.(engine);
+                return;
+            } catch (err) {
+                console.warn(`[Transcription] ${engine.id} could not start:`, err);
+            }
+        }
+        handle.engine = null;
+        options.onEngineChange?.(null);
+    };
+
+    await startFrom(0);
+    return handle;
+}
+
+/**
+ * Transcribe a finished recording with the first engine that returns text
+ */
+export async function transcribeRecording(
+    recording: Blob,
+    expectedText?: string
+): Promise<{ text: string; engine: TranscriptionEngine } | null> {
+    const engines = [...localRecordingEngines, serverEngine, providerRecordingEngine];
+    for (const engine of engines) {
+        if (!engine.isAvailable()) continue;
+        try {
+            const text = await engine.transcribe(recording, expectedText);
+            if (text.trim()) return { text, engine };
+        } catch (err) {
+            console.warn(`[Transcription] ${engine.id} failed:`, err);
+        }
+    }
+    return null;
+}
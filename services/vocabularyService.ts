@@ -0,0 +1,169 @@
+import { STORES, requestToPromise, withStore } from './db';
+import { WordMeaning } from './aiProvider';
+
+// "My Words" notebook: words the child looked up or got wrong, saved per
+// learner and scheduled for review with the SM-2 spaced-repetition algorithm.
+
+export type NotebookWordSource = 'lookup' | 'mistake';
+
+export interface NotebookWord {
+    id: string; // `${profileId}|${word}`
+    profileId: string;
+    word: string; // Lower case, no punctuation
+    meaning?: WordMeaning; // Missing until first looked up (mistake words are saved without one)
+    source: NotebookWordSource;
+    addedAt: string; // ISO string
+    due: string; // ISO string, next review
+    interval: number; // Days until the next review
+    repetitions: number; // Successful reviews in a row
+    easeFactor: number;
+    lapses: number; // Times the word was forgotten
+    lastReviewed?: string; // ISO string
+}
+
+// SM-2 answer quality: below 3 means the word was forgotten
+export type ReviewQuality = 0 | 1 | 2 | 3 | 4 | 5;
+
+export const REVIEW_GRADES: { quality: ReviewQuality; label: string }[] = [
+    { quality: 1, label: 'Quên rồi' },
+    { quality: 3, label: 'Khó' },
+    { quality: 4, label: 'Nhớ' },
+    { quality: 5, label: 'Dễ' }
+];
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+// After this many correct reviews in a row a word counts as learnt
+const MASTERED_REPETITIONS = 4;
+
+export const cleanNotebookWord = (word: string) => word.toLowerCase().replace(/[.,!?;:'"()]/g, '').trim();
+
+/**
+ * Next SM-2 schedule for a word after a review of the given quality
+ */
+export function scheduleReview(word: NotebookWord, quality: ReviewQuality, now: Date = new Date()): NotebookWord {
+    let { interval, repetitions, easeFactor, lapses } = word;
+
+    if (quality < 3) {
+        repetitions = 0;
+        interval = 1;
+        lapses++;
+    } else {
+        interval = repetitions === 0 ? 1 : repetitions === 1 ? 6 : Math.round(interval * easeFactor);
+        repetitions++;
+    }
+    easeFactor = Math.max(MIN_EASE, easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)));
+
+    return {
+        ...word,
+        interval,
+        repetitions,
+        easeFactor: Math.round(easeFactor * 100) / 100,
+        lapses,
+        lastReviewed: now.toISOString(),
+        due: new Date(now.getTime() + interval * DAY_MS).toISOString()
+    };
+}
+
+/**
+ * Whether the child has reviewed a word correctly enough times to count it as learnt
+ */
+export function isWordMastered(word: NotebookWord): boolean {
+    return word.repetitions >= MASTERED_REPETITIONS;
+}
+
+/**
+ * All words in a learner's notebook, newest first
+ */
+export async function getNotebookWords(profileId: string): Promise<NotebookWord[]> {
+    const words = await withStore(STORES.words, 'readonly', (tx) =>
+        requestToPromise(tx.objectStore(STORES.words).index('profileId').getAll(profileId) as IDBRequest<NotebookWord[]>)
+    );
+    return words.sort((a, b) => b.addedAt.localeCompare(a.addedAt));
+}
+
+/**
+ * Words due for review now, most overdue first
+ */
+export async function getDueWords(profileId: string, now: Date = new Date()): Promise<NotebookWord[]> {
+    const words = await getNotebookWords(profileId);
+    return words
+        .filter(w => new Date(w.due).getTime() <= now.getTime())
+        .sort((a, b) => a.due.localeCompare(b.due));
+}
+
+/**
+ * Save words to a learner's notebook. Words already there keep their
+ * schedule; a new mistake on a known word makes it due again.
+ */
+export async function addWordsToNotebook(
+    profileId: string,
+    entries: { word: string; meaning?: WordMeaning }[],
+    source: NotebookWordSource
+): Promise<void> {
+    const now = new Date().toISOString();
+    await withStore(STORES.words, 'readwrite', async (tx) => {
+        const store = tx.objectStore(STORES.words);
+        for (const entry of entries) {
+            const word = cleanNotebookWord(entry.word);
+            if (word.length < 2 || word.includes(' ')) continue;
+
+            const id = `${profileId}|${word}`;
+            const existing = await requestToPromise(store.get(id) as IDBRequest<NotebookWord | undefined>);
+            if (existing) {
+                store.put({
+                    ...existing,
+                    meaning: entry.meaning || existing.meaning,
+                    due: source === 'mistake' && existing.due > now ? now : existing.due
+                });
+            } else {
+                const added: NotebookWord = {
+                    id,
+                    profileId,
+                    word,
+                    meaning: entry.meaning,
+                    source,
+                    addedAt: now,
+                    due: now,
+                    interval: 0,
+                    repetitions: 0,
+                    easeFactor: INITIAL_EASE,
+                    lapses: 0
+                };
+                store.put(added);
+            }
+        }
+    });
+}
+
+/**
+ * Record a flashcard review and return the rescheduled word
+ */
+export async function reviewNotebookWord(word: NotebookWord, quality: ReviewQuality): Promise<NotebookWord> {
+    const updated = scheduleReview(word, quality);
+    await withStore(STORES.words, 'readwrite', (tx) => {
+        tx.objectStore(STORES.words).put(updated);
+    });
+    return updated;
+}
+
+/**
+ * Store a meaning fetched for a word that was saved without one
+ */
+export async function setNotebookWordMeaning(word: NotebookWord, meaning: WordMeaning): Promise<NotebookWord> {
+    const updated = { ...word, meaning };
+    await withStore(STORES.words, 'readwrite', (tx) => {
+        tx.objectStore(STORES.words).put(updated);
+    });
+    return updated;
+}
+
+/**
+ * Remove a word from the notebook
+ */
+export async function removeNotebookWord(id: string): Promise<void> {
+    await withStore(STORES.words, 'readwrite', (tx) => {
+        tx.objectStore(STORES.words).delete(id);
+    });
+}
@@ -0,0 +1,79 @@
+// Teacher voice settings: which prebuilt TTS voice reads, in which accent and
+// at what speed. Saved per learner in the profile preferences; the active
+// learner's settings are applied to every TTS call and the Web Speech fallback.
+
+export type VoiceAccent = 'us' | 'uk';
+
+export interface VoiceSettings {
+    voice: string; // Prebuilt TTS voice name
+    accent: VoiceAccent;
+    rate: number; // 0.5 - 1.5
+}
+
+export interface VoiceOption {
+    id: string;
+    label: string; // Vietnamese
+    gender: 'female' | 'male';
+}
+
+export const TEACHER_VOICES: VoiceOption[] = [
+    { id: 'Kore', label: 'Cô Kore (rõ ràng)', gender: 'female' },
+    { id: 'Aoede', label: 'Cô Aoede (nhẹ nhàng)', gender: 'female' },
+    { id: 'Leda', label: 'Cô Leda (trẻ trung)', gender: 'female' },
+    { id: 'Puck', label: 'Thầy Puck (vui vẻ)', gender: 'male' },
+    { id: 'Charon', label: 'Thầy Charon (trầm ấm)', gender: 'male' },
+    { id: 'Fenrir', label: 'Thầy Fenrir (hào hứng)', gender: 'male' }
+];
+
+export const VOICE_ACCENTS: Record<VoiceAccent, { label: string; lang: string; name: string }> = {
+    us: { label: 'Giọng Mỹ', lang: 'en-US', name: 'an American English' },
+    uk: { label: 'Giọng Anh', lang: 'en-GB', name: 'a British English' }
+};
+
+export const DEFAULT_VOICE = 'Kore';
+export const VOICE_PREVIEW_TEXT = 'Hello! I am your English teacher. Let\'s read together.';
+
+let activeSettings: VoiceSettings = { voice: DEFAULT_VOICE, accent: 'us', rate: 0.8 };
+
+/**
+ * Voice settings of the active learner
+ */
+export function getVoiceSettings(): VoiceSettings {
+    return activeSettings;
+}
+
+/**
+ * Apply a learner's voice settings to all later speech
+ */
+export function setVoiceSettings(settings: VoiceSettings): void {
+    activeSettings = {
+        voice: TEACHER_VOICES.some(v => v.id === settings.voice) ? settings.voice : DEFAULT_VOICE,
+        accent: settings.accent in VOICE_ACCENTS ? settings.accent : 'us',
+        rate: settings.rate
+    };
+}
+
+/**
+ * Style line put before the text in a TTS prompt. Gemini voices follow the
+ * spoken instruction for pace and accent; the audio itself is never sped up,
+ * so word timings for the karaoke highlight stay right.
+ */
+export function getTtsInstruction(kind: 'script' | 'word', settings: VoiceSettings): string {
+    const accent = `in ${VOICE_ACCENTS[settings.accent].name} accent`;
+    if (kind === 'word') {
+        return `Pronounce ${settings.rate < 0.95 ? 'slowly and ' : ''}clearly ${accent}`;
+    }
+    const pace = settings.rate <= 0.7 ? 'Read very slowly and clearly'
+        : settings.rate < 0.95 ? 'Read slowly and clearly'
+            : settings.rate <= 1.15 ? 'Read clearly at a natural pace'
+                : 'Read clearly at a lively, brisk pace';
+    return `${pace} ${accent}`;
+}
+
+/**
+ * Browser voice for the accent, when the device has one
+ */
+export function getWebSpeechVoice(accent: VoiceAccent): SpeechSynthesisVoice | undefined {
+    const lang = VOICE_ACCENTS[accent].lang;
+    return window.speechSynthesis.getVoices().find(v => v.lang.replace('_', '-') === lang);
+}
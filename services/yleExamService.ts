@@ -0,0 +1,90 @@
+import { YleExamReport, YleLevel, YlePart } from '../types';
+import { YleExamDraft } from './aiProvider';
+
+// Mock Cambridge Young Learners speaking exam: four timed parts marked with
+// 1-5 shields each, like the official statement of results.
+
+export interface YleExam extends YleExamDraft {
+    theme: string;
+    level: YleLevel;
+    sceneImage: string;
+    storyImage: string;
+}
+
+export const YLE_PART_ORDER: YlePart[] = ['pointing', 'differences', 'story', 'personal'];
+
+export const YLE_PARTS: Record<YlePart, { title: string; instruction: string }> = {
+    pointing: { title: 'Nhìn tranh và trả lời', instruction: 'Con nhìn tranh, nghe cô hỏi rồi trả lời từng câu nhé.' },
+    differences: { title: 'Tìm điểm khác nhau', instruction: 'Tranh của cô khác tranh của con. Cô nói về tranh của cô, con hãy nói tranh của con khác thế nào.' },
+    story: { title: 'Kể chuyện theo tranh', instruction: 'Con nhìn bốn bức tranh và kể lại câu chuyện theo thứ tự nhé.' },
+    personal: { title: 'Câu hỏi về con', instruction: 'Cô sẽ hỏi con vài câu về bản thân, con trả lời thật tự nhiên nhé.' }
+};
+
+// Seconds the child has to answer each part
+const PART_TIME_LIMITS: Record<YleLevel, Record<YlePart, number>> = {
+    Starters: { pointing: 60, differences: 60, story: 60, personal: 45 },
+    Movers: { pointing: 60, differences: 75, story: 90, personal: 60 },
+    Flyers: { pointing: 75, differences: 90, story: 120, personal: 75 }
+};
+
+/**
+ * How long the child may speak in a part, in seconds
+ */
+export function getPartTimeLimit(level: YleLevel, part: YlePart): number {
+    return PART_TIME_LIMITS[level][part];
+}
+
+/**
+ * What the examiner says to start a part
+ */
+export function getPartPrompt(exam: YleExam, part: YlePart): string {
+    switch (part) {
+        case 'pointing':
+            return `Look at the picture. ${exam.pointingQuestions.join(' ')}`;
+        case 'differences':
+            return `My picture is different from your picture. ${exam.differences.join(' ')}`;
+        case 'story':
+            return `These pictures tell a story. It's called "${exam.storyTitle}". Look at the pictures first. Now you tell the story.`;
+        case 'personal':
+            return `Now let's talk about you. ${exam.personalQuestions.join(' ')}`;
+    }
+}
+
+/**
+ * Round a mark to whole shields between 1 and 5
+ */
+export function toShields(value: number): number {
+    return Math.max(1, Math.min(5, Math.round(value || 0)));
+}
+
+/**
+ * Overall shields: the average of the parts, rounded
+ */
+export function getOverallShields(parts: { shields: number }[]): number {
+    if (parts.length === 0) return 1;
+    return toShields(parts.reduce((sum, p) => sum + p.shields, 0) / parts.length);
+}
+
+/**
+ * Plain-text exam report to download or share
+ */
+export function formatExamReport(report: YleExamReport, childName: string): string {
+    const shields = (count: number) => '🛡️'.repeat(count) + '▫️'.repeat(5 - count);
+    const lines = [
+        `🎓 Cambridge ${report.level} - Thi thử kỹ năng Nói`,
+        `👶 Học sinh: ${childName}`,
+        `📖 Chủ đề: ${report.theme}`,
+        `📅 Ngày: ${new Date().toLocaleDateString('vi-VN')}`,
+        '',
+        `Kết quả chung: ${shields(report.shields)} (${report.shields}/5)`,
+        ''
+    ];
+    report.parts.forEach((part, i) => {
+        lines.push(`Phần ${i + 1} - ${YLE_PARTS[part.part].title}: ${shields(part.shields)} (${part.shields}/5, ${part.durationSeconds} giây)`);
+        lines.push(`   ${part.comment}`);
+        lines.push(`   Con đã nói: "${part.transcript.trim()}"`);
+    });
+    lines.push('', `💬 ${report.teacherPraise}`, '', 'Gợi ý:');
+    report.suggestions.forEach(suggestion => lines.push(`- ${suggestion}`));
+    return lines.join('\n');
+}
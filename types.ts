@@ -8,6 +8,15 @@ export interface Theme {
   description: string;
 }
 
+// 'reading': read the generated script aloud; 'picture': describe the illustration freely
+export type TaskType = 'reading' | 'picture';
+
+// Words and grammar a curriculum unit wants the script to practise
+export interface LessonFocus {
+  vocabulary: string[];
+  grammar: string;
+}
+
 export interface PresentationData {
   imageUri: string;
   script: string;
@@ -15,6 +24,78 @@ export interface PresentationData {
   intro: string;
   conclusion: string;
   level: CEFRLevel;
+  theme?: string;
+  taskType?: TaskType; // Missing on lessons saved before picture description existed (= reading)
+  focus?: LessonFocus;
+  unitLesson?: { unitId: string; themeId: string }; // Set when the lesson is a step of a curriculum unit
+}
+
+export interface SkillScores {
+  pronunciation: number;
+  fluency: number;
+  intonation: number;
+  vocabulary: number;
+  grammar: number;
+  taskFulfillment: number;
+}
+
+// Extra criteria for spontaneous speech (describing the picture)
+export interface FreeSpeechScores {
+  relevance: number; // What was said matches the picture
+  range: number; // Variety of words and sentence patterns
+  coherence: number; // Ideas linked in a sensible order
+}
+
+export type SkillKey = keyof SkillScores | keyof FreeSpeechScores;
+
+export interface ReadingStats {
+  accuracy: number; // Percentage of script words read correctly (0-100)
+  wordsCorrect: number;
+  totalWords: number;
+  skipped: number;
+  substituted: number;
+  inserted: number;
+  wcpm: number; // Words correct per minute
+}
+
+export interface CoverageReport {
+  contentCoverage: number; // Share of script content words spoken (0-1)
+  sentenceCoverage: number; // Share of script sentences mostly spoken (0-1)
+  orderPreservation: number; // How closely the spoken order follows the script (0-1)
+  taskScore: number; // Local task-fulfillment score (0-10)
+  offTopic: boolean;
+}
+
+export interface LevelEstimate {
+  level: CEFRLevel; // Most likely demonstrated level
+  low: CEFRLevel; // Confidence band
+  high: CEFRLevel;
+  confidence: 'low' | 'medium' | 'high';
+}
+
+// Pronunciation error patterns that are typical for Vietnamese speakers of English
+export type PronunciationErrorCategory =
+  | 'final-consonant' // Final consonant dropped ("white" → "why")
+  | 'final-s' // Plural / third-person -s dropped
+  | 'ed-ending' // Past -ed dropped
+  | 'th' // /θ/ → /t/ or /s/, /ð/ → /d/ or /z/
+  | 'sh-s' // /ʃ/ → /s/
+  | 'l-n' // /l/ and /n/ mixed up
+  | 'vowel-length' // /iː/ and /ɪ/ mixed up ("sheep" → "ship")
+  | 'consonant-cluster' // A consonant of a cluster dropped ("play" → "pay")
+  | 'other';
+
+export interface Mistake {
+  word: string;
+  tip: string; // Vietnamese
+}
+
+export interface PronunciationError {
+  word: string;
+  target: string; // Expected phoneme (IPA, without slashes)
+  produced: string; // What was heard instead (IPA), '' when the sound was dropped
+  category: PronunciationErrorCategory;
+  tip: string; // Vietnamese
 }
 
 export interface EvaluationResult {
@@ -25,12 +106,72 @@ export interface EvaluationResult {
   vocabulary: number;
   grammar: number;
   taskFulfillment: number;
+  relevance?: number; // Free-speech criteria, only for picture description
+  range?: number;
+  coherence?: number;
+  taskType?: TaskType;
   perceivedLevel: string; // CEFR Mapping
-  mistakes: { word: string; tip: string }[];
+  levelEstimate?: LevelEstimate;
+  mistakes: Mistake[];
+  pronunciationErrors?: PronunciationError[]; // Missing on results saved before they were tracked
   feedback: string;
   teacherPraise: string;
   transcript: string;
+  transcriptEngine?: string; // Speech recognition engine that produced the transcript
   suggestions: string[];
+  reading?: ReadingStats; // Deterministic script-vs-transcript alignment
+  coverage?: CoverageReport; // Local content coverage behind taskFulfillment
+  scoreNotes?: string[]; // Why local checks changed the model's scores (Vietnamese)
+}
+
+export interface ShadowingSentenceResult {
+  sentence: string;
+  transcript: string; // Best attempt
+  accuracy: number; // Best attempt, 0-100
+  attempts: number;
+  tips: Mistake[]; // Pronunciation tips for the best attempt
+}
+
+export interface InterviewTurn {
+  speaker: 'examiner' | 'child';
+  text: string;
+}
+
+// Interaction-focused criteria of the Q&A interview (like YLE Speaking Part 4), 0-10 each
+export interface InterviewScores {
+  comprehension: number; // Understands the questions
+  interaction: number; // Answers to the point and keeps the conversation going
+  elaboration: number; // Says more than one word, gives reasons or details
+  vocabulary: number;
+  grammar: number;
+}
+
+export interface InterviewResult extends InterviewScores {
+  score: number; // 0-10, average of the criteria
+  turns: InterviewTurn[];
+  feedback: string; // Vietnamese
+  teacherPraise: string; // English
+  suggestions: string[]; // Vietnamese
+}
+
+export type YleLevel = Extract<CEFRLevel, 'Starters' | 'Movers' | 'Flyers'>;
+export type YlePart = 'pointing' | 'differences' | 'story' | 'personal';
+
+export interface YlePartResult {
+  part: YlePart;
+  transcript: string;
+  durationSeconds: number;
+  shields: number; // 1-5, like the shields on a Cambridge YLE statement of results
+  comment: string; // Vietnamese
+}
+
+export interface YleExamReport {
+  level: YleLevel;
+  theme: string;
+  parts: YlePartResult[];
+  shields: number; // Overall, 1-5
+  teacherPraise: string; // English
+  suggestions: string[]; // Vietnamese
 }
 
 export interface ComprehensionQuestion {